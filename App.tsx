@@ -1,36 +1,226 @@
-import React, { useState } from 'react';
-import { generateRecipe } from './services/geminiService';
-import { Recipe } from './types';
+import React, { useEffect, useRef, useState } from 'react';
+import { generateRecipe } from './services/recipeProvider';
+import { Recipe, RecipeDraft, SavedRecipe } from './types';
 import { RecipeCard } from './components/RecipeCard';
 import { LoadingSpinner } from './components/LoadingSpinner';
+import { RecipePreview } from './components/RecipePreview';
+import { RecipeBox } from './components/RecipeBox';
+import { MediaCacheSettings } from './components/MediaCacheSettings';
+import { DietaryProfileSettings } from './components/DietaryProfileSettings';
+import { NutritionTargetSettings } from './components/NutritionTargetSettings';
+import { TimerTray } from './components/TimerTray';
+import { ShoppingList } from './components/ShoppingList';
+import { PantryManager } from './components/PantryManager';
+import { MealPlanner } from './components/MealPlanner';
+import { RecipeImport } from './components/RecipeImport';
+import { ErrorNotice } from './components/ErrorNotice';
+import { ServiceError, toServiceError, isAbortError } from './services/errors';
+import { getSavedRecipe } from './services/recipeLibraryService';
+import { rememberRecipe, recallRecipe } from './services/sessionRecipeService';
+import { useDietaryProfile } from './context/DietaryProfileContext';
+import { useNutritionTargets } from './context/NutritionTargetsContext';
+import { useShoppingList } from './context/ShoppingListContext';
+import { useRouter } from './context/RouterContext';
+import { useOnlineStatus } from './context/OnlineStatusContext';
+import { Route, RecipeOverlay, ScreenName, formatRoute, isRecipeRoute, withOverlay } from './utils/routes';
+import { decodeRecipe } from './utils/shareLink';
+
+type View = 'search' | ScreenName;
+type RecipeRoute = Extract<Route, { name: 'recipe' | 'shared' }>;
+
+// Screens reachable from the header; search is home and settings has its own button
+const NAV_ITEMS: { view: ScreenName; icon: string; label: string }[] = [
+  { view: 'recipe-box', icon: '📖', label: 'Recipe Box' },
+  { view: 'planner', icon: '🗓️', label: 'Planner' },
+  { view: 'shopping-list', icon: '🛒', label: 'Shopping List' },
+  { view: 'pantry', icon: '🥫', label: 'Pantry' },
+];
+
+// Identifies the recipe behind a route, ignoring any overlay
+const recipeKey = (route: RecipeRoute) => formatRoute(withOverlay(route));
+
+// Saved recipes come back with their images; links to anything else that
+// can't be found (an expired session ID, a mangled share link) are not-found errors
+const resolveRecipe = async (route: RecipeRoute): Promise<{ recipe: Recipe; saved: SavedRecipe | null }> => {
+  if (route.name === 'shared') {
+    try {
+      return { recipe: await decodeRecipe(route.payload), saved: null };
+    } catch (err) {
+      throw new ServiceError('not-found', 'Could not read the shared recipe', err);
+    }
+  }
+  const saved = await getSavedRecipe(route.id);
+  if (saved) return { recipe: saved.recipe, saved };
+  const recent = recallRecipe(route.id);
+  if (recent) return { recipe: recent, saved: null };
+  throw new ServiceError('not-found', `No recipe with id ${route.id}`);
+};
 
 const App: React.FC = () => {
   const [query, setQuery] = useState('');
   const [recipe, setRecipe] = useState<Recipe | null>(null);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // A failed search retries the search; a failed link or history entry looks the recipe up again
+  const [failure, setFailure] = useState<{ error: ServiceError; retry: () => void } | null>(null);
+  const [resolveAttempt, setResolveAttempt] = useState(0);
   const [hasSearched, setHasSearched] = useState(false);
+  const [savedRecipe, setSavedRecipe] = useState<SavedRecipe | null>(null);
+  // The route the loaded recipe belongs to; the header returns here from other screens
+  const [recipeRoute, setRecipeRoute] = useState<RecipeRoute | null>(null);
+  // ID or share payload the shown recipe was opened under. Keys the recipe card so
+  // each recipe gets fresh version and save state, and stays put when saving moves the route.
+  const [cardId, setCardId] = useState('');
+  // Looking up the recipe for a link or a history entry
+  const [resolving, setResolving] = useState(false);
+  // What has streamed in so far while a recipe is being generated
+  const [draft, setDraft] = useState<RecipeDraft | null>(null);
+  const searchControllerRef = useRef<AbortController | null>(null);
+  const { route, navigate, back } = useRouter();
+  const routeRef = useRef(route);
+  routeRef.current = route;
+  const { profile } = useDietaryProfile();
+  const { targets } = useNutritionTargets();
+  const { list: shoppingList } = useShoppingList();
+  const { online, modelAvailable } = useOnlineStatus();
+
+  const view: View = isRecipeRoute(route) ? 'search' : route.name;
+  const homeRoute: Route = recipeRoute ?? { name: 'search' };
+  // Search routes show an empty search screen even when a recipe is loaded
+  const shownRecipe = isRecipeRoute(route) && recipeRoute && recipeKey(recipeRoute) === recipeKey(route) ? recipe : null;
+  const navBadges: Partial<Record<View, number>> = { 'shopping-list': shoppingList.recipes.length };
 
-  const handleSearch = async (e: React.FormEvent) => {
+  useEffect(() => () => searchControllerRef.current?.abort(), []);
+
+  // Links may carry a search to prefill; it isn't run until the cook asks
+  useEffect(() => {
+    if (route.name === 'search' && route.query) setQuery(route.query);
+  }, [route]);
+
+  const showRecipe = (next: RecipeRoute, shown: Recipe, saved: SavedRecipe | null) => {
+    setRecipeRoute(next);
+    setCardId(next.name === 'recipe' ? next.id : next.payload);
+    setRecipe(shown);
+    setSavedRecipe(saved);
+    setFailure(null);
+    setHasSearched(true);
+  };
+
+  // Opening a recipe URL directly, or reaching one through back/forward
+  useEffect(() => {
+    if (!isRecipeRoute(route)) return;
+    if (recipeRoute && recipeKey(recipeRoute) === recipeKey(route)) return;
+
+    searchControllerRef.current?.abort();
+    let cancelled = false;
+    setResolving(true);
+    setFailure(null);
+    resolveRecipe(route)
+      .then(({ recipe: resolved, saved }) => {
+        if (!cancelled) showRecipe(withOverlay(route), resolved, saved);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error(err);
+        setFailure({ error: toServiceError(err), retry: () => setResolveAttempt(a => a + 1) });
+      })
+      .finally(() => {
+        if (!cancelled) setResolving(false);
+      });
+    return () => { cancelled = true; };
+  }, [route, recipeRoute, resolveAttempt]);
+
+  const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
+    runSearch();
+  };
+
+  const runSearch = async () => {
     if (!query.trim()) return;
 
+    searchControllerRef.current?.abort();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+
     setLoading(true);
-    setError(null);
-    setRecipe(null);
+    setDraft(null);
+    setFailure(null);
     setHasSearched(true);
+    navigate({ name: 'search', query: query.trim() });
 
     try {
-      const result = await generateRecipe(query);
-      setRecipe(result);
+      const result = await generateRecipe(query, { signal: controller.signal, onProgress: setDraft, profile, targets });
+      const next: RecipeRoute = { name: 'recipe', id: rememberRecipe(result) };
+      showRecipe(next, result, null);
+      // Cooks who wandered off to another screen find it waiting behind the header
+      if (routeRef.current.name === 'search' || isRecipeRoute(routeRef.current)) navigate(next);
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error(err);
-      setError("Sorry, we couldn't cook up a recipe for that. Please try a different request.");
+      setFailure({ error: toServiceError(err), retry: runSearch });
     } finally {
-      setLoading(false);
+      // A newer search owns the loading state now
+      if (searchControllerRef.current === controller) {
+        searchControllerRef.current = null;
+        setLoading(false);
+        setDraft(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    searchControllerRef.current?.abort();
+  };
+
+  const handleOpenSaved = (saved: SavedRecipe) => {
+    searchControllerRef.current?.abort();
+    const next: RecipeRoute = { name: 'recipe', id: saved.id };
+    showRecipe(next, saved.recipe, saved);
+    navigate(next);
+  };
+
+  // Recipes that aren't in the recipe box get a session ID for their route
+  const handleOpenUnsaved = (unsaved: Recipe) => {
+    searchControllerRef.current?.abort();
+    const next: RecipeRoute = { name: 'recipe', id: rememberRecipe(unsaved) };
+    showRecipe(next, unsaved, null);
+    navigate(next);
+  };
+
+  // Planned meals keep a copy of their recipe; saved ones reopen with their images
+  const handleOpenPlanned = async (planned: Recipe, savedId?: string) => {
+    const saved = savedId ? await getSavedRecipe(savedId).catch(() => null) : null;
+    if (saved) handleOpenSaved(saved);
+    else handleOpenUnsaved(planned);
+  };
+
+  const handleOverlayChange = (overlay?: RecipeOverlay) => {
+    if (!isRecipeRoute(route)) return;
+    if (overlay) navigate(withOverlay(route, overlay));
+    else back(withOverlay(route));
+  };
+
+  // Point the URL at the recipe box copy so it outlives this session
+  const handleSaved = (from: RecipeRoute, id: string) => {
+    const next: RecipeRoute = { name: 'recipe', id };
+    // Saving is async; the cook may have moved on to another recipe by now
+    setRecipeRoute(prev => (prev && recipeKey(prev) === recipeKey(from) ? next : prev));
+    const current = routeRef.current;
+    if (isRecipeRoute(current) && recipeKey(current) === recipeKey(from)) {
+      navigate(withOverlay(next, current.overlay), { replace: true });
     }
   };
 
+  const handleStartOver = () => {
+    searchControllerRef.current?.abort();
+    setRecipe(null);
+    setSavedRecipe(null);
+    setRecipeRoute(null);
+    setFailure(null);
+    setQuery('');
+    setHasSearched(false);
+    navigate({ name: 'search' });
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 font-sans selection:bg-indigo-100 selection:text-indigo-900 relative overflow-hidden">
       
@@ -44,18 +234,66 @@ const App: React.FC = () => {
       {/* Sticky Header */}
       <nav className="sticky top-0 z-40 bg-white/70 backdrop-blur-xl border-b border-slate-200/60 shadow-sm">
         <div className="max-w-5xl mx-auto px-4 h-16 flex items-center justify-between">
-            <div className="flex items-center gap-2 cursor-pointer group" onClick={() => window.location.reload()}>
+            <div className="flex items-center gap-2 cursor-pointer group" onClick={handleStartOver}>
                 <span className="text-2xl group-hover:scale-110 transition-transform">👑</span>
                 <span className="font-serif font-bold text-xl text-slate-900 tracking-tight">Royal Recipes</span>
             </div>
+            <div className="flex items-center gap-2">
+                {NAV_ITEMS.map(item => (
+                    <button
+                        key={item.view}
+                        onClick={() => navigate(view === item.view ? homeRoute : { name: item.view })}
+                        className={`flex items-center gap-2 px-3 md:px-4 py-2 rounded-full text-sm font-bold transition-colors ${view === item.view ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-slate-100'}`}
+                        title={item.label}
+                    >
+                        <span>{item.icon}</span> <span className="hidden md:inline">{item.label}</span>
+                        {!!navBadges[item.view] && (
+                            <span className={`text-xs px-1.5 rounded-full ${view === item.view ? 'bg-white/20' : 'bg-emerald-100 text-emerald-700'}`}>
+                                {navBadges[item.view]}
+                            </span>
+                        )}
+                    </button>
+                ))}
+                <button
+                    onClick={() => navigate(view === 'settings' ? homeRoute : { name: 'settings' })}
+                    className={`w-10 h-10 flex items-center justify-center rounded-full transition-colors ${view === 'settings' ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-slate-100'}`}
+                    aria-label="Settings"
+                    title="Settings"
+                >
+                    ⚙️
+                </button>
+            </div>
         </div>
+        {!online && (
+            <div className="bg-amber-50 border-t border-amber-200 text-amber-800 text-sm text-center px-4 py-2">
+                📴 You're offline. Saved recipes, Cook Mode and tutorials you've kept offline still work{modelAvailable ? '.' : '; generating and refining recipes will be back when you reconnect.'}
+            </div>
+        )}
       </nav>
 
       <main className="max-w-5xl mx-auto px-4 py-8 md:py-12 relative z-10">
+        {view === 'recipe-box' ? (
+            <RecipeBox onOpen={handleOpenSaved} />
+        ) : view === 'import' ? (
+            <RecipeImport onImported={handleOpenUnsaved} />
+        ) : view === 'planner' ? (
+            <MealPlanner currentRecipe={recipe} onOpenRecipe={handleOpenPlanned} />
+        ) : view === 'shopping-list' ? (
+            <ShoppingList />
+        ) : view === 'pantry' ? (
+            <PantryManager />
+        ) : view === 'settings' ? (
+            <div className="space-y-12">
+                <DietaryProfileSettings />
+                <NutritionTargetSettings />
+                <MediaCacheSettings />
+            </div>
+        ) : (
+        <>
         {/* Search Hero Section - Collapses when recipe is found */}
-        <div className={`transition-all duration-700 ease-in-out flex flex-col items-center justify-center ${recipe || loading ? 'mb-8' : 'min-h-[60vh] mb-0'}`}>
+        <div className={`transition-all duration-700 ease-in-out flex flex-col items-center justify-center ${shownRecipe || loading || resolving ? 'mb-8' : 'min-h-[60vh] mb-0'}`}>
             
-            {!recipe && !loading && (
+            {!shownRecipe && !loading && !resolving && (
                 <div className="text-center mb-8 max-w-xl animate-fade-in-up">
                     <h1 className="text-4xl md:text-6xl font-serif font-bold text-slate-900 mb-6 leading-tight">
                         What are you <br/> <span className="text-indigo-600">craving?</span>
@@ -76,23 +314,34 @@ const App: React.FC = () => {
                     type="text"
                     value={query}
                     onChange={(e) => setQuery(e.target.value)}
-                    placeholder="e.g. 'Creamy pasta with mushrooms' or 'Spicy chicken'"
+                    placeholder={modelAvailable ? "e.g. 'Creamy pasta with mushrooms' or 'Spicy chicken'" : 'New recipes need a connection'}
                     className="w-full pl-14 pr-36 py-5 text-lg rounded-full bg-slate-800 text-white placeholder-slate-400 border-2 border-slate-700 shadow-xl shadow-slate-200/50 
                     focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/20 focus:scale-[1.02] 
                     outline-none transition-all duration-300 ease-out"
                     disabled={loading}
                 />
-                <button 
-                    type="submit" 
-                    className="absolute right-2 top-2 bottom-2 bg-indigo-600 text-white px-8 rounded-full font-bold text-lg hover:bg-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-indigo-900/20"
-                    disabled={loading || !query.trim()}
-                >
-                    {loading ? 'Cooking...' : 'Go'}
-                </button>
+                {loading ? (
+                    <button
+                        type="button"
+                        onClick={handleCancel}
+                        className="absolute right-2 top-2 bottom-2 bg-slate-600 text-white px-6 rounded-full font-bold text-lg hover:bg-red-500 transition-colors shadow-lg shadow-slate-900/20"
+                    >
+                        Cancel
+                    </button>
+                ) : (
+                    <button 
+                        type="submit" 
+                        className="absolute right-2 top-2 bottom-2 bg-indigo-600 text-white px-8 rounded-full font-bold text-lg hover:bg-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-indigo-900/20"
+                        disabled={!query.trim() || !modelAvailable}
+                        title={modelAvailable ? undefined : 'Needs a connection'}
+                    >
+                        Go
+                    </button>
+                )}
             </form>
             
             {/* Quick Suggestions */}
-            {!recipe && !loading && !hasSearched && (
+            {!shownRecipe && !loading && !resolving && !hasSearched && (
                 <div className="mt-10 flex flex-wrap gap-3 justify-center text-sm text-slate-600 animate-fade-in-up" style={{ animationDelay: '0.2s' }}>
                     <span className="text-slate-400 w-full text-center mb-1 uppercase tracking-widest text-xs font-semibold">Try something like</span>
                     {['15-minute healthy lunch', 'Chocolate dessert with 3 ingredients', 'Vegan curry'].map((suggestion) => (
@@ -104,32 +353,38 @@ const App: React.FC = () => {
                             {suggestion}
                         </button>
                     ))}
+                    <button
+                        onClick={() => navigate({ name: 'import' })}
+                        className="w-full text-center mt-4 text-slate-400 hover:text-indigo-600 transition-colors"
+                    >
+                        Already have a recipe? <span className="font-semibold underline">Import it</span>
+                    </button>
                 </div>
             )}
         </div>
 
         {/* Content Area */}
         <div className="transition-opacity duration-500">
-            {loading && <LoadingSpinner />}
+            {loading && (draft?.title ? <RecipePreview draft={draft} /> : <LoadingSpinner />)}
+            {resolving && !loading && <LoadingSpinner />}
             
-            {error && (
-                <div className="max-w-xl mx-auto bg-red-50 border-l-4 border-red-500 p-4 rounded-md text-red-700 text-center shadow-lg animate-fade-in">
-                    <p className="font-bold text-lg mb-1">Oops!</p>
-                    <p>{error}</p>
-                </div>
-            )}
+            {failure && !loading && !resolving && <ErrorNotice error={failure.error} onRetry={failure.retry} />}
 
-            {recipe && !loading && (
+            {shownRecipe && !loading && isRecipeRoute(route) && (
                 <div className="animate-fade-in-up">
-                    <RecipeCard recipe={recipe} />
+                    <RecipeCard
+                        key={cardId}
+                        recipe={shownRecipe}
+                        recipeId={cardId}
+                        saved={savedRecipe}
+                        overlay={route.overlay}
+                        onOverlayChange={handleOverlayChange}
+                        onSaved={id => handleSaved(route, id)}
+                    />
                     
                     <div className="text-center mt-16 mb-12">
                         <button 
-                            onClick={() => {
-                                setRecipe(null);
-                                setQuery('');
-                                setHasSearched(false);
-                            }}
+                            onClick={handleStartOver}
                             className="text-slate-400 hover:text-indigo-600 hover:underline text-sm transition-colors uppercase tracking-widest font-semibold"
                         >
                             Start Over
@@ -138,7 +393,11 @@ const App: React.FC = () => {
                 </div>
             )}
         </div>
+        </>
+        )}
       </main>
+
+      <TimerTray />
     </div>
   );
 };
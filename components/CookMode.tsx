@@ -1,51 +1,126 @@
-import React, { useState, useEffect } from 'react';
-import { RecipeStep, StepType } from '../types';
-import { generateStepVisual } from '../services/geminiService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Ingredient, RecipeStep, StepType } from '../types';
+import { generateStepVisual } from '../services/recipeProvider';
 import { RichInstruction } from './RichInstruction';
+import { ErrorNotice } from './ErrorNotice';
+import { StepTimerButtons } from './StepTimerButtons';
+import { VoiceControl } from './VoiceControl';
+import { VoiceCommand, answerIngredientQuestion, VOICE_HELP } from '../utils/voiceCommands';
+import { parseDurations, timerLabel, formatSpokenDuration } from '../utils/durations';
+import { toSpokenText } from '../utils/ingredients';
+import { INGREDIENT_TAG_REGEX } from '../utils/scaling';
+import { scheduleSteps, stepLabel, stepsDuring } from '../utils/stepGraph';
+import { convertQuantityText } from '../utils/units';
+import { useUnitSystem } from '../context/UnitSystemContext';
+import { useTimers } from '../context/TimerContext';
+import { useOnlineStatus } from '../context/OnlineStatusContext';
+import { ServiceError, toServiceError, isAbortError } from '../services/errors';
 
 interface CookModeProps {
   steps: RecipeStep[];
   onClose: () => void;
   recipeTitle: string;
   preloadedImages: Record<number, string>;
+  // Lets voice questions about ingredients the current step doesn't use be answered
+  ingredients?: Ingredient[];
+  // Called when the cook taps Finish on the last step, before closing
+  onFinish?: () => void;
 }
 
-export const CookMode: React.FC<CookModeProps> = ({ steps, onClose, recipeTitle, preloadedImages }) => {
+export const CookMode: React.FC<CookModeProps> = ({ steps, onClose, recipeTitle, preloadedImages, ingredients = [], onFinish }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [localImages, setLocalImages] = useState<Record<number, string>>({});
   const [loadingImage, setLoadingImage] = useState(false);
+  const [imageErrors, setImageErrors] = useState<Record<number, ServiceError>>({});
+  const { unitSystem } = useUnitSystem();
+  const { startTimer } = useTimers();
 
   // Combine preloaded images with any locally fetched ones (local fallback)
   const images = { ...preloadedImages, ...localImages };
 
   const currentStep = steps[currentIndex];
   const isLastStep = currentIndex === steps.length - 1;
+  const schedule = useMemo(() => scheduleSteps(steps), [steps]);
+  // Work that fits into this step's unattended time
+  const meanwhile = stepsDuring(schedule, currentIndex).filter(s => s.index > currentIndex);
   const isFirstStep = currentIndex === 0;
 
+  const hasImage = !!images[currentIndex];
+  const imageError = imageErrors[currentIndex];
+  const { online } = useOnlineStatus();
+
+  // Pictures that couldn't load offline are tried again on reconnecting
+  useEffect(() => {
+    if (!online) return;
+    setImageErrors(prev => {
+      const kept = Object.entries(prev).filter(([, e]: [string, ServiceError]) => e.kind !== 'offline');
+      return kept.length === Object.keys(prev).length ? prev : Object.fromEntries(kept);
+    });
+  }, [online]);
+
   // Fallback loading if not preloaded
   useEffect(() => {
-    let isMounted = true;
+    // Aborted when the step changes or Cook Mode closes
+    const controller = new AbortController();
 
     const loadImages = async () => {
-      // Only fetch if NOT in preloadedImages and NOT in localImages
-      if (!images[currentIndex]) {
-        setLoadingImage(true);
-        
-        // Context for better visuals
-        const previousInstructions = steps.slice(0, currentIndex).map(s => s.instruction);
-        
-        const url = await generateStepVisual(currentStep.instruction, previousInstructions);
-        if (isMounted && url) {
+      // Only fetch if we have neither an image nor a failure for this step
+      if (hasImage || imageError) return;
+      setLoadingImage(true);
+
+      // Context for better visuals
+      const previousInstructions = steps.slice(0, currentIndex).map(s => s.instruction);
+
+      try {
+        const url = await generateStepVisual(currentStep.instruction, previousInstructions, {
+          priority: 'current',
+          signal: controller.signal,
+        });
+        if (url) {
             setLocalImages(prev => ({ ...prev, [currentIndex]: url }));
         }
-        if (isMounted) setLoadingImage(false);
+      } catch (e) {
+        if (isAbortError(e)) return;
+        setImageErrors(prev => ({ ...prev, [currentIndex]: toServiceError(e) }));
       }
+      setLoadingImage(false);
     };
 
     loadImages();
 
-    return () => { isMounted = false; };
-  }, [currentIndex, currentStep, images, steps]);
+    return () => {
+      controller.abort();
+      setLoadingImage(false);
+    };
+  }, [currentIndex, currentStep, hasImage, imageError, steps]);
+
+  // Get the upcoming step's image ahead of the user tapping "Next"
+  const nextIndex = currentIndex + 1;
+  const hasNextImage = nextIndex >= steps.length || !!images[nextIndex];
+
+  useEffect(() => {
+    if (hasNextImage) return;
+    const controller = new AbortController();
+    const previousInstructions = steps.slice(0, nextIndex).map(s => s.instruction);
+
+    generateStepVisual(steps[nextIndex].instruction, previousInstructions, { priority: 'next', signal: controller.signal })
+      .then(url => {
+        if (url) setLocalImages(prev => ({ ...prev, [nextIndex]: url }));
+      })
+      .catch(e => {
+        if (!isAbortError(e)) console.warn("Failed to prefetch next step image", e);
+      });
+
+    return () => controller.abort();
+  }, [nextIndex, hasNextImage, steps]);
+
+  const retryImage = () => {
+    setImageErrors(prev => {
+      const next = { ...prev };
+      delete next[currentIndex];
+      return next;
+    });
+  };
 
   const handleNext = () => {
     if (!isLastStep) setCurrentIndex(prev => prev + 1);
@@ -55,6 +130,44 @@ export const CookMode: React.FC<CookModeProps> = ({ steps, onClose, recipeTitle,
     if (!isFirstStep) setCurrentIndex(prev => prev - 1);
   };
 
+  // Step text as it should be read aloud, in the cook's units
+  const spokenStep = (index: number) => {
+    const converted = steps[index].instruction.replace(INGREDIENT_TAG_REGEX, (_, name: string, quantity: string) =>
+      `<<${name}|${convertQuantityText(quantity, unitSystem, name)}>>`
+    );
+    return `Step ${index + 1}. ${toSpokenText(converted)}`;
+  };
+
+  const handleVoiceCommand = (command: VoiceCommand): string | undefined => {
+    switch (command.type) {
+      case 'next':
+        if (isLastStep) return 'That was the last step. Enjoy your meal!';
+        setCurrentIndex(currentIndex + 1);
+        return spokenStep(currentIndex + 1);
+      case 'previous':
+        if (isFirstStep) return `You're on the first step. ${spokenStep(0)}`;
+        setCurrentIndex(currentIndex - 1);
+        return spokenStep(currentIndex - 1);
+      case 'repeat':
+        return spokenStep(currentIndex);
+      case 'start-timer': {
+        const [duration] = parseDurations(currentStep.instruction);
+        if (!duration) return "This step doesn't have a timer.";
+        startTimer({
+          label: timerLabel(currentStep.instruction, duration),
+          seconds: duration.seconds,
+          recipeTitle,
+          stepIndex: currentIndex,
+        });
+        return `Timer started for ${formatSpokenDuration(duration.seconds)}.`;
+      }
+      case 'ingredient-question':
+        return answerIngredientQuestion(command.ingredient, currentStep, ingredients, unitSystem);
+      case 'unknown':
+        return `Sorry, I didn't catch that. ${VOICE_HELP}`;
+    }
+  };
+
   return (
     <div className="fixed inset-0 z-[60] bg-slate-900 text-white flex flex-col animate-fade-in">
       {/* Header */}
@@ -63,14 +176,17 @@ export const CookMode: React.FC<CookModeProps> = ({ steps, onClose, recipeTitle,
             <h2 className="text-sm uppercase tracking-widest text-slate-400 font-bold">Cook Mode</h2>
             <p className="font-serif text-lg">{recipeTitle}</p>
         </div>
-        <button 
-          onClick={onClose}
-          className="bg-slate-800 hover:bg-slate-700 p-2 rounded-full transition-colors"
-        >
-          <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-          </svg>
-        </button>
+        <div className="flex items-center gap-3">
+          <VoiceControl onCommand={handleVoiceCommand} />
+          <button 
+            onClick={onClose}
+            className="bg-slate-800 hover:bg-slate-700 p-2 rounded-full transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
       </div>
 
       {/* Main Content */}
@@ -83,6 +199,13 @@ export const CookMode: React.FC<CookModeProps> = ({ steps, onClose, recipeTitle,
                      <span className="text-4xl mb-2">🎨</span>
                      <span className="text-sm font-medium">Visualizing step...</span>
                  </div>
+             ) : imageError?.kind === 'offline' && !images[currentIndex] ? (
+                 <div className="text-slate-600 flex flex-col items-center">
+                     <span className="text-6xl opacity-20 mb-4">{currentIndex + 1}</span>
+                     <span className="text-sm opacity-50">📴 No picture saved for offline</span>
+                 </div>
+             ) : imageError && !images[currentIndex] ? (
+                 <ErrorNotice error={imageError} onRetry={retryImage} tone="dark" compact />
              ) : images[currentIndex] ? (
                  <img 
                     src={images[currentIndex]} 
@@ -124,6 +247,13 @@ export const CookMode: React.FC<CookModeProps> = ({ steps, onClose, recipeTitle,
                 />
             </p>
 
+            <StepTimerButtons
+              instruction={currentStep.instruction}
+              stepIndex={currentIndex}
+              recipeTitle={recipeTitle}
+              tone="dark"
+            />
+
             {currentStep.insight && (
                 <div className="bg-indigo-900/30 border-l-4 border-indigo-500 p-4 rounded-r-lg">
                     <div className="flex items-center gap-2 text-indigo-300 font-bold text-sm mb-1">
@@ -132,6 +262,21 @@ export const CookMode: React.FC<CookModeProps> = ({ steps, onClose, recipeTitle,
                     <p className="text-indigo-100 text-sm opacity-90">{currentStep.insight}</p>
                 </div>
             )}
+
+            {meanwhile.length > 0 && (
+                <div className="bg-emerald-900/20 border-l-4 border-emerald-500 p-4 rounded-r-lg">
+                    <div className="text-emerald-300 font-bold text-sm mb-1">⏭️ While you wait</div>
+                    <ul className="text-emerald-100 text-sm opacity-90 space-y-1">
+                        {meanwhile.map(s => (
+                            <li key={s.index}>
+                                <button onClick={() => setCurrentIndex(s.index)} className="text-left hover:underline">
+                                    Step {s.index + 1}: {stepLabel(steps[s.index])}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
         </div>
       </div>
 
@@ -155,7 +300,7 @@ export const CookMode: React.FC<CookModeProps> = ({ steps, onClose, recipeTitle,
          </div>
 
          <button 
-            onClick={isLastStep ? onClose : handleNext} 
+            onClick={isLastStep ? () => { onFinish?.(); onClose(); } : handleNext} 
             className="flex items-center gap-2 px-8 py-3 rounded-full font-bold bg-indigo-600 hover:bg-indigo-500 text-white transition-all shadow-lg shadow-indigo-900/20"
          >
             {isLastStep ? 'Finish' : 'Next'} →
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Allergen, Diet, DietaryProfile } from '../types';
+import { useDietaryProfile } from '../context/DietaryProfileContext';
+import { ALLERGEN_LABELS, DIET_LABELS } from '../utils/dietary';
+
+const EQUIPMENT_SUGGESTIONS = ['oven', 'microwave', 'blender', 'food processor', 'stand mixer', 'air fryer', 'slow cooker', 'grill'];
+
+const toggle = <T,>(list: T[], item: T): T[] =>
+  list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+const Chip: React.FC<{ active: boolean; onClick: () => void; tone: 'indigo' | 'red'; children: React.ReactNode }> = ({ active, onClick, tone, children }) => {
+  const activeClasses = tone === 'red'
+    ? 'bg-red-500 text-white border-red-500'
+    : 'bg-indigo-600 text-white border-indigo-600';
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={active}
+      className={`px-3 py-1.5 rounded-full text-sm font-semibold border transition-colors ${active ? activeClasses : 'bg-white text-slate-600 border-slate-200 hover:border-slate-400'}`}
+    >
+      {children}
+    </button>
+  );
+};
+
+const ListEditor: React.FC<{ items: string[]; placeholder: string; onChange: (items: string[]) => void }> = ({ items, placeholder, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const addItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    const item = draft.trim().toLowerCase();
+    if (item && !items.includes(item)) onChange([...items, item]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {items.map(item => (
+        <span key={item} className="text-sm bg-slate-100 text-slate-700 px-3 py-1 rounded-full flex items-center gap-1">
+          {item}
+          <button onClick={() => onChange(items.filter(i => i !== item))} className="hover:text-red-500" aria-label={`Remove ${item}`}>
+            ×
+          </button>
+        </span>
+      ))}
+      <form onSubmit={addItem}>
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder={placeholder}
+          className="text-sm px-3 py-1 rounded-full border border-dashed border-slate-300 bg-transparent focus:border-indigo-300 outline-none"
+        />
+      </form>
+    </div>
+  );
+};
+
+export const DietaryProfileSettings: React.FC = () => {
+  const { profile, setProfile } = useDietaryProfile();
+  const update = (changes: Partial<DietaryProfile>) => setProfile({ ...profile, ...changes });
+
+  return (
+    <div className="max-w-3xl mx-auto animate-fade-in-up space-y-6">
+      <h2 className="text-3xl font-serif font-bold text-slate-900 flex items-center gap-3">
+        <span>🥗</span> Dietary Profile
+      </h2>
+
+      <div className="bg-white/90 p-6 rounded-2xl border border-slate-200 shadow-sm space-y-6">
+        <p className="text-sm text-slate-500">
+          Every recipe and leftover idea is written with this profile in mind. Recipes are also checked for your
+          allergens after generation, but always read the ingredients yourself.
+        </p>
+
+        <section>
+          <h3 className="text-sm font-bold uppercase tracking-wider text-slate-500 mb-3">Diets</h3>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(DIET_LABELS) as Diet[]).map(diet => (
+              <Chip key={diet} tone="indigo" active={profile.diets.includes(diet)} onClick={() => update({ diets: toggle(profile.diets, diet) })}>
+                {DIET_LABELS[diet]}
+              </Chip>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-sm font-bold uppercase tracking-wider text-slate-500 mb-3">Allergies</h3>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(ALLERGEN_LABELS) as Allergen[]).map(allergen => (
+              <Chip key={allergen} tone="red" active={profile.allergens.includes(allergen)} onClick={() => update({ allergens: toggle(profile.allergens, allergen) })}>
+                {ALLERGEN_LABELS[allergen]}
+              </Chip>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-sm font-bold uppercase tracking-wider text-slate-500 mb-3">Ingredients you'd rather avoid</h3>
+          <ListEditor items={profile.dislikes} placeholder="+ e.g. cilantro" onChange={dislikes => update({ dislikes })} />
+        </section>
+
+        <section>
+          <h3 className="text-sm font-bold uppercase tracking-wider text-slate-500 mb-1">Equipment you have</h3>
+          <p className="text-xs text-slate-400 mb-3">Leave empty if you have a fully equipped kitchen.</p>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {EQUIPMENT_SUGGESTIONS.map(item => (
+              <Chip key={item} tone="indigo" active={profile.equipment.includes(item)} onClick={() => update({ equipment: toggle(profile.equipment, item) })}>
+                {item}
+              </Chip>
+            ))}
+          </div>
+          <ListEditor
+            items={profile.equipment.filter(item => !EQUIPMENT_SUGGESTIONS.includes(item))}
+            placeholder="+ other"
+            onChange={custom => update({ equipment: [...profile.equipment.filter(item => EQUIPMENT_SUGGESTIONS.includes(item)), ...custom] })}
+          />
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { DietaryWarning } from '../utils/dietary';
+
+interface DietaryWarningsProps {
+  warnings: DietaryWarning[];
+}
+
+const describeLocation = (warning: DietaryWarning): string => {
+  const places: string[] = [];
+  if (warning.inIngredients) places.push('ingredients');
+  if (warning.steps.length > 0) {
+    const steps = [...warning.steps].sort((a, b) => a - b).map(i => i + 1);
+    places.push(`${steps.length > 1 ? 'steps' : 'step'} ${steps.join(', ')}`);
+  }
+  return places.join(' and ');
+};
+
+export const DietaryWarnings: React.FC<DietaryWarningsProps> = ({ warnings }) => {
+  if (warnings.length === 0) return null;
+
+  const allergens = warnings.filter(w => w.kind === 'allergen');
+  const dislikes = warnings.filter(w => w.kind === 'dislike');
+
+  return (
+    <div className="mb-6 space-y-3" role="alert">
+      {allergens.length > 0 && (
+        <div className="border-l-4 border-red-500 bg-red-50 text-red-800 p-4 rounded-md">
+          <p className="font-bold mb-2 flex items-center gap-2">
+            <span>⚠️</span> This recipe may contain your allergens
+          </p>
+          <ul className="text-sm space-y-1">
+            {allergens.map(warning => (
+              <li key={warning.label}>
+                <span className="font-semibold">{warning.label}:</span> {warning.terms.join(', ')}
+                <span className="text-red-600/80"> ({describeLocation(warning)})</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs mt-2 text-red-700/80">Try "Tweak this recipe" below to swap them out.</p>
+        </div>
+      )}
+      {dislikes.length > 0 && (
+        <div className="border-l-4 border-amber-400 bg-amber-50 text-amber-800 p-3 rounded-md text-sm">
+          <span className="font-semibold">Heads up:</span> uses {dislikes.map(w => w.terms.join(', ')).join('; ')}, which you'd rather avoid.
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,41 +1,58 @@
 import React, { useEffect, useState } from 'react';
-import { generateRecipeVisual } from '../services/geminiService';
+import { generateRecipeVisual } from '../services/recipeProvider';
+import { ServiceError, toServiceError, isAbortError } from '../services/errors';
+import { ErrorNotice } from './ErrorNotice';
 
 interface DishVisualizerProps {
   title: string;
   description: string;
+  // Previously generated image (e.g. from the recipe box); skips generation
+  initialImageUrl?: string;
+  onImageReady?: (url: string) => void;
 }
 
-export const DishVisualizer: React.FC<DishVisualizerProps> = ({ title, description }) => {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
+export const DishVisualizer: React.FC<DishVisualizerProps> = ({ title, description, initialImageUrl, onImageReady }) => {
+  const [imageUrl, setImageUrl] = useState<string | null>(initialImageUrl ?? null);
   const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<ServiceError | null>(null);
+  const [attempt, setAttempt] = useState(0);
 
   useEffect(() => {
     let isMounted = true;
+    const controller = new AbortController();
 
     const fetchImage = async () => {
       setLoading(true);
+      setError(null);
       // Reset image when title changes
       setImageUrl(null);
       
-      const url = await generateRecipeVisual(title, description);
-      
-      if (isMounted && url) {
-        setImageUrl(url);
+      try {
+        const url = await generateRecipeVisual(title, description, { priority: 'current', signal: controller.signal });
+        if (isMounted && url) {
+          setImageUrl(url);
+          onImageReady?.(url);
+        }
+      } catch (e) {
+        if (isAbortError(e)) return;
+        if (isMounted) setError(toServiceError(e));
       }
       if (isMounted) {
         setLoading(false);
       }
     };
 
-    if (title) {
+    if (initialImageUrl) {
+      setImageUrl(initialImageUrl);
+    } else if (title) {
       fetchImage();
     }
 
     return () => {
       isMounted = false;
+      controller.abort();
     };
-  }, [title, description]);
+  }, [title, description, initialImageUrl, attempt]); // onImageReady omitted so a new callback doesn't refetch
 
   return (
     <div className="w-full aspect-video md:aspect-[2/1] rounded-xl overflow-hidden bg-slate-200 relative mb-6 shadow-inner">
@@ -56,7 +73,13 @@ export const DishVisualizer: React.FC<DishVisualizerProps> = ({ title, descripti
         />
       )}
 
-      {!loading && !imageUrl && (
+      {!loading && !imageUrl && error && (
+         <div className="absolute inset-0 flex items-center justify-center bg-slate-100">
+             <ErrorNotice error={error} onRetry={() => setAttempt(a => a + 1)} compact />
+         </div>
+      )}
+
+      {!loading && !imageUrl && !error && (
          <div className="absolute inset-0 flex items-center justify-center bg-indigo-50 text-indigo-300">
              <span className="text-4xl font-serif font-bold opacity-20">{title.charAt(0)}</span>
          </div>
@@ -0,0 +1,65 @@
+import React from 'react';
+import { ServiceError, ERROR_COPY } from '../services/errors';
+
+interface ErrorNoticeProps {
+  error: ServiceError;
+  onRetry?: () => void;
+  // 'dark' for the full-screen Cook Mode and Tutorial overlays
+  tone?: 'light' | 'dark';
+  // Smaller layout for use inside image frames
+  compact?: boolean;
+}
+
+const KIND_ICONS: Record<ServiceError['kind'], string> = {
+  'rate-limit': '⏳',
+  'quota-exhausted': '🪫',
+  'safety-block': '🚫',
+  'invalid-api-key': '🔑',
+  network: '📡',
+  offline: '📴',
+  'malformed-output': '🧩',
+  'not-found': '🔍',
+  storage: '💾',
+  unknown: '⚠️',
+};
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, tone = 'light', compact = false }) => {
+  const copy = ERROR_COPY[error.kind];
+  const canRetry = onRetry && error.retryable;
+
+  const toneClasses = tone === 'dark'
+    ? 'bg-red-950/60 border-red-500/60 text-red-100'
+    : 'bg-red-50 border-red-500 text-red-700';
+  const buttonClasses = tone === 'dark'
+    ? 'bg-white/10 hover:bg-white/20 text-white'
+    : 'bg-white hover:bg-red-100 text-red-700 border border-red-200';
+
+  if (compact) {
+    return (
+      <div className={`flex flex-col items-center text-center gap-2 p-4 ${tone === 'dark' ? 'text-red-200' : 'text-red-600'}`}>
+        <span className="text-3xl">{KIND_ICONS[error.kind]}</span>
+        <span className="text-sm font-bold">{copy.title}</span>
+        {canRetry && (
+          <button onClick={onRetry} className={`text-xs font-bold px-3 py-1 rounded-full transition-colors ${buttonClasses}`}>
+            Try again
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`max-w-xl mx-auto border-l-4 p-4 rounded-md text-center shadow-lg animate-fade-in ${toneClasses}`}>
+      <p className="font-bold text-lg mb-1">
+        <span className="mr-2">{KIND_ICONS[error.kind]}</span>
+        {copy.title}
+      </p>
+      <p>{copy.message}</p>
+      {canRetry && (
+        <button onClick={onRetry} className={`mt-3 px-4 py-1.5 rounded-full text-sm font-bold transition-colors ${buttonClasses}`}>
+          Try again
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,64 +1,128 @@
-import React, { useEffect, useState } from 'react';
-import { generateLeftoverSuggestions } from '../services/geminiService';
-import { LeftoverSuggestion } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { generateLeftoverSuggestions } from '../services/recipeProvider';
+import { Ingredient, LeftoverMode, LeftoverSuggestion } from '../types';
+import { isAbortError } from '../services/errors';
+import { useDietaryProfile } from '../context/DietaryProfileContext';
+import { usePantry } from '../context/PantryContext';
+import { useOnlineStatus } from '../context/OnlineStatusContext';
+import { findPantryItem, isExpiringSoon } from '../utils/pantry';
 
 interface LeftoverSuggestionsProps {
-  ingredients: string[];
-  recipeTitle: string;
+  ingredients: Ingredient[];
+  recipeTitle?: string;
+  // 'pantry' waits for the cook to ask, since the pantry changes with every edit
+  mode?: LeftoverMode;
+  // On-hand ingredients close to expiry, to be used up first
+  expiring?: string[];
 }
 
-export const LeftoverSuggestions: React.FC<LeftoverSuggestionsProps> = ({ ingredients, recipeTitle }) => {
+const MatchChip: React.FC<{ name: string; mode: LeftoverMode }> = ({ name, mode }) => {
+  const { items } = usePantry();
+  const onHand = findPantryItem(items, name);
+
+  if (onHand && isExpiringSoon(onHand)) {
+    return (
+      <span className="text-[10px] bg-amber-50 text-amber-800 px-2 py-1 rounded border border-amber-200" title="In your pantry and expiring soon">
+        ⏳ {name}
+      </span>
+    );
+  }
+  if (onHand) {
+    return (
+      <span className="text-[10px] bg-green-50 text-green-700 px-2 py-1 rounded border border-green-100" title="In your pantry">
+        ✓ {name}
+      </span>
+    );
+  }
+  // Leftover matches come from the recipe just cooked, so they count as on hand
+  return mode === 'pantry' ? (
+    <span className="text-[10px] bg-slate-50 text-slate-500 px-2 py-1 rounded border border-dashed border-slate-300" title="Not in your pantry">
+      + {name}
+    </span>
+  ) : (
+    <span className="text-[10px] bg-green-50 text-green-700 px-2 py-1 rounded border border-green-100">
+      {name}
+    </span>
+  );
+};
+
+export const LeftoverSuggestions: React.FC<LeftoverSuggestionsProps> = ({ ingredients, recipeTitle = '', mode: requestedMode, expiring }) => {
+  const mode: LeftoverMode = requestedMode ?? 'leftovers';
   const [suggestions, setSuggestions] = useState<LeftoverSuggestion[]>([]);
   const [loading, setLoading] = useState(false);
+  const { profile } = useDietaryProfile();
+  const { modelAvailable } = useOnlineStatus();
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const fetchSuggestions = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setLoading(true);
+    try {
+      const results = await generateLeftoverSuggestions(ingredients, recipeTitle, {
+        signal: controller.signal,
+        profile,
+        mode,
+        expiring,
+      });
+      setSuggestions(results);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Failed to fetch leftovers", e);
+    } finally {
+      if (controllerRef.current === controller) setLoading(false);
+    }
+  };
 
   useEffect(() => {
-    let isMounted = true;
-    const fetchSuggestions = async () => {
-      setLoading(true);
-      try {
-        const results = await generateLeftoverSuggestions(ingredients, recipeTitle);
-        if (isMounted) setSuggestions(results);
-      } catch (e) {
-        console.error("Failed to fetch leftovers", e);
-      } finally {
-        if (isMounted) setLoading(false);
-      }
-    };
+    // Offline, wait for the connection to come back rather than fail
+    if (mode === 'leftovers' && ingredients.length > 0 && modelAvailable) fetchSuggestions();
+  }, [ingredients, recipeTitle, profile, mode, expiring, modelAvailable]);
 
-    if (ingredients.length > 0) {
-        fetchSuggestions();
-    }
+  useEffect(() => () => controllerRef.current?.abort(), []);
 
-    return () => { isMounted = false; };
-  }, [ingredients, recipeTitle]);
+  const heading = mode === 'pantry'
+    ? <><span className="text-2xl">🥘</span> Cook With What You Have</>
+    : <><span className="text-2xl">♻️</span> Got Leftovers?</>;
 
   if (loading) {
     return (
         <div className="mt-12 p-6 rounded-2xl bg-slate-100 border border-slate-200 animate-pulse text-center">
-            <span className="text-slate-500 font-medium">Thinking of ways to use your leftovers...</span>
+            <span className="text-slate-500 font-medium">
+              {mode === 'pantry' ? 'Looking through your pantry...' : 'Thinking of ways to use your leftovers...'}
+            </span>
         </div>
     );
   }
 
-  if (suggestions.length === 0) return null;
+  if (mode === 'leftovers' && suggestions.length === 0) return null;
 
   return (
     <div className="mt-12">
-      <h3 className="text-xl font-serif font-bold text-slate-800 mb-6 flex items-center gap-2">
-        <span className="text-2xl">♻️</span> Got Leftovers?
-      </h3>
-      
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h3 className="text-xl font-serif font-bold text-slate-800 flex items-center gap-2">{heading}</h3>
+        {mode === 'pantry' && (
+          <button
+            onClick={fetchSuggestions}
+            disabled={ingredients.length === 0 || !modelAvailable}
+            title={modelAvailable ? undefined : 'Needs a connection'}
+            className="px-4 py-2 rounded-full bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {suggestions.length > 0 ? 'Suggest again' : 'Suggest dishes'}
+          </button>
+        )}
+      </div>
+
       <div className="grid md:grid-cols-3 gap-6">
         {suggestions.map((suggestion, idx) => (
           <div key={idx} className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm hover:shadow-md hover:border-indigo-200 transition-all">
             <h4 className="font-bold text-slate-800 mb-2">{suggestion.title}</h4>
             <p className="text-sm text-slate-500 mb-4">{suggestion.description}</p>
-            
+
             <div className="flex flex-wrap gap-1">
                 {suggestion.matchingIngredients.map((ing, i) => (
-                    <span key={i} className="text-[10px] bg-green-50 text-green-700 px-2 py-1 rounded border border-green-100">
-                        {ing}
-                    </span>
+                    <MatchChip key={i} name={ing} mode={mode} />
                 ))}
             </div>
           </div>
@@ -66,4 +130,4 @@ export const LeftoverSuggestions: React.FC<LeftoverSuggestionsProps> = ({ ingred
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,392 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LeftoverSuggestion, MealSlot, PlannedMeal, Recipe, SavedRecipe } from '../types';
+import { useMealPlan, NewMeal } from '../context/MealPlanContext';
+import { useShoppingList } from '../context/ShoppingListContext';
+import { useDietaryProfile } from '../context/DietaryProfileContext';
+import { useOnlineStatus } from '../context/OnlineStatusContext';
+import { generateLeftoverSuggestions, generateMealPlan } from '../services/recipeProvider';
+import { listSavedRecipes, matchesFilter } from '../services/recipeLibraryService';
+import { ServiceError, toServiceError, isAbortError } from '../services/errors';
+import { ErrorNotice } from './ErrorNotice';
+import {
+  MEAL_SLOTS,
+  MEAL_SLOT_LABELS,
+  addDays,
+  findMeal,
+  formatDay,
+  formatWeek,
+  fromDateKey,
+  nextLeftoverSlot,
+  recipesToShopFor,
+  startOfWeek,
+  toDateKey,
+  weekDates,
+} from '../utils/mealPlan';
+
+interface MealPlannerProps {
+  // The recipe currently open on the search screen, offered for planning
+  currentRecipe?: Recipe | null;
+  onOpenRecipe: (recipe: Recipe, savedId?: string) => void;
+}
+
+// Something that can be dropped onto a slot
+interface TrayItem {
+  key: string;
+  recipe: Recipe;
+  savedId?: string;
+}
+
+type DragSource = { kind: 'tray'; item: TrayItem } | { kind: 'meal'; id: string };
+
+interface LeftoverPicker {
+  mealId: string;
+  suggestions: LeftoverSuggestion[];
+  loading: boolean;
+  error: ServiceError | null;
+}
+
+const PLAN_EXAMPLES = ['5 dinners, under 30 minutes, high protein', '3 lunches and 4 dinners, vegetarian', '7 breakfasts, no eggs'];
+
+export const MealPlanner: React.FC<MealPlannerProps> = ({ currentRecipe, onOpenRecipe }) => {
+  const { meals, placeMeals, moveMeal, removeMeal } = useMealPlan();
+  const { addRecipe } = useShoppingList();
+  const { profile } = useDietaryProfile();
+  const { modelAvailable } = useOnlineStatus();
+
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [saved, setSaved] = useState<SavedRecipe[]>([]);
+  const [trayQuery, setTrayQuery] = useState('');
+  // Tap-to-place alternative to dragging, for touch screens and keyboards
+  const [selected, setSelected] = useState<TrayItem | null>(null);
+  const [dragging, setDragging] = useState<DragSource | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const [constraints, setConstraints] = useState('');
+  const [planning, setPlanning] = useState(false);
+  const [planError, setPlanError] = useState<ServiceError | null>(null);
+  const [leftoverPicker, setLeftoverPicker] = useState<LeftoverPicker | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    listSavedRecipes()
+      .then(result => { if (isMounted) setSaved(result); })
+      .catch(e => console.error("Failed to load recipe box", e));
+    return () => {
+      isMounted = false;
+      controllerRef.current?.abort();
+    };
+  }, []);
+
+  const days = useMemo(() => weekDates(weekStart), [weekStart]);
+  const dayKeys = days.map(toDateKey);
+  const weekMeals = meals.filter(meal => dayKeys.includes(meal.date));
+  const today = toDateKey(new Date());
+
+  const tray = useMemo<TrayItem[]>(() => {
+    const items: TrayItem[] = saved
+      .filter(s => matchesFilter(s, { query: trayQuery }))
+      .map(s => ({ key: s.id, recipe: s.recipe, savedId: s.id }));
+    if (currentRecipe && !saved.some(s => s.recipe.title === currentRecipe.title)) {
+      items.unshift({ key: 'current', recipe: currentRecipe });
+    }
+    return items;
+  }, [saved, trayQuery, currentRecipe]);
+
+  // Starts a request that replaces any other one still running
+  const startRequest = () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller;
+  };
+
+  const place = (item: TrayItem, date: string, slot: MealSlot) => {
+    placeMeals([{ date, slot, title: item.recipe.title, recipe: item.recipe, savedId: item.savedId }]);
+    setSelected(null);
+  };
+
+  const handleDrop = (date: string, slot: MealSlot) => {
+    if (dragging?.kind === 'tray') place(dragging.item, date, slot);
+    if (dragging?.kind === 'meal') moveMeal(dragging.id, date, slot);
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const handlePlanWeek = (e: React.FormEvent) => {
+    e.preventDefault();
+    runPlan();
+  };
+
+  const runPlan = async () => {
+    if (!constraints.trim()) return;
+    const controller = startRequest();
+    setPlanning(true);
+    setPlanError(null);
+    setLeftoverPicker(null);
+    try {
+      const entries = await generateMealPlan(constraints, { signal: controller.signal, profile });
+      placeMeals(entries.map((entry): NewMeal => ({
+        date: toDateKey(addDays(weekStart, entry.day)),
+        slot: entry.slot,
+        title: entry.recipe.title,
+        recipe: entry.recipe,
+      })));
+      setNotice(`Planned ${entries.length} ${entries.length === 1 ? 'meal' : 'meals'} for this week.`);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setPlanError(toServiceError(err));
+    } finally {
+      if (controllerRef.current === controller) setPlanning(false);
+    }
+  };
+
+  const handleFindLeftovers = async (meal: PlannedMeal) => {
+    if (!meal.recipe) return;
+    const controller = startRequest();
+    setPlanning(false);
+    setLeftoverPicker({ mealId: meal.id, suggestions: [], loading: true, error: null });
+    try {
+      const suggestions = await generateLeftoverSuggestions(meal.recipe.ingredients, meal.recipe.title, { signal: controller.signal, profile });
+      setLeftoverPicker({ mealId: meal.id, suggestions, loading: false, error: null });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setLeftoverPicker({ mealId: meal.id, suggestions: [], loading: false, error: toServiceError(err) });
+    }
+  };
+
+  const handlePlanLeftover = (meal: PlannedMeal, suggestion: LeftoverSuggestion) => {
+    const target = nextLeftoverSlot(meals, meal);
+    setLeftoverPicker(null);
+    if (!target) {
+      setNotice('No free lunch or dinner in the week after that meal for the leftovers.');
+      return;
+    }
+    placeMeals([{ ...target, title: suggestion.title, leftover: { fromMealId: meal.id, suggestion } }]);
+    setNotice(`"${suggestion.title}" planned for ${formatDay(fromDateKey(target.date))} ${MEAL_SLOT_LABELS[target.slot].toLowerCase()}.`);
+  };
+
+  const handleShopWeek = () => {
+    const recipes = recipesToShopFor(weekMeals);
+    recipes.forEach(({ sourceId, recipe }) => addRecipe(recipe, sourceId));
+    setNotice(recipes.length === 0
+      ? 'Nothing to shop for this week yet.'
+      : `Added ${recipes.length} ${recipes.length === 1 ? 'recipe' : 'recipes'} to your shopping list.`);
+  };
+
+  const sourceTitle = (meal: PlannedMeal) =>
+    meals.find(m => m.id === meal.leftover?.fromMealId)?.title;
+
+  return (
+    <div className="max-w-5xl mx-auto animate-fade-in-up">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-3xl font-serif font-bold text-slate-900 flex items-center gap-3">
+          <span>🗓️</span> Meal Planner
+        </h2>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setWeekStart(w => addDays(w, -7))} className="w-9 h-9 rounded-full bg-white border border-slate-200 hover:border-indigo-300" aria-label="Previous week">‹</button>
+          <button onClick={() => setWeekStart(startOfWeek(new Date()))} className="px-4 py-2 rounded-full bg-white border border-slate-200 text-sm font-bold text-slate-700 hover:border-indigo-300 min-w-[9rem]">
+            {formatWeek(weekStart)}
+          </button>
+          <button onClick={() => setWeekStart(w => addDays(w, 7))} className="w-9 h-9 rounded-full bg-white border border-slate-200 hover:border-indigo-300" aria-label="Next week">›</button>
+          <button
+            onClick={handleShopWeek}
+            className="ml-2 px-4 py-2 rounded-full bg-emerald-600 text-white text-sm font-bold hover:bg-emerald-500 transition-colors"
+          >
+            🛒 Shop this week
+          </button>
+        </div>
+      </div>
+
+      <form onSubmit={handlePlanWeek} className="flex flex-col sm:flex-row gap-2 mb-2">
+        <input
+          value={constraints}
+          onChange={e => setConstraints(e.target.value)}
+          placeholder={`e.g. '${PLAN_EXAMPLES[0]}'`}
+          disabled={planning}
+          className="flex-1 px-5 py-3 rounded-full bg-white border border-slate-200 shadow-sm focus:border-indigo-400 focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all"
+          aria-label="What should the week look like?"
+        />
+        {planning ? (
+          <button type="button" onClick={() => controllerRef.current?.abort()} className="px-6 py-3 rounded-full bg-slate-600 text-white font-bold hover:bg-red-500 transition-colors">
+            Cancel
+          </button>
+        ) : (
+          <button type="submit" disabled={!constraints.trim() || !modelAvailable} title={modelAvailable ? undefined : 'Needs a connection'} className="px-6 py-3 rounded-full bg-indigo-600 text-white font-bold hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+            ✨ Plan my week
+          </button>
+        )}
+      </form>
+      <div className="flex flex-wrap gap-2 mb-6">
+        {PLAN_EXAMPLES.map(example => (
+          <button key={example} onClick={() => setConstraints(example)} className="text-xs px-3 py-1 rounded-full bg-white border border-slate-200 text-slate-500 hover:border-indigo-300">
+            {example}
+          </button>
+        ))}
+      </div>
+
+      {planning && (
+        <div className="mb-6 p-4 rounded-2xl bg-slate-100 border border-slate-200 animate-pulse text-center text-slate-500 font-medium">
+          Planning your week...
+        </div>
+      )}
+      {planError && <div className="mb-6"><ErrorNotice error={planError} onRetry={runPlan} /></div>}
+      {notice && (
+        <div className="mb-6 flex items-center justify-between gap-3 px-4 py-3 rounded-xl bg-indigo-50 border border-indigo-100 text-sm text-indigo-800">
+          <span>{notice}</span>
+          <button onClick={() => setNotice(null)} className="text-indigo-400 hover:text-indigo-700" aria-label="Dismiss">×</button>
+        </div>
+      )}
+
+      <div className="grid lg:grid-cols-[16rem_1fr] gap-6">
+        {/* Recipe tray */}
+        <aside className="bg-white/90 rounded-2xl border border-slate-200 shadow-sm p-4 self-start lg:sticky lg:top-24">
+          <h3 className="font-bold text-slate-800 mb-1">Recipes</h3>
+          <p className="text-xs text-slate-400 mb-3">Drag onto a slot, or tap one and then a slot.</p>
+          {saved.length > 0 && (
+            <input
+              value={trayQuery}
+              onChange={e => setTrayQuery(e.target.value)}
+              placeholder="Search recipe box..."
+              className="w-full mb-3 px-3 py-2 rounded-full border border-slate-200 text-sm focus:border-indigo-300 outline-none"
+            />
+          )}
+          {tray.length === 0 ? (
+            <p className="text-sm text-slate-500">Save recipes to your recipe box or generate one to plan with it.</p>
+          ) : (
+            <ul className="space-y-2 max-h-[28rem] overflow-y-auto">
+              {tray.map(item => (
+                <li key={item.key}>
+                  <button
+                    draggable
+                    onDragStart={e => {
+                      e.dataTransfer.setData('text/plain', item.recipe.title);
+                      setDragging({ kind: 'tray', item });
+                    }}
+                    onDragEnd={() => setDragging(null)}
+                    onClick={() => setSelected(s => (s?.key === item.key ? null : item))}
+                    aria-pressed={selected?.key === item.key}
+                    className={`w-full text-left px-3 py-2 rounded-xl border text-sm cursor-grab active:cursor-grabbing transition-colors ${
+                      selected?.key === item.key ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-slate-50 border-slate-200 text-slate-700 hover:border-indigo-300'
+                    }`}
+                  >
+                    {item.key === 'current' && <span className="block text-[10px] uppercase tracking-wider opacity-70">Just generated</span>}
+                    <span className="font-semibold">{item.recipe.title}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </aside>
+
+        {/* Week grid */}
+        <div className="overflow-x-auto">
+          <div className="grid grid-cols-[5rem_repeat(7,minmax(7.5rem,1fr))] gap-2 min-w-[60rem]">
+            <div></div>
+            {days.map((day, i) => (
+              <div key={dayKeys[i]} className={`text-center text-sm font-bold py-2 rounded-xl ${dayKeys[i] === today ? 'bg-indigo-600 text-white' : 'text-slate-600'}`}>
+                {formatDay(day)}
+              </div>
+            ))}
+
+            {MEAL_SLOTS.map(slot => (
+              <React.Fragment key={slot}>
+                <div className="text-xs font-bold uppercase tracking-wider text-slate-400 pt-3">{MEAL_SLOT_LABELS[slot]}</div>
+                {dayKeys.map(date => {
+                  const meal = findMeal(meals, date, slot);
+                  const cellKey = `${date}#${slot}`;
+                  const picker = meal && leftoverPicker?.mealId === meal.id ? leftoverPicker : null;
+                  return (
+                    <div
+                      key={cellKey}
+                      onDragOver={e => {
+                        if (!dragging) return;
+                        e.preventDefault();
+                        setDropTarget(cellKey);
+                      }}
+                      onDragLeave={() => setDropTarget(t => (t === cellKey ? null : t))}
+                      onDrop={e => {
+                        e.preventDefault();
+                        handleDrop(date, slot);
+                      }}
+                      className={`relative min-h-[6.5rem] rounded-xl border-2 p-2 transition-colors ${
+                        dropTarget === cellKey ? 'border-indigo-400 bg-indigo-50' : meal ? 'border-transparent' : 'border-dashed border-slate-200'
+                      }`}
+                    >
+                      {meal ? (
+                        <div
+                          draggable
+                          onDragStart={e => {
+                            e.dataTransfer.setData('text/plain', meal.title);
+                            setDragging({ kind: 'meal', id: meal.id });
+                          }}
+                          onDragEnd={() => setDragging(null)}
+                          className={`h-full rounded-lg p-2 text-xs shadow-sm cursor-grab active:cursor-grabbing flex flex-col gap-1 ${
+                            meal.leftover ? 'bg-green-50 border border-green-200' : 'bg-white border border-slate-200'
+                          }`}
+                        >
+                          {meal.recipe ? (
+                            <button onClick={() => onOpenRecipe(meal.recipe!, meal.savedId)} className="text-left font-bold text-slate-800 hover:text-indigo-600 line-clamp-3">
+                              {meal.title}
+                            </button>
+                          ) : (
+                            <span className="font-bold text-slate-800 line-clamp-3" title={meal.leftover?.suggestion.description}>{meal.title}</span>
+                          )}
+                          {meal.leftover && (
+                            <span className="text-[10px] text-green-700">♻️ from {sourceTitle(meal) ?? 'an earlier meal'}</span>
+                          )}
+                          <div className="mt-auto flex justify-between text-[11px] font-bold">
+                            {meal.recipe ? (
+                              <button onClick={() => handleFindLeftovers(meal)} disabled={!modelAvailable} className="text-green-700 hover:text-green-900 disabled:opacity-40 disabled:cursor-not-allowed" title={modelAvailable ? 'Plan a later meal from the leftovers' : 'Needs a connection'}>
+                                ♻️ Leftovers
+                              </button>
+                            ) : <span></span>}
+                            <button onClick={() => removeMeal(meal.id)} className="text-slate-300 hover:text-red-500" aria-label={`Remove ${meal.title}`}>
+                              ×
+                            </button>
+                          </div>
+                        </div>
+                      ) : selected ? (
+                        <button
+                          onClick={() => place(selected, date, slot)}
+                          className="w-full h-full rounded-lg text-xs font-bold text-indigo-500 hover:bg-indigo-50"
+                        >
+                          + Place here
+                        </button>
+                      ) : null}
+
+                      {picker && meal && (
+                        <div className="absolute z-20 top-full left-0 mt-1 w-64 bg-white rounded-xl border border-slate-200 shadow-xl p-3 text-xs">
+                          <div className="flex justify-between items-center mb-2">
+                            <span className="font-bold text-slate-700">Use the leftovers for...</span>
+                            <button onClick={() => setLeftoverPicker(null)} className="text-slate-400 hover:text-slate-700" aria-label="Close">×</button>
+                          </div>
+                          {picker.loading && <p className="text-slate-500 animate-pulse">Thinking of ideas...</p>}
+                          {picker.error && <ErrorNotice error={picker.error} onRetry={() => handleFindLeftovers(meal)} compact />}
+                          <ul className="space-y-1">
+                            {picker.suggestions.map(suggestion => (
+                              <li key={suggestion.title}>
+                                <button
+                                  onClick={() => handlePlanLeftover(meal, suggestion)}
+                                  className="w-full text-left px-2 py-1.5 rounded-lg hover:bg-green-50"
+                                >
+                                  <span className="block font-semibold text-slate-800">{suggestion.title}</span>
+                                  <span className="block text-slate-500 line-clamp-2">{suggestion.description}</span>
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
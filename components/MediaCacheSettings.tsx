@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  MediaCacheEntry,
+  MediaKind,
+  MEDIA_KIND_LABELS,
+  CACHE_LIMIT_OPTIONS_MB,
+  listCachedMedia,
+  deleteCachedMedia,
+  clearMediaCache,
+  getMediaCacheLimitMb,
+  setMediaCacheLimitMb,
+} from '../services/mediaCacheService';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const KIND_ICONS: Record<MediaKind, string> = {
+  'dish-visual': '🍽️',
+  'step-visual': '🖼️',
+  'step-audio': '🔊',
+};
+
+export const MediaCacheSettings: React.FC = () => {
+  const [entries, setEntries] = useState<MediaCacheEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [limitMb, setLimitMb] = useState(getMediaCacheLimitMb);
+  const [filter, setFilter] = useState<MediaKind | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listCachedMedia());
+    } catch (e) {
+      console.error("Failed to read media cache", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const totals = useMemo(() => {
+    const byKind = {} as Record<MediaKind, { count: number; size: number }>;
+    (Object.keys(MEDIA_KIND_LABELS) as MediaKind[]).forEach(kind => {
+      byKind[kind] = { count: 0, size: 0 };
+    });
+    entries.forEach(e => {
+      byKind[e.kind].count++;
+      byKind[e.kind].size += e.size;
+    });
+    return byKind;
+  }, [entries]);
+
+  const totalSize = entries.reduce((sum, e) => sum + e.size, 0);
+  const usage = Math.min(100, (totalSize / (limitMb * 1024 * 1024)) * 100);
+  const visible = filter ? entries.filter(e => e.kind === filter) : entries;
+
+  const handleLimitChange = async (value: number) => {
+    setLimitMb(value);
+    await setMediaCacheLimitMb(value);
+    refresh();
+  };
+
+  const handleClear = async (kind?: MediaKind) => {
+    const what = kind ? MEDIA_KIND_LABELS[kind].toLowerCase() : 'all cached media';
+    if (!window.confirm(`Clear ${what}? They will be regenerated next time they're needed, which needs a connection.`)) return;
+    await clearMediaCache(kind);
+    refresh();
+  };
+
+  const handleDelete = async (key: string) => {
+    await deleteCachedMedia(key);
+    setEntries(prev => prev.filter(e => e.key !== key));
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-3xl mx-auto p-6 rounded-2xl bg-slate-100 border border-slate-200 animate-pulse text-center">
+        <span className="text-slate-500 font-medium">Checking the pantry shelves...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto animate-fade-in-up space-y-6">
+      <h2 className="text-3xl font-serif font-bold text-slate-900 flex items-center gap-3">
+        <span>⚙️</span> Media Cache
+      </h2>
+
+      <div className="bg-white/90 p-6 rounded-2xl border border-slate-200 shadow-sm space-y-4">
+        <p className="text-sm text-slate-500">
+          Generated images and narration are stored on this device so reopening a recipe is instant and doesn't use your API quota.
+          The least recently used items are removed when the cache is full.
+        </p>
+
+        <div>
+          <div className="flex justify-between text-sm font-semibold text-slate-700 mb-1">
+            <span>{formatBytes(totalSize)} used</span>
+            <span>{limitMb} MB limit</span>
+          </div>
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${usage}%` }}></div>
+          </div>
+        </div>
+
+        <label className="flex items-center justify-between text-sm">
+          <span className="font-semibold text-slate-700">Maximum size</span>
+          <select
+            value={limitMb}
+            onChange={e => handleLimitChange(Number(e.target.value))}
+            className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white"
+          >
+            {CACHE_LIMIT_OPTIONS_MB.map(mb => (
+              <option key={mb} value={mb}>{mb} MB</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="grid grid-cols-3 gap-3">
+          {(Object.keys(MEDIA_KIND_LABELS) as MediaKind[]).map(kind => (
+            <button
+              key={kind}
+              onClick={() => setFilter(filter === kind ? null : kind)}
+              className={`p-3 rounded-xl border text-left transition-colors ${filter === kind ? 'border-indigo-400 bg-indigo-50' : 'border-slate-200 hover:border-indigo-200'}`}
+            >
+              <div className="text-xl">{KIND_ICONS[kind]}</div>
+              <div className="text-xs font-bold text-slate-700">{MEDIA_KIND_LABELS[kind]}</div>
+              <div className="text-xs text-slate-500">{totals[kind].count} · {formatBytes(totals[kind].size)}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2 justify-end">
+          {filter && (
+            <button onClick={() => handleClear(filter)} className="px-4 py-2 rounded-full text-sm font-bold text-slate-600 border border-slate-200 hover:border-red-300 hover:text-red-600 transition-colors">
+              Clear {MEDIA_KIND_LABELS[filter].toLowerCase()}
+            </button>
+          )}
+          <button
+            onClick={() => handleClear()}
+            disabled={entries.length === 0}
+            className="px-4 py-2 rounded-full text-sm font-bold bg-red-50 text-red-700 border border-red-200 hover:bg-red-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            Clear everything
+          </button>
+        </div>
+      </div>
+
+      {visible.length > 0 && (
+        <ul className="bg-white/90 rounded-2xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+          {visible.map(entry => (
+            <li key={entry.key} className="flex items-center gap-3 px-5 py-3 text-sm">
+              <span className="text-lg">{KIND_ICONS[entry.kind]}</span>
+              <span className="flex-1 truncate text-slate-700" title={entry.label}>{entry.label}</span>
+              {entry.pinnedBy && (
+                <span className="text-xs text-emerald-600 whitespace-nowrap" title="Kept for a recipe saved for offline use; never evicted">
+                  📥 Offline
+                </span>
+              )}
+              <span className="text-xs text-slate-400 whitespace-nowrap">{formatBytes(entry.size)}</span>
+              <span className="text-xs text-slate-400 whitespace-nowrap hidden md:inline">
+                {new Date(entry.lastAccessedAt).toLocaleDateString()}
+              </span>
+              <button onClick={() => handleDelete(entry.key)} className="text-slate-300 hover:text-red-500 transition-colors" aria-label="Remove from cache">
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Recipe, StepType } from '../types';
+import { RichInstruction } from './RichInstruction';
+import { StepTimerButtons } from './StepTimerButtons';
+import { loadPreference, savePreference } from '../services/preferencesService';
+import { formatDuration } from '../utils/durations';
+import { KitchenResource, KitchenSetup, MAX_RESOURCE_COUNT, RESOURCE_LABELS, normalizeKitchen, planMultiDish } from '../utils/multiDish';
+import { nextClockTime, stepLabel } from '../utils/stepGraph';
+
+interface MultiDishCookModeProps {
+  recipes: Recipe[];
+  onClose: () => void;
+}
+
+const KITCHEN_PREFERENCE_KEY = 'kitchen-setup';
+
+// Colour per dish, in the order the recipes were picked
+const DISH_COLORS = [
+  { dot: 'bg-sky-400', chip: 'bg-sky-500/20 text-sky-200 border-sky-400/40' },
+  { dot: 'bg-fuchsia-400', chip: 'bg-fuchsia-500/20 text-fuchsia-200 border-fuchsia-400/40' },
+  { dot: 'bg-lime-400', chip: 'bg-lime-500/20 text-lime-200 border-lime-400/40' },
+  { dot: 'bg-orange-400', chip: 'bg-orange-500/20 text-orange-200 border-orange-400/40' },
+  { dot: 'bg-teal-400', chip: 'bg-teal-500/20 text-teal-200 border-teal-400/40' },
+];
+
+const dishColor = (dish: number) => DISH_COLORS[dish % DISH_COLORS.length];
+
+const TYPE_LABELS: Record<StepType, string> = {
+  [StepType.PREP]: 'Prep',
+  [StepType.COOK]: 'Cook',
+  [StepType.TIMING]: 'Timing',
+};
+
+const formatClock = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+// Several recipes interleaved into one Cook Mode session: mise en place first,
+// then the cooking timed so every dish is ready together
+export const MultiDishCookMode: React.FC<MultiDishCookModeProps> = ({ recipes, onClose }) => {
+  const [kitchen, setKitchen] = useState<KitchenSetup>(() =>
+    normalizeKitchen(loadPreference<Partial<KitchenSetup>>(KITCHEN_PREFERENCE_KEY, {}))
+  );
+  const [serveTime, setServeTime] = useState('');
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const plan = useMemo(() => planMultiDish(recipes, kitchen), [recipes, kitchen]);
+
+  useEffect(() => {
+    savePreference(KITCHEN_PREFERENCE_KEY, kitchen);
+  }, [kitchen]);
+
+  // A different kitchen reorders the plan, so start from the top
+  useEffect(() => {
+    setCurrentIndex(0);
+  }, [plan]);
+
+  const serveAt = nextClockTime(serveTime);
+  const timeOf = (minutes: number) => serveAt
+    ? formatClock(new Date(serveAt.getTime() - (plan.totalMinutes - minutes) * 60_000))
+    : minutes === 0 ? 'Start' : `+${formatDuration(minutes * 60)}`;
+
+  const current = plan.steps[currentIndex];
+  const isFirstStep = currentIndex === 0;
+  const isLastStep = currentIndex === plan.steps.length - 1;
+  // Later work that fits into this step's unattended time
+  const meanwhile = current
+    ? plan.steps.filter((s, i) => i > currentIndex && s.start >= current.activeEnd && s.start < current.end)
+    : [];
+
+  const changeKitchen = (resource: KitchenResource, delta: number) =>
+    setKitchen(k => ({ ...k, [resource]: Math.max(1, Math.min(MAX_RESOURCE_COUNT, k[resource] + delta)) }));
+
+  if (!current) return null;
+  const dish = recipes[current.dish];
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900 text-white flex flex-col animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-wrap justify-between items-center gap-4 p-6 border-b border-slate-700 bg-slate-900/50 backdrop-blur-sm">
+        <div>
+          <h2 className="text-sm uppercase tracking-widest text-slate-400 font-bold">Cooking {recipes.length} dishes</h2>
+          <div className="flex flex-wrap gap-2 mt-1">
+            {recipes.map((recipe, i) => (
+              <span key={i} className="flex items-center gap-1.5 text-sm font-serif">
+                <span className={`w-2.5 h-2.5 rounded-full ${dishColor(i).dot}`} />
+                {recipe.title}
+                <span className="text-xs font-sans text-slate-500">· ready {timeOf(plan.dishEnds[i])}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-slate-300">
+          {(Object.keys(RESOURCE_LABELS) as KitchenResource[]).map(resource => (
+            <span key={resource} className="flex items-center gap-1.5">
+              {RESOURCE_LABELS[resource].icon} {RESOURCE_LABELS[resource].label}s
+              <button onClick={() => changeKitchen(resource, -1)} className="w-6 h-6 rounded-full bg-slate-800 hover:bg-slate-700" aria-label={`Fewer ${resource}s`}>−</button>
+              <span className="w-4 text-center font-bold text-white">{kitchen[resource]}</span>
+              <button onClick={() => changeKitchen(resource, 1)} className="w-6 h-6 rounded-full bg-slate-800 hover:bg-slate-700" aria-label={`More ${resource}s`}>+</button>
+            </span>
+          ))}
+          <label className="flex items-center gap-2">
+            Serve at
+            <input
+              type="time"
+              value={serveTime}
+              onChange={e => setServeTime(e.target.value)}
+              className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-700 text-white outline-none focus:border-indigo-500"
+            />
+          </label>
+          <button onClick={onClose} className="bg-slate-800 hover:bg-slate-700 p-2 rounded-full transition-colors" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="flex-1 flex flex-col md:flex-row gap-8 p-4 md:p-8 overflow-y-auto max-w-6xl mx-auto w-full">
+        <div className="flex-1 max-w-2xl space-y-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`px-3 py-1 rounded-full text-xs font-bold border ${dishColor(current.dish).chip}`}>{dish.title}</span>
+            <span className="px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider bg-slate-800 text-slate-300">
+              {current.phase === 'prep' ? 'Mise en place' : TYPE_LABELS[current.step.type]}
+            </span>
+            {current.resources.map(resource => (
+              <span key={resource} className="px-3 py-1 rounded-full text-xs bg-slate-800 text-slate-300">
+                {RESOURCE_LABELS[resource].icon} {RESOURCE_LABELS[resource].label}
+              </span>
+            ))}
+            <span className="ml-auto text-slate-500 text-sm font-mono">{timeOf(current.start)}</span>
+          </div>
+
+          <p className="text-2xl md:text-3xl font-medium leading-relaxed">
+            <RichInstruction
+              text={current.step.instruction}
+              className="[&>span>span]:text-indigo-400 [&>span>span]:border-indigo-500/50"
+            />
+          </p>
+
+          <StepTimerButtons
+            instruction={current.step.instruction}
+            stepIndex={current.stepIndex}
+            recipeTitle={dish.title}
+            tone="dark"
+          />
+
+          {current.conflicts.map(({ resource, dishes }) => (
+            <div key={resource} className="bg-amber-900/20 border-l-4 border-amber-500 p-4 rounded-r-lg text-sm text-amber-100">
+              {RESOURCE_LABELS[resource].icon} Timed around the {RESOURCE_LABELS[resource].label.toLowerCase()}, which {dishes.join(' and ')} also {dishes.length > 1 ? 'need' : 'needs'}.
+            </div>
+          ))}
+
+          {current.step.insight && (
+            <div className="bg-indigo-900/30 border-l-4 border-indigo-500 p-4 rounded-r-lg">
+              <div className="text-indigo-300 font-bold text-sm mb-1">💡 Insight</div>
+              <p className="text-indigo-100 text-sm opacity-90">{current.step.insight}</p>
+            </div>
+          )}
+
+          {meanwhile.length > 0 && (
+            <div className="bg-emerald-900/20 border-l-4 border-emerald-500 p-4 rounded-r-lg">
+              <div className="text-emerald-300 font-bold text-sm mb-1">⏭️ While you wait</div>
+              <ul className="text-emerald-100 text-sm opacity-90 space-y-1">
+                {meanwhile.map(s => (
+                  <li key={`${s.dish}-${s.stepIndex}`}>
+                    <button onClick={() => setCurrentIndex(plan.steps.indexOf(s))} className="text-left hover:underline">
+                      {recipes[s.dish].title}: {stepLabel(s.step)}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Agenda */}
+        <ol className="md:w-72 space-y-1 text-sm">
+          {plan.steps.map((s, i) => (
+            <li key={`${s.dish}-${s.stepIndex}`}>
+              <button
+                onClick={() => setCurrentIndex(i)}
+                className={`w-full text-left flex items-start gap-2 px-3 py-2 rounded-lg transition-colors ${
+                  i === currentIndex ? 'bg-slate-700 text-white' : i < currentIndex ? 'text-slate-600 hover:bg-slate-800' : 'text-slate-300 hover:bg-slate-800'
+                }`}
+              >
+                <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${dishColor(s.dish).dot}`} />
+                <span className="flex-1 min-w-0 truncate">{stepLabel(s.step, 36)}</span>
+                <span className="text-xs font-mono text-slate-500">{timeOf(s.start)}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {/* Footer Controls */}
+      <div className="p-6 bg-slate-900/50 backdrop-blur-sm border-t border-slate-700 flex justify-between items-center max-w-6xl mx-auto w-full">
+        <button
+          onClick={() => setCurrentIndex(i => i - 1)}
+          disabled={isFirstStep}
+          className={`flex items-center gap-2 px-6 py-3 rounded-full font-bold transition-all ${isFirstStep ? 'text-slate-600 cursor-not-allowed' : 'bg-slate-800 hover:bg-slate-700 text-white'}`}
+        >
+          ← Previous
+        </button>
+
+        <span className="text-slate-500 text-sm font-mono">
+          {currentIndex + 1} / {plan.steps.length} · {formatDuration(plan.totalMinutes * 60)} in all
+        </span>
+
+        <button
+          onClick={isLastStep ? onClose : () => setCurrentIndex(i => i + 1)}
+          className="flex items-center gap-2 px-8 py-3 rounded-full font-bold bg-indigo-600 hover:bg-indigo-500 text-white transition-all shadow-lg shadow-indigo-900/20"
+        >
+          {isLastStep ? 'Finish' : 'Next'} →
+        </button>
+      </div>
+    </div>
+  );
+};
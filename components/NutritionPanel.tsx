@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Nutrients, NutritionConfidence, Recipe } from '../types';
+import { estimateNutrition as estimateWithModel } from '../services/recipeProvider';
+import { ServiceError, isAbortError, toServiceError } from '../services/errors';
+import { useNutritionTargets } from '../context/NutritionTargetsContext';
+import { useOnlineStatus } from '../context/OnlineStatusContext';
+import { CONFIDENCE_LABELS, NUTRIENT_LABELS, checkMacroTargets, estimateNutrition } from '../utils/nutrition';
+import { ErrorNotice } from './ErrorNotice';
+
+interface NutritionPanelProps {
+  recipe: Recipe;
+}
+
+const CONFIDENCE_CLASSES: Record<NutritionConfidence, string> = {
+  high: 'bg-green-50 text-green-700 border-green-200',
+  medium: 'bg-amber-50 text-amber-800 border-amber-200',
+  low: 'bg-red-50 text-red-700 border-red-200',
+};
+
+// Per serving, so it doesn't change when the recipe is scaled
+export const NutritionPanel: React.FC<NutritionPanelProps> = ({ recipe }) => {
+  const local = useMemo(() => estimateNutrition(recipe), [recipe]);
+  const [modelEstimate, setModelEstimate] = useState<Nutrients | null>(null);
+  const [estimating, setEstimating] = useState(false);
+  const [error, setError] = useState<ServiceError | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const { targets } = useNutritionTargets();
+  const { modelAvailable } = useOnlineStatus();
+
+  // A refined or different recipe needs a fresh estimate
+  useEffect(() => {
+    controllerRef.current?.abort();
+    setModelEstimate(null);
+    setError(null);
+  }, [recipe]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleEstimate = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setEstimating(true);
+    setError(null);
+    try {
+      setModelEstimate(await estimateWithModel(recipe, { signal: controller.signal }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Failed to estimate nutrition", err);
+      setError(toServiceError(err));
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setEstimating(false);
+      }
+    }
+  };
+
+  const nutrients = modelEstimate ?? local.perServing;
+  const checks = checkMacroTargets(nutrients, targets);
+
+  return (
+    <div className="bg-white/80 p-6 rounded-2xl border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h3 className="font-serif font-bold text-lg text-slate-900">Nutrition</h3>
+        {modelEstimate ? (
+          <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded border bg-indigo-50 text-indigo-700 border-indigo-200">
+            ✨ AI estimate
+          </span>
+        ) : (
+          <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded border ${CONFIDENCE_CLASSES[local.confidence]}`}>
+            {CONFIDENCE_LABELS[local.confidence]}
+          </span>
+        )}
+      </div>
+
+      <p className="text-xs text-slate-400 mb-3">Per serving</p>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+        {(Object.keys(NUTRIENT_LABELS) as (keyof Nutrients)[]).map(key => (
+          <div key={key} className="flex justify-between border-b border-slate-100 pb-1">
+            <dt className="text-slate-500">{NUTRIENT_LABELS[key].label}</dt>
+            <dd className="font-bold text-slate-800">
+              {nutrients[key]} <span className="font-normal text-slate-400">{NUTRIENT_LABELS[key].unit}</span>
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {checks.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-4">
+          {checks.map(({ label, met }) => (
+            <span
+              key={label}
+              className={`text-[10px] px-2 py-1 rounded border ${met ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-700 border-red-200'}`}
+              title={met ? 'Meets your target' : 'Misses your target'}
+            >
+              {met ? '✓' : '✗'} {label}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {!modelEstimate && local.unmatched.length > 0 && (
+        <p className="text-xs text-slate-500 mt-4">
+          Not counted: {local.unmatched.join(', ')}.
+        </p>
+      )}
+
+      {!modelEstimate && local.confidence !== 'high' && (
+        <button
+          onClick={handleEstimate}
+          disabled={estimating || !modelAvailable}
+          title={modelAvailable ? undefined : 'Needs a connection'}
+          className="mt-4 w-full px-4 py-2 rounded-full bg-white border border-indigo-200 text-indigo-700 text-sm font-bold hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-wait transition-colors"
+        >
+          {estimating ? 'Estimating…' : '✨ Estimate with AI'}
+        </button>
+      )}
+      {modelEstimate && (
+        <button onClick={() => setModelEstimate(null)} className="mt-4 text-xs text-slate-500 hover:underline">
+          Show the local estimate
+        </button>
+      )}
+
+      {error && <div className="mt-4"><ErrorNotice error={error} onRetry={handleEstimate} compact /></div>}
+    </div>
+  );
+};
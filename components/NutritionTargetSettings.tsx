@@ -0,0 +1,58 @@
+import React from 'react';
+import { MacroTargets } from '../types';
+import { useNutritionTargets } from '../context/NutritionTargetsContext';
+
+const FIELDS: { key: keyof MacroTargets; label: string; unit: string; placeholder: string }[] = [
+  { key: 'maxCalories', label: 'Calories at most', unit: 'kcal', placeholder: '600' },
+  { key: 'minProtein', label: 'Protein at least', unit: 'g', placeholder: '30' },
+  { key: 'maxCarbs', label: 'Carbs at most', unit: 'g', placeholder: '50' },
+  { key: 'maxFat', label: 'Fat at most', unit: 'g', placeholder: '25' },
+];
+
+export const NutritionTargetSettings: React.FC = () => {
+  const { targets, setTargets } = useNutritionTargets();
+
+  // An empty field clears that target
+  const update = (key: keyof MacroTargets, text: string) => {
+    const value = parseInt(text, 10);
+    const next = { ...targets };
+    if (value > 0) next[key] = value;
+    else delete next[key];
+    setTargets(next);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto animate-fade-in-up space-y-6">
+      <h2 className="text-3xl font-serif font-bold text-slate-900 flex items-center gap-3">
+        <span>🎯</span> Nutrition Targets
+      </h2>
+
+      <div className="bg-white/90 p-6 rounded-2xl border border-slate-200 shadow-sm space-y-4">
+        <p className="text-sm text-slate-500">
+          Per serving. New and refined recipes aim for these, and each recipe's nutrition panel shows whether it
+          meets them. Leave a field empty for no target.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {FIELDS.map(({ key, label, unit, placeholder }) => (
+            <label key={key} className="flex items-center justify-between gap-3 text-sm font-semibold text-slate-700">
+              {label}
+              <span className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  inputMode="numeric"
+                  value={targets[key] ?? ''}
+                  onChange={e => update(key, e.target.value)}
+                  placeholder={placeholder}
+                  className="w-24 px-3 py-1.5 rounded-lg border border-slate-200 text-right focus:border-indigo-300 outline-none"
+                />
+                <span className="w-8 text-slate-400 font-normal">{unit}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
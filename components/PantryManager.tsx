@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { PantryItem } from '../types';
+import { usePantry } from '../context/PantryContext';
+import { LeftoverSuggestions } from './LeftoverSuggestions';
+import { parseIngredient } from '../utils/ingredients';
+import { formatUnit } from '../utils/quantity';
+import { describeExpiry, daysUntilExpiry, isExpiringSoon, pantryToIngredients, sortPantry } from '../utils/pantry';
+
+const expiryClasses = (item: PantryItem): string => {
+  const days = daysUntilExpiry(item);
+  if (days === undefined) return 'text-slate-400';
+  if (days < 0) return 'bg-red-100 text-red-700';
+  if (isExpiringSoon(item)) return 'bg-amber-100 text-amber-800';
+  return 'bg-slate-100 text-slate-500';
+};
+
+const PantryRow: React.FC<{ item: PantryItem }> = ({ item }) => {
+  const { updateItem, removeItems } = usePantry();
+  const expiry = describeExpiry(item);
+
+  return (
+    <li className="flex flex-wrap items-center gap-3 py-3">
+      <span className="flex-1 min-w-[8rem] font-medium text-slate-800">{item.name}</span>
+      <label className="flex items-center gap-1 text-sm text-slate-500">
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={item.quantity ?? ''}
+          onChange={e => updateItem(item.id, { quantity: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+          placeholder="qty"
+          className="w-20 px-2 py-1 rounded-lg border border-slate-200 text-right text-slate-800 focus:border-indigo-300 outline-none"
+          aria-label={`Amount of ${item.name}`}
+        />
+        {item.unit && formatUnit(item.unit, item.quantity)}
+      </label>
+      <input
+        type="date"
+        value={item.expiresOn ?? ''}
+        onChange={e => updateItem(item.id, { expiresOn: e.target.value || undefined })}
+        className="px-2 py-1 rounded-lg border border-slate-200 text-sm text-slate-600 focus:border-indigo-300 outline-none"
+        aria-label={`Expiry date of ${item.name}`}
+      />
+      <span className={`w-20 text-center text-xs font-bold px-2 py-1 rounded-full ${expiryClasses(item)}`}>
+        {expiry ?? 'No date'}
+      </span>
+      <button onClick={() => removeItems([item.id])} className="text-slate-300 hover:text-red-500" aria-label={`Remove ${item.name}`}>
+        ×
+      </button>
+    </li>
+  );
+};
+
+export const PantryManager: React.FC = () => {
+  const { items, addItems } = usePantry();
+  const [draft, setDraft] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+
+  const sorted = useMemo(() => sortPantry(items), [items]);
+  const ingredients = useMemo(() => pantryToIngredients(items), [items]);
+  const expiring = useMemo(() => sorted.filter(item => isExpiringSoon(item)).map(item => item.name), [sorted]);
+
+  // Accepts the same shorthand as an ingredient line: "2 kg potatoes"
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    const { name, quantity, unit } = parseIngredient(draft);
+    addItems([{ name, quantity, unit, expiresOn: expiresOn || undefined }]);
+    setDraft('');
+    setExpiresOn('');
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto animate-fade-in-up">
+      <h2 className="text-3xl font-serif font-bold text-slate-900 mb-6 flex items-center gap-3">
+        <span>🥫</span> Pantry
+      </h2>
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-2 mb-6">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder="e.g. '2 kg potatoes' or 'soy sauce'"
+          className="flex-1 px-5 py-3 rounded-full bg-white border border-slate-200 shadow-sm focus:border-indigo-400 focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all"
+          aria-label="Pantry item"
+        />
+        <input
+          type="date"
+          value={expiresOn}
+          onChange={e => setExpiresOn(e.target.value)}
+          className="px-4 py-3 rounded-full bg-white border border-slate-200 shadow-sm text-slate-600 focus:border-indigo-400 outline-none"
+          aria-label="Expiry date"
+          title="Expiry date (optional)"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="px-6 py-3 rounded-full bg-indigo-600 text-white font-bold hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Add
+        </button>
+      </form>
+
+      {items.length === 0 ? (
+        <div className="bg-white/80 p-8 rounded-2xl border border-slate-200 text-center text-slate-500">
+          Nothing in your pantry yet. Add what you have, or tick items off your shopping list and put them away.
+        </div>
+      ) : (
+        <>
+          {expiring.length > 0 && (
+            <p className="mb-4 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3">
+              ⏳ Use soon: {expiring.join(', ')}
+            </p>
+          )}
+          <ul className="bg-white/90 rounded-2xl border border-slate-200 shadow-sm px-5 divide-y divide-slate-100">
+            {sorted.map(item => <PantryRow key={item.id} item={item} />)}
+          </ul>
+          <p className="mt-3 text-xs text-slate-400">
+            Amounts are approximate. Marking a recipe as cooked takes its ingredients off whatever you track here.
+          </p>
+        </>
+      )}
+
+      <LeftoverSuggestions ingredients={ingredients} mode="pantry" expiring={expiring} />
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { Recipe, UnitSystem } from '../types';
+import { ingredientLines, inlineQuantities } from '../utils/recipeExport';
+
+interface PrintableRecipeProps {
+  recipe: Recipe;
+  system: UnitSystem;
+  image?: string;
+  // Called once the dish image (if any) has loaded, so it makes it onto the page
+  onReady: () => void;
+}
+
+// Print-only copy of a recipe. It is mounted outside #root, which index.html
+// hides when printing, so the app chrome and overlays never reach the paper.
+export const PrintableRecipe: React.FC<PrintableRecipeProps> = ({ recipe, system, image, onReady }) => {
+  const readyRef = useRef(false);
+
+  const markReady = () => {
+    if (readyRef.current) return;
+    readyRef.current = true;
+    onReady();
+  };
+
+  useEffect(() => {
+    if (!image) markReady();
+  }, []);
+
+  return createPortal(
+    <article className="hidden print:block text-black bg-white font-sans p-8 max-w-3xl mx-auto">
+      <header className="mb-6 text-center">
+        <h1 className="text-4xl font-serif font-bold mb-2">{recipe.title}</h1>
+        {recipe.description && <p className="italic text-lg text-slate-700">{recipe.description}</p>}
+        <p className="mt-2 text-sm font-bold uppercase tracking-widest text-slate-600">Serves {recipe.servings}</p>
+      </header>
+
+      {image && (
+        <img
+          src={image}
+          alt={recipe.title}
+          onLoad={markReady}
+          onError={markReady}
+          className="w-full max-h-80 object-cover rounded-xl mb-8"
+        />
+      )}
+
+      <div className="grid grid-cols-3 gap-8">
+        <section className="col-span-1">
+          <h2 className="text-xl font-serif font-bold border-b border-slate-300 pb-1 mb-3">Ingredients</h2>
+          {ingredientLines(recipe, system).map(({ group, lines }) => (
+            <div key={group ?? ''} className="mb-4 break-inside-avoid">
+              {group && <h3 className="text-xs font-bold uppercase tracking-wider text-slate-600 mb-1">{group}</h3>}
+              <ul className="space-y-1 text-sm">
+                {lines.map((line, i) => <li key={i}>☐ {line}</li>)}
+              </ul>
+            </div>
+          ))}
+        </section>
+
+        <section className="col-span-2">
+          <h2 className="text-xl font-serif font-bold border-b border-slate-300 pb-1 mb-3">Method</h2>
+          <ol className="space-y-4">
+            {recipe.steps.map((step, i) => (
+              <li key={i} className="flex gap-3 break-inside-avoid">
+                <span className="font-bold text-lg leading-tight">{i + 1}.</span>
+                <div>
+                  <p className="leading-relaxed">{inlineQuantities(step.instruction, system)}</p>
+                  {step.insight && <p className="mt-1 text-sm italic text-slate-600">Tip: {step.insight}</p>}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </section>
+      </div>
+    </article>,
+    document.body
+  );
+};
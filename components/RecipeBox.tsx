@@ -0,0 +1,273 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SavedRecipe } from '../types';
+import {
+  listSavedRecipes,
+  updateSavedRecipe,
+  deleteSavedRecipe,
+  matchesFilter,
+  collectTags,
+  normalizeTag,
+} from '../services/recipeLibraryService';
+import { ServiceError, toServiceError } from '../services/errors';
+import { useShoppingList } from '../context/ShoppingListContext';
+import { MultiDishCookMode } from './MultiDishCookMode';
+import { ErrorNotice } from './ErrorNotice';
+
+interface RecipeBoxProps {
+  onOpen: (saved: SavedRecipe) => void;
+}
+
+const TagEditor: React.FC<{ tags: string[]; onChange: (tags: string[]) => void }> = ({ tags, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const addTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = normalizeTag(draft);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tags.map(tag => (
+        <span key={tag} className="text-[10px] bg-indigo-50 text-indigo-700 px-2 py-1 rounded border border-indigo-100 flex items-center gap-1">
+          {tag}
+          <button onClick={() => onChange(tags.filter(t => t !== tag))} className="hover:text-red-500" aria-label={`Remove tag ${tag}`}>
+            ×
+          </button>
+        </span>
+      ))}
+      <form onSubmit={addTag}>
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder="+ tag"
+          className="w-16 text-[10px] px-2 py-1 rounded border border-dashed border-slate-300 bg-transparent focus:w-24 focus:border-indigo-300 outline-none transition-all"
+        />
+      </form>
+    </div>
+  );
+};
+
+export const RecipeBox: React.FC<RecipeBoxProps> = ({ onOpen }) => {
+  const [recipes, setRecipes] = useState<SavedRecipe[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  // Ids picked to cook at the same time, in the order they were picked
+  const [together, setTogether] = useState<string[]>([]);
+  const [cookingTogether, setCookingTogether] = useState(false);
+  // The last failed load or change, with a way to try it again
+  const [failure, setFailure] = useState<{ error: ServiceError; retry: () => void } | null>(null);
+  const { list, addRecipe } = useShoppingList();
+
+  // Bumped to reload after a failed first load
+  const [loadAttempt, setLoadAttempt] = useState(0);
+
+  useEffect(() => {
+    let isMounted = true;
+    listSavedRecipes()
+      .then(result => { if (isMounted) setRecipes(result); })
+      .catch(e => {
+        console.error("Failed to load recipe box", e);
+        if (isMounted) setFailure({ error: toServiceError(e), retry: () => { setFailure(null); setLoading(true); setLoadAttempt(a => a + 1); } });
+      })
+      .finally(() => { if (isMounted) setLoading(false); });
+    return () => { isMounted = false; };
+  }, [loadAttempt]);
+
+  const tags = useMemo(() => collectTags(recipes), [recipes]);
+  const visible = useMemo(
+    () => recipes.filter(r => matchesFilter(r, { query, tag: activeTag ?? undefined, favoritesOnly })),
+    [recipes, query, activeTag, favoritesOnly]
+  );
+
+  const togetherRecipes = useMemo(
+    () => together.flatMap(id => recipes.filter(r => r.id === id).map(r => r.recipe)),
+    [together, recipes]
+  );
+
+  const toggleTogether = (id: string) =>
+    setTogether(prev => (prev.includes(id) ? prev.filter(t => t !== id) : [...prev, id]));
+
+  const applyUpdate = async (id: string, changes: Partial<SavedRecipe>) => {
+    setFailure(null);
+    try {
+      const updated = await updateSavedRecipe(id, changes);
+      if (updated) setRecipes(prev => prev.map(r => (r.id === id ? updated : r)));
+    } catch (e) {
+      console.error("Failed to update saved recipe", e);
+      setFailure({ error: toServiceError(e), retry: () => applyUpdate(id, changes) });
+    }
+  };
+
+  const removeSaved = async (saved: SavedRecipe) => {
+    setFailure(null);
+    try {
+      await deleteSavedRecipe(saved.id);
+      setRecipes(prev => prev.filter(r => r.id !== saved.id));
+      setTogether(prev => prev.filter(id => id !== saved.id));
+    } catch (e) {
+      console.error("Failed to remove saved recipe", e);
+      setFailure({ error: toServiceError(e), retry: () => removeSaved(saved) });
+    }
+  };
+
+  const handleDelete = (saved: SavedRecipe) => {
+    if (!window.confirm(`Remove "${saved.recipe.title}" from your recipe box?`)) return;
+    removeSaved(saved);
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-3xl mx-auto p-6 rounded-2xl bg-slate-100 border border-slate-200 animate-pulse text-center">
+        <span className="text-slate-500 font-medium">Opening your recipe box...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto animate-fade-in-up">
+      <h2 className="text-3xl font-serif font-bold text-slate-900 mb-6 flex items-center gap-3">
+        <span>📖</span> Recipe Box
+      </h2>
+
+      {failure && (
+        <div className="mb-6">
+          <ErrorNotice error={failure.error} onRetry={failure.retry} />
+        </div>
+      )}
+
+      {recipes.length === 0 ? (
+        <div className="bg-white/80 p-8 rounded-2xl border border-slate-200 text-center text-slate-500">
+          Nothing saved yet. Generate a recipe and hit <span className="font-bold text-amber-700">Save</span> to keep it here.
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-col md:flex-row gap-3 mb-4">
+            <input
+              type="text"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search by title or ingredient..."
+              className="flex-1 px-5 py-3 rounded-full bg-white border border-slate-200 shadow-sm focus:border-indigo-400 focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all"
+            />
+            <button
+              onClick={() => setFavoritesOnly(f => !f)}
+              className={`px-5 py-3 rounded-full font-bold text-sm border transition-colors ${
+                favoritesOnly ? 'bg-amber-400 border-amber-400 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-amber-300'
+              }`}
+            >
+              ★ Favorites
+            </button>
+          </div>
+
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-6">
+              {tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                  className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                    activeTag === tag ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300'
+                  }`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {visible.length === 0 ? (
+            <p className="text-center text-slate-500 py-8">No saved recipes match your search.</p>
+          ) : (
+            <div className="grid md:grid-cols-2 gap-6">
+              {visible.map(saved => (
+                <div key={saved.id} className="bg-white rounded-xl border border-slate-200 shadow-sm hover:shadow-md hover:border-indigo-200 transition-all overflow-hidden flex flex-col">
+                  <button onClick={() => onOpen(saved)} className="aspect-[2/1] bg-indigo-50 overflow-hidden text-left">
+                    {saved.dishImage ? (
+                      <img src={saved.dishImage} alt={saved.recipe.title} className="w-full h-full object-cover" />
+                    ) : (
+                      <span className="w-full h-full flex items-center justify-center text-4xl font-serif font-bold text-indigo-200">
+                        {saved.recipe.title.charAt(0)}
+                      </span>
+                    )}
+                  </button>
+                  <div className="p-5 flex-1 flex flex-col gap-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <button onClick={() => onOpen(saved)} className="text-left">
+                        <h3 className="font-bold text-slate-800 hover:text-indigo-600 transition-colors">{saved.recipe.title}</h3>
+                        <p className="text-sm text-slate-500 line-clamp-2">{saved.recipe.description}</p>
+                      </button>
+                      <button
+                        onClick={() => applyUpdate(saved.id, { favorite: !saved.favorite })}
+                        className={`text-xl transition-transform hover:scale-110 ${saved.favorite ? 'text-amber-400' : 'text-slate-300'}`}
+                        aria-label={saved.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                      >
+                        ★
+                      </button>
+                    </div>
+                    <TagEditor tags={saved.tags} onChange={tags => applyUpdate(saved.id, { tags })} />
+                    <div className="mt-auto flex justify-between items-center text-xs text-slate-400">
+                      <span>
+                        Saved {new Date(saved.createdAt).toLocaleDateString()}
+                        {saved.offlineServings !== undefined && (
+                          <span className="ml-2 text-emerald-600" title={`Cook Mode and the tutorial work offline at ${saved.offlineServings} servings`}>📥 Offline</span>
+                        )}
+                      </span>
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => toggleTogether(saved.id)}
+                          aria-pressed={together.includes(saved.id)}
+                          className={`transition-colors ${together.includes(saved.id) ? 'text-indigo-600 font-bold' : 'hover:text-indigo-600'}`}
+                          title="Pick several dishes to cook in one session"
+                        >
+                          {together.includes(saved.id) ? '✓ Cooking together' : '🍳 Cook together'}
+                        </button>
+                        {list.recipes.some(r => r.sourceId === saved.id) ? (
+                          <span className="text-emerald-600">✓ On list</span>
+                        ) : (
+                          <button onClick={() => addRecipe(saved.recipe, saved.id)} className="hover:text-emerald-600 transition-colors">
+                            🛒 Add to list
+                          </button>
+                        )}
+                        <button onClick={() => handleDelete(saved)} className="hover:text-red-500 transition-colors">
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {together.length > 0 && (
+            <div className="sticky bottom-6 mt-8 mx-auto max-w-xl bg-slate-900 text-white rounded-full shadow-xl px-6 py-3 flex items-center justify-between gap-4 animate-fade-in-up">
+              <span className="text-sm truncate">
+                {together.length === 1 ? 'Pick another dish to cook with it' : `${together.length} dishes, ready at the same time`}
+              </span>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <button onClick={() => setTogether([])} className="text-sm text-slate-400 hover:text-white">
+                  Clear
+                </button>
+                <button
+                  onClick={() => setCookingTogether(true)}
+                  disabled={together.length < 2}
+                  className="px-4 py-1.5 rounded-full bg-indigo-600 hover:bg-indigo-500 text-sm font-bold disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  Start cooking
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {cookingTogether && togetherRecipes.length > 1 && (
+        <MultiDishCookMode recipes={togetherRecipes} onClose={() => setCookingTogether(false)} />
+      )}
+    </div>
+  );
+};
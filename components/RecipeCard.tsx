@@ -1,80 +1,240 @@
-import React, { useState, useEffect } from 'react';
-import { Recipe } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Recipe, RecipeVersion, SavedRecipe } from '../types';
 import { StepList } from './StepList';
+import { StepTimeline } from './StepTimeline';
 import { DishVisualizer } from './DishVisualizer';
 import { CookMode } from './CookMode';
 import { TutorialPlayer } from './TutorialPlayer';
 import { LeftoverSuggestions } from './LeftoverSuggestions';
-import { generateStepVisual } from '../services/geminiService';
+import { RefinePanel } from './RefinePanel';
+import { RecipeExportMenu } from './RecipeExportMenu';
+import { NutritionPanel } from './NutritionPanel';
+import { ErrorNotice } from './ErrorNotice';
+import { generateStepVisual } from '../services/recipeProvider';
+import { saveRecipe, updateSavedRecipe } from '../services/recipeLibraryService';
+import { keepRecipeOffline, OfflineProgress } from '../services/offlineRecipeService';
+import { ServiceError, toServiceError, isAbortError } from '../services/errors';
+import { groupIngredients } from '../utils/ingredients';
+import { formatAmount } from '../utils/quantity';
+import { scaleRecipe, MIN_SERVINGS, MAX_SERVINGS } from '../utils/scaling';
+import { convertAmount } from '../utils/units';
+import { useUnitSystem } from '../context/UnitSystemContext';
+import { UnitSystemToggle } from './UnitSystemToggle';
+import { DietaryWarnings } from './DietaryWarnings';
+import { useDietaryProfile } from '../context/DietaryProfileContext';
+import { checkRecipe, findAllergens } from '../utils/dietary';
+import { useShoppingList } from '../context/ShoppingListContext';
+import { usePantry } from '../context/PantryContext';
+import { useOnlineStatus } from '../context/OnlineStatusContext';
+import { PantryUsage } from '../utils/pantry';
+import { RecipeOverlay } from '../utils/routes';
+import { shareUrlFor } from '../utils/shareLink';
 
 interface RecipeCardProps {
   recipe: Recipe;
+  // Session ID, saved ID or share payload the recipe was opened under
+  recipeId: string;
+  // Set when the recipe was reopened from the recipe box
+  saved?: SavedRecipe | null;
+  // Cook Mode and the tutorial are routes of their own, so Back closes them
+  overlay?: RecipeOverlay;
+  onOverlayChange: (overlay?: RecipeOverlay) => void;
+  // First save into the recipe box, so the URL can point at the saved copy
+  onSaved?: (id: string) => void;
 }
 
-export const RecipeCard: React.FC<RecipeCardProps> = ({ recipe }) => {
-  const [isCookMode, setIsCookMode] = useState(false);
-  const [isTutorialMode, setIsTutorialMode] = useState(false);
-  const [stepImages, setStepImages] = useState<Record<number, string>>({});
+export const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, recipeId, saved, overlay, onOverlayChange, onSaved }) => {
+  const [shareState, setShareState] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const [stepImages, setStepImages] = useState<Record<number, string>>(saved?.stepImages ?? {});
+  const [dishImage, setDishImage] = useState<string | undefined>(saved?.dishImage);
+  const [savedId, setSavedId] = useState<string | null>(saved?.id ?? null);
+  // The version stored in the recipe box, so refinements can be saved over it
+  const [savedVersion, setSavedVersion] = useState<Recipe | null>(saved ? recipe : null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [versions, setVersions] = useState<RecipeVersion[]>([{ recipe }]);
+  const [versionIndex, setVersionIndex] = useState(0);
+  const current = versions[versionIndex].recipe;
+  const [servings, setServings] = useState(recipe.servings);
+  const [stepView, setStepView] = useState<'list' | 'timeline'>('list');
+  const { unitSystem } = useUnitSystem();
+  const { profile } = useDietaryProfile();
+  const { list, addRecipe } = useShoppingList();
+  // Once saved, the recipe box copy is what the list and the box know it by
+  const listSourceId = savedId ?? recipeId;
+  const listed = list.recipes.find(r => r.sourceId === listSourceId);
+  const { markCooked } = usePantry();
+  // What cooking this version took off the pantry; null until marked cooked
+  const [pantryUsage, setPantryUsage] = useState<PantryUsage[] | null>(null);
+  const isCurrentSaved = !!savedId && savedVersion === current;
+  // Yield whose media is pinned for offline use, and progress while fetching it
+  const [offlineServings, setOfflineServings] = useState<number | undefined>(saved?.offlineServings);
+  const [offlineProgress, setOfflineProgress] = useState<OfflineProgress | null>(null);
+  const [offlineError, setOfflineError] = useState<ServiceError | null>(null);
+  const offlineControllerRef = useRef<AbortController | null>(null);
+  const { modelAvailable } = useOnlineStatus();
+  const isKeptOffline = isCurrentSaved && offlineServings === servings;
+
+  useEffect(() => () => offlineControllerRef.current?.abort(), []);
+
+  // Reset yield when a different recipe or version is shown
+  useEffect(() => {
+    setServings(current.servings);
+    setPantryUsage(null);
+  }, [current]);
+
+  // Quantities are recomputed locally; images and leftovers keep using the unscaled recipe
+  const scaledRecipe = useMemo(() => scaleRecipe(current, servings), [current, servings]);
+
+  // The prompt asks the model to respect the profile; this double-checks its output
+  const dietaryWarnings = useMemo(() => checkRecipe(current, profile), [current, profile]);
 
   // Background Image Generation Effect
   useEffect(() => {
-    let isMounted = true;
-
-    const generateAllStepImages = async () => {
-        // We generate images one by one to preserve order and context logic
-        // THROTTLING: Added a significant delay between steps to avoid 429 Rate Limit errors
-        for (let i = 0; i < recipe.steps.length; i++) {
-            if (!isMounted) break;
-            
+    // Cancels everything still queued when the recipe changes or the card unmounts
+    const controller = new AbortController();
+
+    const generateAllStepImages = () => {
+        // Queue every missing step at background priority; the shared scheduler
+        // handles rate limiting and lets Cook Mode / Tutorial jump the queue
+        current.steps.forEach((step, i) => {
             // Check if we already have it
-            if (stepImages[i]) continue;
+            if (existingImages[i]) return;
 
             // Gather context from previous steps
-            const previousInstructions = recipe.steps.slice(0, i).map(s => s.instruction);
-
-            try {
-                const url = await generateStepVisual(recipe.steps[i].instruction, previousInstructions);
-                if (isMounted && url) {
-                    setStepImages(prev => ({ ...prev, [i]: url }));
-                }
-            } catch (e) {
-                console.error(`Failed to generate background visual for step ${i}`, e);
-            }
-
-            // Wait 4 seconds between requests to be nice to the API quota
-            if (isMounted && i < recipe.steps.length - 1) {
-                await new Promise(resolve => setTimeout(resolve, 4000));
-            }
-        }
+            const previousInstructions = current.steps.slice(0, i).map(s => s.instruction);
+
+            generateStepVisual(step.instruction, previousInstructions, { priority: 'background', signal: controller.signal })
+                .then(url => {
+                    if (url) setStepImages(prev => ({ ...prev, [i]: url }));
+                })
+                .catch(e => {
+                    if (isAbortError(e)) return;
+                    console.error(`Failed to generate background visual for step ${i}`, e);
+                    // No point hammering the API with a bad key or an exhausted quota
+                    if (!toServiceError(e).retryable) controller.abort();
+                });
+        });
     };
 
-    // Reset images when recipe changes
-    setStepImages({});
+    // Reset images when the recipe or version changes, keeping any restored from
+    // the recipe box. Refined versions hit the media cache for unchanged steps.
+    const existingImages = current === recipe ? saved?.stepImages ?? {} : {};
+    setStepImages(existingImages);
     
     // Start background generation
-    if (recipe) {
+    if (current) {
         generateAllStepImages();
     }
 
-    return () => { isMounted = false; };
-  }, [recipe]); // Intentionally not including stepImages to avoid loop
+    return () => controller.abort();
+  }, [current]); // Intentionally not including stepImages to avoid loop
+
+  // Images as last written to the recipe box, so opening a saved recipe doesn't
+  // rewrite it (and move it to the top of the recently updated list)
+  const storedImagesRef = useRef<Pick<SavedRecipe, 'dishImage' | 'stepImages'>>({
+    dishImage: saved?.dishImage,
+    stepImages: saved?.stepImages ?? {},
+  });
+
+  // Keep the saved copy up to date as images finish generating
+  useEffect(() => {
+    if (!savedId || !isCurrentSaved) return;
+    const stored = storedImagesRef.current;
+    const stepsChanged = Object.keys(stepImages).length !== Object.keys(stored.stepImages).length
+      || Object.entries(stepImages).some(([i, url]) => stored.stepImages[Number(i)] !== url);
+    if (dishImage === stored.dishImage && !stepsChanged) return;
+    storedImagesRef.current = { dishImage, stepImages };
+    updateSavedRecipe(savedId, { dishImage, stepImages }).catch(e =>
+      console.error("Failed to update saved recipe images", e)
+    );
+  }, [savedId, isCurrentSaved, dishImage, stepImages]);
+
+  const handleSave = async () => {
+    if (isCurrentSaved || isSaving) return;
+    setIsSaving(true);
+    try {
+      if (savedId) {
+        // Saving a refined version replaces the copy in the recipe box; its
+        // offline media belongs to the old version
+        await updateSavedRecipe(savedId, { recipe: current, dishImage, stepImages, offlineServings: undefined });
+        setOfflineServings(undefined);
+      } else {
+        const result = await saveRecipe(current, { dishImage, stepImages });
+        setSavedId(result.id);
+        onSaved?.(result.id);
+      }
+      storedImagesRef.current = { dishImage, stepImages };
+      setSavedVersion(current);
+    } catch (e) {
+      console.error("Failed to save recipe", e);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Narration is fetched for the quantities on screen, so that's the yield that works offline
+  const handleKeepOffline = async () => {
+    if (!savedId || offlineProgress) return;
+    const controller = new AbortController();
+    offlineControllerRef.current = controller;
+    setOfflineError(null);
+    try {
+      await keepRecipeOffline(savedId, scaledRecipe, { signal: controller.signal, onProgress: setOfflineProgress });
+      setOfflineServings(servings);
+    } catch (e) {
+      setOfflineServings(undefined);
+      if (isAbortError(e)) return;
+      console.error("Failed to keep recipe offline", e);
+      setOfflineError(toServiceError(e));
+    } finally {
+      if (offlineControllerRef.current === controller) {
+        offlineControllerRef.current = null;
+        setOfflineProgress(null);
+      }
+    }
+  };
+
+  const handleMarkCooked = () => {
+    if (pantryUsage) return;
+    setPantryUsage(markCooked(scaledRecipe.ingredients));
+  };
+
+  // The link carries the version on screen, at its original yield
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(await shareUrlFor(current));
+      setShareState('copied');
+    } catch (e) {
+      console.error("Failed to copy share link", e);
+      setShareState('failed');
+    }
+    setTimeout(() => setShareState('idle'), 2500);
+  };
+
+  // New versions are appended so earlier branches stay reachable
+  const handleRefined = (refined: Recipe, instruction: string) => {
+    setVersions(prev => [...prev, { recipe: refined, instruction, basedOn: versionIndex }]);
+    setVersionIndex(versions.length);
+  };
 
   return (
     <>
-      {isCookMode && (
+      {overlay === 'cook' && (
         <CookMode 
-            steps={recipe.steps} 
-            recipeTitle={recipe.title} 
-            onClose={() => setIsCookMode(false)}
+            steps={scaledRecipe.steps} 
+            recipeTitle={current.title} 
+            onClose={() => onOverlayChange()}
             preloadedImages={stepImages}
+            ingredients={scaledRecipe.ingredients}
+            onFinish={handleMarkCooked}
         />
       )}
 
-      {isTutorialMode && (
+      {overlay === 'tutorial' && (
         <TutorialPlayer
-            steps={recipe.steps}
-            recipeTitle={recipe.title}
-            onClose={() => setIsTutorialMode(false)}
+            steps={scaledRecipe.steps}
+            recipeTitle={current.title}
+            onClose={() => onOverlayChange()}
             preloadedImages={stepImages}
         />
       )}
@@ -82,30 +242,79 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({ recipe }) => {
       <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-xl overflow-hidden max-w-3xl mx-auto border border-white/50 relative z-10 animate-fade-in-up">
         <div className="p-6 md:p-8">
           <header className="mb-6 text-center relative">
-              <h1 className="text-3xl md:text-5xl font-serif font-bold text-slate-900 mb-3">{recipe.title}</h1>
-              <p className="text-slate-500 italic text-lg">{recipe.description}</p>
+              <h1 className="text-3xl md:text-5xl font-serif font-bold text-slate-900 mb-3">{current.title}</h1>
+              <p className="text-slate-500 italic text-lg">{current.description}</p>
           </header>
 
-          <DishVisualizer title={recipe.title} description={recipe.description} />
+          <DietaryWarnings warnings={dietaryWarnings} />
+
+          <DishVisualizer
+            title={current.title}
+            description={current.description}
+            initialImageUrl={current === recipe ? saved?.dishImage : undefined}
+            onImageReady={setDishImage}
+          />
 
           {/* Action Bar */}
-          <div className="flex justify-center -mt-10 mb-8 relative z-10 gap-3">
+          <div className="flex flex-wrap justify-center -mt-10 mb-8 relative z-10 gap-3">
               <button 
-                onClick={() => setIsCookMode(true)}
+                onClick={() => onOverlayChange('cook')}
                 className="bg-indigo-600 hover:bg-indigo-500 text-white px-6 py-3 rounded-full font-bold shadow-lg shadow-indigo-200 transform hover:-translate-y-1 transition-all flex items-center gap-2 group"
               >
                 <span className="group-hover:animate-bounce">👨‍🍳</span> Cook Mode
               </button>
 
               <button 
-                onClick={() => setIsTutorialMode(true)}
+                onClick={() => onOverlayChange('tutorial')}
                 className="bg-white hover:bg-indigo-50 text-indigo-700 border border-indigo-100 px-6 py-3 rounded-full font-bold shadow-lg shadow-indigo-100 transform hover:-translate-y-1 transition-all flex items-center gap-2 group"
               >
                 <span className="w-6 h-6 rounded-full bg-red-500 text-white flex items-center justify-center text-[10px]">▶</span>
                 Watch Tutorial
               </button>
+
+              <button 
+                onClick={handleSave}
+                disabled={isCurrentSaved || isSaving}
+                className="bg-white hover:bg-amber-50 text-amber-700 border border-amber-100 px-6 py-3 rounded-full font-bold shadow-lg shadow-amber-100 transform hover:-translate-y-1 transition-all flex items-center gap-2 disabled:hover:translate-y-0 disabled:cursor-default"
+              >
+                <span>{isCurrentSaved ? '✓' : '📖'}</span>
+                {isCurrentSaved ? 'Saved' : isSaving ? 'Saving...' : savedId ? 'Save Changes' : 'Save'}
+              </button>
+
+              {isCurrentSaved && (
+                <button
+                  onClick={handleKeepOffline}
+                  disabled={isKeptOffline || !!offlineProgress || !modelAvailable}
+                  className="bg-white hover:bg-emerald-50 text-emerald-700 border border-emerald-100 px-6 py-3 rounded-full font-bold shadow-lg shadow-emerald-100 transform hover:-translate-y-1 transition-all flex items-center gap-2 disabled:hover:translate-y-0 disabled:cursor-default"
+                  title={isKeptOffline
+                    ? `Cook Mode and the tutorial work without a connection at ${servings} servings`
+                    : modelAvailable ? 'Download step pictures and narration for cooking without a connection' : 'Needs a connection'}
+                >
+                  <span>{isKeptOffline ? '✓' : '📥'}</span>
+                  {offlineProgress
+                    ? `Downloading ${offlineProgress.done}/${offlineProgress.total}`
+                    : isKeptOffline ? 'Available offline' : offlineServings !== undefined ? `Keep offline for ${servings}` : 'Keep offline'}
+                </button>
+              )}
+
+              <button
+                onClick={handleShare}
+                className="bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-6 py-3 rounded-full font-bold shadow-lg shadow-slate-100 transform hover:-translate-y-1 transition-all flex items-center gap-2"
+                title="Copy a link that opens this recipe on any device"
+              >
+                <span>{shareState === 'copied' ? '✓' : '🔗'}</span>
+                {shareState === 'copied' ? 'Link copied' : shareState === 'failed' ? "Couldn't copy" : 'Share'}
+              </button>
+
+              <RecipeExportMenu recipe={scaledRecipe} dishImage={dishImage} />
           </div>
 
+          {offlineError && (
+            <div className="-mt-4 mb-8">
+              <ErrorNotice error={offlineError} onRetry={handleKeepOffline} />
+            </div>
+          )}
+
           <div className="grid md:grid-cols-3 gap-8 mt-8">
             {/* Ingredients Column */}
             <div className="md:col-span-1">
@@ -113,25 +322,125 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({ recipe }) => {
                 <h3 className="text-lg font-serif font-bold text-orange-900 mb-4 flex items-center gap-2 border-b border-orange-200 pb-2">
                   <span>🥕</span> Ingredients
                 </h3>
-                <ul className="space-y-3">
-                  {recipe.ingredients.map((item, idx) => (
-                    <li key={idx} className="text-slate-700 text-sm flex items-start gap-3">
-                      <span className="mt-1.5 w-2 h-2 rounded-full bg-orange-400 flex-shrink-0 shadow-sm"></span>
-                      <span className="leading-snug font-medium">{item}</span>
-                    </li>
-                  ))}
-                </ul>
+                <div className="flex items-center justify-between mb-4 text-sm">
+                  <span className="text-orange-900 font-semibold">Serves</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setServings(s => Math.max(MIN_SERVINGS, s - 1))}
+                      disabled={servings <= MIN_SERVINGS}
+                      className="w-7 h-7 rounded-full bg-white border border-orange-200 text-orange-700 font-bold hover:bg-orange-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                      aria-label="Fewer servings"
+                    >
+                      −
+                    </button>
+                    <span className="w-6 text-center font-bold text-orange-900">{servings}</span>
+                    <button
+                      onClick={() => setServings(s => Math.min(MAX_SERVINGS, s + 1))}
+                      disabled={servings >= MAX_SERVINGS}
+                      className="w-7 h-7 rounded-full bg-white border border-orange-200 text-orange-700 font-bold hover:bg-orange-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                      aria-label="More servings"
+                    >
+                      +
+                    </button>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between mb-4 text-sm">
+                  <span className="text-orange-900 font-semibold">Units</span>
+                  <UnitSystemToggle />
+                </div>
+                {servings !== current.servings && (
+                  <button
+                    onClick={() => setServings(current.servings)}
+                    className="mb-4 text-xs text-orange-700 hover:underline"
+                  >
+                    Scaled from {current.servings} servings · reset
+                  </button>
+                )}
+                {groupIngredients(scaledRecipe.ingredients).map(({ group, items }) => (
+                  <div key={group ?? ''} className="mb-4 last:mb-0">
+                    {group && (
+                      <h4 className="text-xs font-bold uppercase tracking-wider text-orange-700 mb-2">{group}</h4>
+                    )}
+                    <ul className="space-y-3">
+                      {items.map((item, idx) => (
+                        <li key={idx} className="text-slate-700 text-sm flex items-start gap-3">
+                          {findAllergens(item.name, profile.allergens).length > 0
+                            ? <span className="flex-shrink-0 text-xs" title="Contains one of your allergens">⚠️</span>
+                            : <span className="mt-1.5 w-2 h-2 rounded-full bg-orange-400 flex-shrink-0 shadow-sm"></span>}
+                          <span className="leading-snug font-medium">
+                            {item.quantity !== undefined && (
+                              <span className="font-bold text-orange-900">{formatAmount(convertAmount(item, unitSystem, item.name))} </span>
+                            )}
+                            {item.name}
+                            {item.preparation && <span className="text-slate-500 font-normal">, {item.preparation}</span>}
+                            {item.optional && <span className="ml-1 text-[10px] uppercase tracking-wider text-slate-400">optional</span>}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+                <button
+                  onClick={() => addRecipe(scaledRecipe, listSourceId)}
+                  disabled={listed?.servings === servings}
+                  className="mt-6 w-full px-4 py-2 rounded-full bg-white border border-orange-200 text-orange-800 text-sm font-bold hover:bg-orange-100 disabled:hover:bg-white disabled:cursor-default transition-colors"
+                >
+                  {!listed ? '🛒 Add to shopping list' : listed.servings === servings ? '✓ On your shopping list' : `🛒 Update list to serve ${servings}`}
+                </button>
+                <button
+                  onClick={handleMarkCooked}
+                  disabled={!!pantryUsage}
+                  className="mt-2 w-full px-4 py-2 rounded-full bg-white border border-orange-200 text-orange-800 text-sm font-bold hover:bg-orange-100 disabled:hover:bg-white disabled:cursor-default transition-colors"
+                >
+                  {pantryUsage ? '✓ Cooked' : '🍽️ Mark as cooked'}
+                </button>
+                {pantryUsage && (
+                  <p className="mt-2 text-xs text-orange-900/70 text-center">
+                    {pantryUsage.length === 0
+                      ? 'None of these ingredients are tracked in your pantry.'
+                      : `Pantry updated: ${pantryUsage.map(u => u.usedUp ? `used up ${u.name}` : `${u.used} ${u.name}`).join(', ')}.`}
+                  </p>
+                )}
               </div>
             </div>
 
             {/* Steps Column */}
             <div className="md:col-span-2">
-              <StepList steps={recipe.steps} />
+              <div className="flex justify-end mb-2">
+                <div className="inline-flex rounded-full bg-slate-100 p-1 text-xs font-bold">
+                  {(['list', 'timeline'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setStepView(mode)}
+                      aria-pressed={stepView === mode}
+                      className={`px-3 py-1 rounded-full transition-colors ${stepView === mode ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                      {mode === 'list' ? '📋 Steps' : '📊 Timeline'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {stepView === 'timeline'
+                ? <StepTimeline steps={scaledRecipe.steps} />
+                : <StepList steps={scaledRecipe.steps} recipeTitle={current.title} />}
             </div>
           </div>
 
+          <div className="mt-12 max-w-xl">
+            <NutritionPanel recipe={current} />
+          </div>
+
+          <div className="mt-12">
+            <RefinePanel
+              versions={versions}
+              currentIndex={versionIndex}
+              onSelectVersion={setVersionIndex}
+              onRefined={handleRefined}
+            />
+          </div>
+
           <div className="mt-12 pt-8 border-t border-slate-200">
-             <LeftoverSuggestions ingredients={recipe.ingredients} recipeTitle={recipe.title} />
+             <LeftoverSuggestions ingredients={current.ingredients} recipeTitle={current.title} />
           </div>
         </div>
       </div>
@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Recipe } from '../types';
+import { PrintableRecipe } from './PrintableRecipe';
+import { ErrorNotice } from './ErrorNotice';
+import { useUnitSystem } from '../context/UnitSystemContext';
+import { downloadBlob, downloadText } from '../utils/download';
+import { recipeFileName, recipeToJsonLd, recipeToMarkdown } from '../utils/recipeExport';
+import {
+  SkippedMedia,
+  TutorialExportProgress,
+  canRecordTutorialVideo,
+  exportTutorialPackage,
+  exportTutorialVideo,
+} from '../services/tutorialExportService';
+import { ServiceError, isAbortError, toServiceError } from '../services/errors';
+
+type TutorialFormat = 'video' | 'package';
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const describeSkipped = (skipped: SkippedMedia[]): string => {
+  const pictures = skipped.filter(s => s.kind === 'picture').length;
+  const narrations = skipped.length - pictures;
+  const what = [pictures && plural(pictures, 'step picture'), narrations && plural(narrations, 'narration')]
+    .filter(Boolean)
+    .join(' and ');
+  const steps = [...new Set(skipped.map(s => s.step + 1))];
+  return `${what} couldn't be made and ${skipped.length === 1 ? 'was' : 'were'} left out `
+    + `(${steps.length === 1 ? 'step' : 'steps'} ${steps.join(', ')}).`;
+};
+
+interface RecipeExportMenuProps {
+  // Already scaled to the yield on screen
+  recipe: Recipe;
+  dishImage?: string;
+}
+
+export const RecipeExportMenu: React.FC<RecipeExportMenuProps> = ({ recipe, dishImage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [printing, setPrinting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const { unitSystem } = useUnitSystem();
+  const [tutorialExport, setTutorialExport] = useState<{ format: TutorialFormat; progress: TutorialExportProgress | null } | null>(null);
+  const [tutorialError, setTutorialError] = useState<{ format: TutorialFormat; error: ServiceError } | null>(null);
+  const [skippedMedia, setSkippedMedia] = useState<SkippedMedia[]>([]);
+  const tutorialControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => tutorialControllerRef.current?.abort(), []);
+
+  const handleCopyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(recipeToMarkdown(recipe, unitSystem));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy recipe", e);
+    }
+  };
+
+  const handleDownloadMarkdown = () => {
+    downloadText(recipeFileName(recipe, 'md'), recipeToMarkdown(recipe, unitSystem), 'text/markdown');
+    setIsOpen(false);
+  };
+
+  const handleDownloadJsonLd = () => {
+    const jsonLd = JSON.stringify(recipeToJsonLd(recipe, unitSystem, dishImage), null, 2);
+    downloadText(recipeFileName(recipe, 'jsonld'), jsonLd, 'application/ld+json');
+    setIsOpen(false);
+  };
+
+  // Fetches any step pictures and narration not yet cached, then builds the
+  // file; the video records in real time
+  const handleExportTutorial = async (format: TutorialFormat) => {
+    setIsOpen(false);
+    tutorialControllerRef.current?.abort();
+    const controller = new AbortController();
+    tutorialControllerRef.current = controller;
+    setTutorialError(null);
+    setSkippedMedia([]);
+    setTutorialExport({ format, progress: null });
+    const options = {
+      signal: controller.signal,
+      onProgress: (progress: TutorialExportProgress) => setTutorialExport({ format, progress }),
+    };
+    try {
+      const { file, skipped } = format === 'video'
+        ? await exportTutorialVideo(recipe, unitSystem, options)
+        : await exportTutorialPackage(recipe, unitSystem, options);
+      downloadBlob(recipeFileName(recipe, format === 'video' ? 'webm' : 'zip'), file);
+      setSkippedMedia(skipped);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setTutorialError({ format, error: toServiceError(e) });
+    } finally {
+      if (tutorialControllerRef.current === controller) {
+        tutorialControllerRef.current = null;
+        setTutorialExport(null);
+      }
+    }
+  };
+
+  const progress = tutorialExport?.progress;
+  const progressLabel = !progress
+    ? 'Preparing…'
+    : progress.stage === 'media'
+      ? `Gathering pictures and narration ${progress.done}/${progress.total}`
+      : `Recording ${Math.round(progress.done)}s of ${Math.round(progress.total)}s`;
+
+  // The print copy only exists while the print dialog is up. The listener goes
+  // in first because print() can block until the dialog closes.
+  const handlePrint = () => {
+    setIsOpen(false);
+    window.addEventListener('afterprint', () => setPrinting(false), { once: true });
+    setPrinting(true);
+  };
+
+  const optionClass = "w-full text-left px-3 py-2 rounded-lg hover:bg-slate-100 transition-colors";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => { setIsOpen(open => !open); setTutorialError(null); setSkippedMedia([]); }}
+        className="bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-6 py-3 rounded-full font-bold shadow-lg shadow-slate-100 transform hover:-translate-y-1 transition-all flex items-center gap-2"
+        aria-expanded={isOpen}
+      >
+        <span>⬇️</span> Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-20 top-full right-0 mt-2 w-60 bg-white rounded-xl border border-slate-200 shadow-xl p-2 text-sm text-slate-700 animate-fade-in">
+          <button onClick={handleCopyMarkdown} className={optionClass}>
+            {copied ? '✓ Copied' : '📋 Copy as Markdown'}
+          </button>
+          <button onClick={handleDownloadMarkdown} className={optionClass}>
+            📝 Download Markdown
+          </button>
+          <button onClick={handleDownloadJsonLd} className={optionClass} title="Schema.org Recipe, readable by recipe managers">
+            🧾 Download JSON-LD
+          </button>
+          <button onClick={handlePrint} className={optionClass} title="Use your browser's Save as PDF to get a PDF">
+            🖨️ Print or save as PDF
+          </button>
+          <div className="border-t border-slate-100 my-1" />
+          <button
+            onClick={() => handleExportTutorial('video')}
+            disabled={!!tutorialExport || !canRecordTutorialVideo()}
+            className={`${optionClass} disabled:opacity-40 disabled:hover:bg-transparent disabled:cursor-not-allowed`}
+            title={canRecordTutorialVideo()
+              ? 'Pictures, narration and subtitles as a WebM video; recording takes as long as the tutorial'
+              : "This browser can't record video; try the slideshow package"}
+          >
+            🎬 Tutorial video (WebM)
+          </button>
+          <button
+            onClick={() => handleExportTutorial('package')}
+            disabled={!!tutorialExport}
+            className={`${optionClass} disabled:opacity-40 disabled:hover:bg-transparent disabled:cursor-not-allowed`}
+            title="Step pictures, narration and SRT/WebVTT subtitles in a zip"
+          >
+            🗂️ Tutorial slideshow (zip)
+          </button>
+        </div>
+      )}
+
+      {tutorialExport && (
+        <div className="absolute z-20 top-full right-0 mt-2 w-72 bg-white rounded-xl border border-slate-200 shadow-xl p-4 text-sm text-slate-700 animate-fade-in">
+          <div className="font-bold mb-1">{tutorialExport.format === 'video' ? '🎬 Exporting video' : '🗂️ Packaging slideshow'}</div>
+          <p className="text-xs text-slate-500 mb-3">
+            {progressLabel}
+            {progress?.stage === 'render' && ' · keep this tab open'}
+          </p>
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden mb-3">
+            <div
+              className="h-full bg-indigo-500 transition-all"
+              style={{ width: `${progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <button onClick={() => tutorialControllerRef.current?.abort()} className="text-xs font-bold text-slate-500 hover:text-red-600">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {tutorialError && !tutorialExport && (
+        <div className="absolute z-20 top-full right-0 mt-2 w-80 animate-fade-in">
+          <ErrorNotice error={tutorialError.error} onRetry={() => handleExportTutorial(tutorialError.format)} compact />
+        </div>
+      )}
+
+      {skippedMedia.length > 0 && !tutorialExport && (
+        <div className="absolute z-20 top-full right-0 mt-2 w-80 bg-amber-50 border border-amber-200 rounded-xl shadow-xl p-3 text-xs text-amber-800 animate-fade-in flex items-start gap-2">
+          <span className="flex-1">{describeSkipped(skippedMedia)}</span>
+          <button onClick={() => setSkippedMedia([])} className="font-bold text-amber-600 hover:text-amber-900" aria-label="Dismiss">✕</button>
+        </div>
+      )}
+
+      {printing && (
+        <PrintableRecipe recipe={recipe} system={unitSystem} image={dishImage} onReady={() => window.print()} />
+      )}
+    </div>
+  );
+};
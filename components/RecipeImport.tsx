@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Recipe, RecipeDraft } from '../types';
+import { structureRecipe } from '../services/recipeProvider';
+import { ServiceError, isAbortError, toServiceError } from '../services/errors';
+import { RecipeValidationError } from '../utils/recipeValidation';
+import { IMPORT_FORMAT_LABELS, detectImportFormat, importRecipeText } from '../utils/recipeImport';
+import { ErrorNotice } from './ErrorNotice';
+import { RecipePreview } from './RecipePreview';
+import { useOnlineStatus } from '../context/OnlineStatusContext';
+
+interface RecipeImportProps {
+  onImported: (recipe: Recipe) => void;
+}
+
+const FILE_TYPES = '.txt,.md,.markdown,.json,.jsonld,.html,.htm';
+
+export const RecipeImport: React.FC<RecipeImportProps> = ({ onImported }) => {
+  const [text, setText] = useState('');
+  // What the local importer couldn't find; the model pass is offered instead
+  const [problems, setProblems] = useState<string[] | null>(null);
+  // Only a failed model pass is worth retrying; the local importer gives the same result again
+  const [failure, setFailure] = useState<{ error: ServiceError; retry?: () => void } | null>(null);
+  const [structuring, setStructuring] = useState(false);
+  const [draft, setDraft] = useState<RecipeDraft | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const { modelAvailable } = useOnlineStatus();
+  const format = text.trim() ? detectImportFormat(text) : null;
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    setProblems(null);
+    setFailure(null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      handleTextChange(await file.text());
+    } catch (err) {
+      console.error("Failed to read recipe file", err);
+    }
+  };
+
+  const handleImport = () => {
+    setFailure(null);
+    try {
+      onImported(importRecipeText(text).recipe);
+    } catch (err) {
+      if (err instanceof RecipeValidationError) {
+        setProblems(err.errors);
+        return;
+      }
+      console.error("Failed to import recipe", err);
+      setFailure({ error: toServiceError(err) });
+    }
+  };
+
+  const handleStructure = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setStructuring(true);
+    setProblems(null);
+    setFailure(null);
+    setDraft(null);
+    try {
+      onImported(await structureRecipe(text, { signal: controller.signal, onProgress: setDraft }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error(err);
+      setFailure({ error: toServiceError(err), retry: handleStructure });
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setStructuring(false);
+        setDraft(null);
+      }
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto animate-fade-in-up">
+      <h2 className="text-3xl font-serif font-bold text-slate-900 mb-2 flex items-center gap-3">
+        <span>📥</span> Import a Recipe
+      </h2>
+      <p className="text-slate-500 mb-6">
+        Paste a recipe as plain text or Markdown, or the JSON-LD from a recipe site (a saved web page works too).
+        Imported recipes work with Cook Mode, tutorials, step pictures and everything else.
+      </p>
+
+      <textarea
+        value={text}
+        onChange={e => handleTextChange(e.target.value)}
+        rows={14}
+        placeholder={"Grandma's Pancakes\nServes 4\n\nIngredients\n- 1 cup flour\n- 2 eggs\n\nMethod\n1. Whisk the flour and eggs..."}
+        className="w-full px-5 py-4 rounded-2xl bg-white border border-slate-200 shadow-sm font-mono text-sm focus:border-indigo-400 focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all"
+        disabled={structuring}
+        aria-label="Recipe to import"
+      />
+
+      <div className="flex flex-wrap items-center gap-3 mt-3 text-sm">
+        <label className="px-4 py-2 rounded-full bg-white border border-slate-200 text-slate-700 font-bold hover:border-indigo-300 cursor-pointer transition-colors">
+          Open file…
+          <input type="file" accept={FILE_TYPES} onChange={handleFile} className="hidden" />
+        </label>
+        {format && <span className="text-slate-400">Looks like {IMPORT_FORMAT_LABELS[format]}</span>}
+        <div className="flex-1" />
+        {structuring ? (
+          <button
+            onClick={() => controllerRef.current?.abort()}
+            className="px-5 py-2 rounded-full bg-slate-600 text-white font-bold hover:bg-red-500 transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={handleStructure}
+              disabled={!text.trim() || !modelAvailable}
+              className="px-5 py-2 rounded-full bg-white border border-indigo-200 text-indigo-700 font-bold hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title={modelAvailable ? 'Let the model tidy up steps, tips and ingredient tags' : 'Needs a connection'}
+            >
+              ✨ Import with AI
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!text.trim()}
+              className="px-6 py-2 rounded-full bg-indigo-600 text-white font-bold hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Import
+            </button>
+          </>
+        )}
+      </div>
+
+      {problems && (
+        <div className="mt-6 bg-amber-50 border-l-4 border-amber-400 text-amber-900 p-4 rounded-md">
+          <p className="font-bold mb-1">We couldn't make out a recipe</p>
+          <ul className="text-sm list-disc pl-5 mb-3">
+            {problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+          <p className="text-sm">
+            Headings like "Ingredients" and "Method" help, or{' '}
+            <button onClick={handleStructure} className="font-bold underline hover:text-amber-700">
+              try importing with AI
+            </button>.
+          </p>
+        </div>
+      )}
+
+      {failure && <div className="mt-6"><ErrorNotice error={failure.error} onRetry={failure.retry} /></div>}
+
+      {structuring && draft?.title && <div className="mt-8"><RecipePreview draft={draft} /></div>}
+    </div>
+  );
+};
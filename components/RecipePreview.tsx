@@ -0,0 +1,77 @@
+import React from 'react';
+import { RecipeDraft } from '../types';
+import { StepList } from './StepList';
+import { formatAmount } from '../utils/quantity';
+import { convertAmount } from '../utils/units';
+import { useUnitSystem } from '../context/UnitSystemContext';
+
+interface RecipePreviewProps {
+  draft: RecipeDraft;
+}
+
+const Placeholder: React.FC<{ lines: number }> = ({ lines }) => (
+  <div className="space-y-3 animate-pulse">
+    {Array.from({ length: lines }, (_, i) => (
+      <div key={i} className="h-3 bg-slate-200/80 rounded" style={{ width: `${90 - (i % 3) * 15}%` }}></div>
+    ))}
+  </div>
+);
+
+// Read-only view of a recipe while it streams in. Images, scaling and cook
+// mode wait for the finished recipe in RecipeCard.
+export const RecipePreview: React.FC<RecipePreviewProps> = ({ draft }) => {
+  const { unitSystem } = useUnitSystem();
+  const ingredients = draft.ingredients ?? [];
+  const steps = draft.steps ?? [];
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-xl overflow-hidden max-w-3xl mx-auto border border-white/50 relative z-10 animate-fade-in">
+      <div className="p-6 md:p-8">
+        <header className="mb-6 text-center">
+          <h1 className="text-3xl md:text-5xl font-serif font-bold text-slate-900 mb-3">{draft.title}</h1>
+          {draft.description
+            ? <p className="text-slate-500 italic text-lg">{draft.description}</p>
+            : <div className="max-w-md mx-auto"><Placeholder lines={1} /></div>}
+          <p className="mt-4 text-xs font-bold uppercase tracking-widest text-indigo-500 animate-pulse">Writing the recipe...</p>
+        </header>
+
+        <div className="grid md:grid-cols-3 gap-8 mt-8">
+          <div className="md:col-span-1">
+            <div className="bg-orange-50/80 p-6 rounded-2xl border border-orange-100 shadow-sm">
+              <h3 className="text-lg font-serif font-bold text-orange-900 mb-4 flex items-center gap-2 border-b border-orange-200 pb-2">
+                <span>🥕</span> Ingredients
+              </h3>
+              {ingredients.length === 0 ? <Placeholder lines={5} /> : (
+                <ul className="space-y-3">
+                  {ingredients.map((item, idx) => (
+                    <li key={idx} className="text-slate-700 text-sm flex items-start gap-3 animate-fade-in">
+                      <span className="mt-1.5 w-2 h-2 rounded-full bg-orange-400 flex-shrink-0 shadow-sm"></span>
+                      <span className="leading-snug font-medium">
+                        {item.quantity !== undefined && (
+                          <span className="font-bold text-orange-900">{formatAmount(convertAmount(item, unitSystem, item.name))} </span>
+                        )}
+                        {item.name}
+                        {item.preparation && <span className="text-slate-500 font-normal">, {item.preparation}</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <div className="md:col-span-2">
+            {steps.length === 0 ? (
+              <>
+                <h3 className="text-xl font-serif font-bold text-slate-800 mb-4 border-b pb-2">Instructions</h3>
+                <Placeholder lines={6} />
+              </>
+            ) : (
+              <StepList steps={steps} />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
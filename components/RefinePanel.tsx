@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Recipe, RecipeVersion } from '../types';
+import { refineRecipe } from '../services/recipeProvider';
+import { ServiceError, toServiceError, isAbortError } from '../services/errors';
+import { diffRecipes, ChangeStatus } from '../utils/recipeDiff';
+import { formatIngredient, stripIngredientMarkup } from '../utils/ingredients';
+import { ErrorNotice } from './ErrorNotice';
+import { useDietaryProfile } from '../context/DietaryProfileContext';
+import { useNutritionTargets } from '../context/NutritionTargetsContext';
+import { useOnlineStatus } from '../context/OnlineStatusContext';
+
+interface RefinePanelProps {
+  versions: RecipeVersion[];
+  currentIndex: number;
+  onSelectVersion: (index: number) => void;
+  onRefined: (recipe: Recipe, instruction: string) => void;
+}
+
+const SUGGESTIONS = ['Make it vegan', 'No oven', 'Make it spicier', 'Fewer dishes to wash'];
+
+const CHANGE_STYLES: Record<ChangeStatus, string> = {
+  added: 'bg-emerald-50 text-emerald-800 border-emerald-200',
+  removed: 'bg-red-50 text-red-700 border-red-200 line-through',
+  changed: 'bg-amber-50 text-amber-800 border-amber-200',
+  unchanged: '',
+};
+
+const CHANGE_MARKS: Record<ChangeStatus, string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+  unchanged: '',
+};
+
+export const RefinePanel: React.FC<RefinePanelProps> = ({ versions, currentIndex, onSelectVersion, onRefined }) => {
+  const [instruction, setInstruction] = useState('');
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<ServiceError | null>(null);
+  const [lastRequest, setLastRequest] = useState('');
+  const controllerRef = useRef<AbortController | null>(null);
+  const { profile } = useDietaryProfile();
+  const { targets } = useNutritionTargets();
+  const { modelAvailable } = useOnlineStatus();
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const current = versions[currentIndex];
+  const base = current.basedOn !== undefined ? versions[current.basedOn] : null;
+  const diff = useMemo(
+    () => (base ? diffRecipes(base.recipe, current.recipe) : null),
+    [base, current]
+  );
+
+  const submit = async (text: string) => {
+    const request = text.trim();
+    if (!request || pending) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setPending(request);
+    setLastRequest(request);
+    setError(null);
+
+    try {
+      const refined = await refineRecipe(current.recipe, request, { signal: controller.signal, profile, targets });
+      setInstruction('');
+      onRefined(refined, request);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Failed to refine recipe", e);
+      setError(toServiceError(e));
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setPending(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(instruction);
+  };
+
+  const changedIngredients = diff?.ingredients.filter(c => c.status !== 'unchanged') ?? [];
+  const changedSteps = diff?.steps.filter(c => c.status !== 'unchanged') ?? [];
+
+  return (
+    <div className="bg-indigo-50/60 p-6 rounded-2xl border border-indigo-100">
+      <div className="flex items-center justify-between mb-4 gap-4">
+        <h3 className="text-xl font-serif font-bold text-indigo-900 flex items-center gap-2">
+          <span>💬</span> Tweak this recipe
+        </h3>
+        {versions.length > 1 && (
+          <div className="flex items-center gap-2 text-sm text-indigo-800">
+            <button
+              onClick={() => onSelectVersion(currentIndex - 1)}
+              disabled={currentIndex === 0 || !!pending}
+              className="w-7 h-7 rounded-full bg-white border border-indigo-200 font-bold hover:bg-indigo-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              aria-label="Previous version"
+            >
+              ‹
+            </button>
+            <span className="font-semibold whitespace-nowrap">Version {currentIndex + 1} of {versions.length}</span>
+            <button
+              onClick={() => onSelectVersion(currentIndex + 1)}
+              disabled={currentIndex === versions.length - 1 || !!pending}
+              className="w-7 h-7 rounded-full bg-white border border-indigo-200 font-bold hover:bg-indigo-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              aria-label="Next version"
+            >
+              ›
+            </button>
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={e => setInstruction(e.target.value)}
+          placeholder="e.g. 'make it vegan' or 'I don't have an oven'"
+          className="flex-1 px-4 py-2 rounded-full border border-indigo-200 bg-white text-slate-800 focus:border-indigo-400 focus:ring-2 focus:ring-indigo-200 outline-none"
+          disabled={!!pending}
+        />
+        {pending ? (
+          <button
+            type="button"
+            onClick={() => controllerRef.current?.abort()}
+            className="px-5 py-2 rounded-full font-bold bg-slate-600 text-white hover:bg-red-500 transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!instruction.trim() || !modelAvailable}
+            title={modelAvailable ? undefined : 'Needs a connection'}
+            className="px-5 py-2 rounded-full font-bold bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Refine
+          </button>
+        )}
+      </form>
+
+      {!pending && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {SUGGESTIONS.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => submit(suggestion)}
+              className="text-xs bg-white border border-indigo-100 text-indigo-700 px-3 py-1 rounded-full hover:border-indigo-300 transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {pending && (
+        <p className="mt-4 text-sm text-indigo-600 animate-pulse">Reworking the recipe: "{pending}"...</p>
+      )}
+
+      {error && !pending && (
+        <div className="mt-4">
+          <ErrorNotice error={error} onRetry={() => submit(lastRequest)} />
+        </div>
+      )}
+
+      {diff && current.instruction && (
+        <div className="mt-6 pt-4 border-t border-indigo-100 text-sm">
+          <p className="text-indigo-900 mb-3">
+            <span className="font-semibold">Changes for</span> "{current.instruction}"
+            {base && <span className="text-indigo-500"> (from version {current.basedOn! + 1})</span>}
+          </p>
+
+          {!diff.hasChanges && <p className="text-slate-500 italic">Nothing changed.</p>}
+
+          {diff.titleChanged && base && (
+            <p className="mb-3 text-slate-700">
+              <span className="line-through text-slate-400">{base.recipe.title}</span> → <span className="font-semibold">{current.recipe.title}</span>
+            </p>
+          )}
+
+          {diff.descriptionChanged && (
+            <p className="mb-3 text-slate-600 italic">{current.recipe.description}</p>
+          )}
+
+          {changedIngredients.length > 0 && (
+            <ul className="space-y-1 mb-4">
+              {changedIngredients.map((change, idx) => (
+                <li key={idx} className={`px-3 py-1 rounded border ${CHANGE_STYLES[change.status]}`}>
+                  <span className="font-mono mr-2">{CHANGE_MARKS[change.status]}</span>
+                  {change.status === 'changed'
+                    ? <>{formatIngredient(change.before!)} → {formatIngredient(change.after!)}</>
+                    : formatIngredient((change.after ?? change.before)!)}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {changedSteps.length > 0 && (
+            <ul className="space-y-1">
+              {changedSteps.map((change, idx) => (
+                <li key={idx} className={`px-3 py-1 rounded border ${CHANGE_STYLES[change.status]}`}>
+                  <span className="font-mono mr-2">{CHANGE_MARKS[change.status]}</span>
+                  {stripIngredientMarkup(change.step.instruction)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,6 @@
 import React, { useState } from 'react';
+import { useUnitSystem } from '../context/UnitSystemContext';
+import { convertQuantityText } from '../utils/units';
 
 interface RichInstructionProps {
   text: string;
@@ -7,6 +9,8 @@ interface RichInstructionProps {
 
 const IngredientTooltip: React.FC<{ name: string; quantity: string }> = ({ name, quantity }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const { unitSystem } = useUnitSystem();
+  const converted = convertQuantityText(quantity, unitSystem, name);
 
   return (
     <span 
@@ -22,7 +26,8 @@ const IngredientTooltip: React.FC<{ name: string; quantity: string }> = ({ name,
 
       {/* The Tooltip */}
       <span className={`absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-3 py-1.5 bg-slate-900 text-white text-xs font-bold rounded-lg shadow-xl whitespace-nowrap z-50 transition-all duration-200 ${isOpen ? 'opacity-100 transform translate-y-0' : 'opacity-0 transform translate-y-2 pointer-events-none'}`}>
-        {quantity}
+        {converted}
+        {converted !== quantity && <span className="ml-1 font-normal opacity-60">({quantity})</span>}
         {/* Little arrow pointing down */}
         <span className="absolute top-full left-1/2 -translate-x-1/2 -mt-1 border-4 border-transparent border-t-slate-900"></span>
       </span>
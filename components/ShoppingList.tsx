@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { useShoppingList } from '../context/ShoppingListContext';
+import { useUnitSystem } from '../context/UnitSystemContext';
+import { usePantry } from '../context/PantryContext';
+import { UnitSystemToggle } from './UnitSystemToggle';
+import { AISLE_LABELS, ShoppingItem, ShoppingListFormat, buildShoppingList, exportShoppingList, groupByAisle, shoppingItemKey } from '../utils/shoppingList';
+import { formatAmount } from '../utils/quantity';
+import { downloadText } from '../utils/download';
+
+const ItemRow: React.FC<{
+  item: ShoppingItem;
+  checked: boolean;
+  showRecipes: boolean;
+  // Omitted for pantry items, which aren't being bought
+  onToggle?: () => void;
+  onPantry: () => void;
+  pantryLabel: string;
+}> = ({ item, checked, showRecipes, onToggle, onPantry, pantryLabel }) => (
+  <li className="flex items-start gap-3 py-3">
+    {onToggle ? (
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={onToggle}
+        className="mt-1 w-5 h-5 accent-emerald-600 cursor-pointer flex-shrink-0"
+        aria-label={`Got ${item.name}`}
+      />
+    ) : (
+      <span className="mt-1 w-5 h-5 flex-shrink-0 text-center text-xs">🏠</span>
+    )}
+    <div className={`flex-1 min-w-0 text-sm ${checked ? 'line-through text-slate-400' : 'text-slate-700'}`}>
+      <p className="font-medium">
+        {item.amounts.length > 0 && (
+          <span className={`font-bold ${checked ? '' : 'text-emerald-900'}`}>{item.amounts.map(formatAmount).join(' + ')} </span>
+        )}
+        {item.name}
+        {item.optional && <span className="ml-1 text-[10px] uppercase tracking-wider text-slate-400">optional</span>}
+      </p>
+      {showRecipes && <p className="text-xs text-slate-400 truncate">{item.recipes.join(' · ')}</p>}
+    </div>
+    <button onClick={onPantry} className="text-xs font-bold text-slate-400 hover:text-indigo-600 whitespace-nowrap">
+      {pantryLabel}
+    </button>
+  </li>
+);
+
+export const ShoppingList: React.FC = () => {
+  const { list, removeRecipe, toggleChecked, clearChecked, clearList } = useShoppingList();
+  const { items: pantryItems, addItems, removeItems } = usePantry();
+  const { unitSystem } = useUnitSystem();
+  const [copied, setCopied] = useState(false);
+
+  const items = useMemo(() => buildShoppingList(list.recipes, unitSystem), [list.recipes, unitSystem]);
+  // Anything in the pantry counts as at home, whatever amount is tracked
+  const pantry = useMemo(() => new Set(pantryItems.map(item => shoppingItemKey(item.name))), [pantryItems]);
+  const checked = new Set(list.checked);
+  const toBuy = items.filter(item => !pantry.has(item.key));
+  const atHome = items.filter(item => pantry.has(item.key));
+  const remaining = toBuy.filter(item => !checked.has(item.key)).length;
+  const showRecipes = list.recipes.length > 1;
+
+  const exportAs = (format: ShoppingListFormat) => exportShoppingList(list, items, format, pantry);
+
+  const togglePantry = (item: ShoppingItem) => {
+    if (pantry.has(item.key)) {
+      removeItems(pantryItems.filter(p => shoppingItemKey(p.name) === item.key).map(p => p.id));
+    } else {
+      addItems([{ name: item.name }]);
+    }
+  };
+
+  // Bought items go into the pantry with the amounts on the list
+  const handlePutAway = () => {
+    const bought = toBuy.filter(item => checked.has(item.key));
+    addItems(bought.flatMap(item =>
+      item.amounts.length > 0
+        ? item.amounts.map(({ quantity, quantityMax, unit }) => ({ name: item.name, quantity: quantityMax ?? quantity, unit }))
+        : [{ name: item.name }]
+    ));
+    clearChecked();
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(exportAs('text'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy shopping list", e);
+    }
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Remove every recipe from your shopping list?')) clearList();
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto animate-fade-in-up">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-3xl font-serif font-bold text-slate-900 flex items-center gap-3">
+          <span>🛒</span> Shopping List
+        </h2>
+        <UnitSystemToggle />
+      </div>
+
+      {list.recipes.length === 0 ? (
+        <div className="bg-white/80 p-8 rounded-2xl border border-slate-200 text-center text-slate-500">
+          Your list is empty. Open a recipe and hit <span className="font-bold text-emerald-700">Add to shopping list</span> next to its ingredients.
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-6">
+            {list.recipes.map(recipe => (
+              <span key={recipe.id} className="text-sm bg-white border border-slate-200 text-slate-700 pl-3 pr-2 py-1 rounded-full flex items-center gap-2 shadow-sm">
+                {recipe.title}
+                <span className="text-xs text-slate-400">serves {recipe.servings}</span>
+                <button onClick={() => removeRecipe(recipe.id)} className="hover:text-red-500" aria-label={`Remove ${recipe.title} from the list`}>
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+            <span className="text-slate-500 mr-auto">
+              {remaining === 0 ? 'Everything is in the basket' : `${remaining} of ${toBuy.length} left to buy`}
+            </span>
+            <button onClick={handleCopy} className="px-4 py-2 rounded-full bg-emerald-600 text-white font-bold hover:bg-emerald-500 transition-colors">
+              {copied ? 'Copied!' : 'Copy as text'}
+            </button>
+            <button
+              onClick={() => downloadText('shopping-list.md', exportAs('markdown'), 'text/markdown')}
+              className="px-4 py-2 rounded-full bg-white border border-slate-200 text-slate-700 font-bold hover:border-emerald-300 transition-colors"
+            >
+              Download Markdown
+            </button>
+            {list.checked.length > 0 && (
+              <>
+                <button onClick={handlePutAway} className="px-4 py-2 rounded-full bg-white border border-slate-200 text-slate-700 font-bold hover:border-indigo-300 transition-colors">
+                  Put checked in pantry
+                </button>
+                <button onClick={clearChecked} className="px-4 py-2 rounded-full text-slate-500 font-bold hover:bg-slate-100 transition-colors">
+                  Uncheck all
+                </button>
+              </>
+            )}
+            <button onClick={handleClear} className="px-4 py-2 rounded-full text-slate-500 font-bold hover:bg-red-50 hover:text-red-600 transition-colors">
+              Clear list
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            {groupByAisle(toBuy).map(({ category, items: aisleItems }) => (
+              <section key={category} className="bg-white/90 rounded-2xl border border-slate-200 shadow-sm px-5 py-3">
+                <h3 className="text-xs font-bold uppercase tracking-wider text-emerald-700 pt-2">{AISLE_LABELS[category]}</h3>
+                <ul className="divide-y divide-slate-100">
+                  {aisleItems.map(item => (
+                    <ItemRow
+                      key={item.key}
+                      item={item}
+                      checked={checked.has(item.key)}
+                      showRecipes={showRecipes}
+                      onToggle={() => toggleChecked(item.key)}
+                      onPantry={() => togglePantry(item)}
+                      pantryLabel="In pantry"
+                    />
+                  ))}
+                </ul>
+              </section>
+            ))}
+
+            {atHome.length > 0 && (
+              <section className="rounded-2xl border border-dashed border-slate-300 px-5 py-3">
+                <h3 className="text-xs font-bold uppercase tracking-wider text-slate-400 pt-2">Already in pantry</h3>
+                <ul className="divide-y divide-slate-100 opacity-70">
+                  {atHome.map(item => (
+                    <ItemRow
+                      key={item.key}
+                      item={item}
+                      checked={false}
+                      showRecipes={showRecipes}
+                      onPantry={() => togglePantry(item)}
+                      pantryLabel="Need it"
+                    />
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,22 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { RecipeStep, StepType } from '../types';
 import { RichInstruction } from './RichInstruction';
+import { StepTimerButtons } from './StepTimerButtons';
+import { stepDependencies } from '../utils/stepGraph';
 
 interface StepListProps {
   steps: RecipeStep[];
+  // Shown on timers started from this list
+  recipeTitle?: string;
 }
 
-export const StepList: React.FC<StepListProps> = ({ steps }) => {
+export const StepList: React.FC<StepListProps> = ({ steps, recipeTitle }) => {
+  // Only shown for recipes that say which steps can run side by side
+  const dependencies = useMemo(
+    () => (steps.some(step => step.dependsOn !== undefined) ? stepDependencies(steps) : null),
+    [steps]
+  );
+
   const getStepStyles = (type: StepType) => {
     switch (type) {
       case StepType.PREP:
@@ -61,6 +71,25 @@ export const StepList: React.FC<StepListProps> = ({ steps }) => {
               <RichInstruction text={step.instruction} />
             </p>
 
+            {(dependencies || step.activeMinutes !== undefined || step.equipment) && (
+              <p className="mt-2 text-xs text-slate-500 flex flex-wrap gap-x-3 gap-y-1">
+                {step.activeMinutes !== undefined && <span>✋ {step.activeMinutes} min hands-on</span>}
+                {!!step.passiveMinutes && <span>💤 {step.passiveMinutes} min unattended</span>}
+                {step.equipment && <span>🍳 {step.equipment.join(', ')}</span>}
+                {dependencies && (
+                  <span>
+                    {dependencies[index].length > 0
+                      ? `↳ after ${dependencies[index].map(d => `#${d + 1}`).join(', ')}`
+                      : index > 0 && '↳ can start any time'}
+                  </span>
+                )}
+              </p>
+            )}
+
+            <div className="mt-3 empty:hidden">
+              <StepTimerButtons instruction={step.instruction} stepIndex={index} recipeTitle={recipeTitle} />
+            </div>
+
             {step.insight && (
               <div className="mt-3 flex items-start gap-2 text-sm text-slate-600 italic bg-white/60 p-2 rounded">
                 <span className="text-indigo-500 text-lg">💡</span>
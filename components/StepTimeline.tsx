@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from 'react';
+import { RecipeStep, StepType } from '../types';
+import { formatDuration } from '../utils/durations';
+import { backwardSchedule, nextClockTime, scheduleSteps, stepLabel } from '../utils/stepGraph';
+
+interface StepTimelineProps {
+  steps: RecipeStep[];
+}
+
+const BAR_COLORS: Record<StepType, string> = {
+  [StepType.PREP]: 'bg-emerald-400',
+  [StepType.COOK]: 'bg-rose-400',
+  [StepType.TIMING]: 'bg-amber-400',
+};
+
+// Unattended time is drawn hatched, in the same colour as the hands-on part
+const PASSIVE_STYLE: React.CSSProperties = {
+  backgroundImage: 'repeating-linear-gradient(45deg, rgba(255,255,255,0.6) 0 4px, transparent 4px 8px)',
+  opacity: 0.6,
+};
+
+const formatClock = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+const formatOffset = (minutes: number) => (minutes === 0 ? 'start' : `+${formatDuration(minutes * 60)}`);
+
+export const StepTimeline: React.FC<StepTimelineProps> = ({ steps }) => {
+  const schedule = useMemo(() => scheduleSteps(steps), [steps]);
+  const [serveTime, setServeTime] = useState('');
+  const serveAt = nextClockTime(serveTime);
+  const startTimes = serveAt ? backwardSchedule(schedule, serveAt) : null;
+  const total = Math.max(1, schedule.totalMinutes);
+  const percent = (minutes: number) => `${(minutes / total) * 100}%`;
+
+  return (
+    <div>
+      <h3 className="text-xl font-serif font-bold text-slate-800 mb-4 border-b pb-2">Timeline</h3>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6 text-sm">
+        <span className="text-slate-600">
+          Ready in <span className="font-bold text-slate-900">{formatDuration(schedule.totalMinutes * 60)}</span>
+          {startTimes && (
+            <> · start at <span className="font-bold text-indigo-700">{formatClock(startTimes[0])}</span></>
+          )}
+        </span>
+        <label className="flex items-center gap-2 text-slate-600">
+          Serve at
+          <input
+            type="time"
+            value={serveTime}
+            onChange={e => setServeTime(e.target.value)}
+            className="px-2 py-1 rounded-lg border border-slate-200 bg-white focus:border-indigo-300 outline-none"
+          />
+          {serveTime && (
+            <button onClick={() => setServeTime('')} className="text-slate-400 hover:text-slate-600" aria-label="Clear serving time">
+              ×
+            </button>
+          )}
+        </label>
+      </div>
+
+      <ol className="space-y-3">
+        {schedule.steps.map(item => {
+          const step = steps[item.index];
+          return (
+            <li key={item.index} className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-4 items-center">
+              <div className="min-w-0">
+                <p className={`text-sm truncate ${item.critical ? 'font-bold text-slate-900' : 'text-slate-600'}`} title={stepLabel(step, Infinity)}>
+                  <span className="font-mono text-slate-400 mr-1">#{item.index + 1}</span>
+                  {stepLabel(step)}
+                </p>
+                <p className="text-xs text-slate-400 truncate">
+                  {startTimes ? formatClock(startTimes[item.index]) : formatOffset(item.start)}
+                  {item.dependsOn.length > 0 && ` · after ${item.dependsOn.map(d => `#${d + 1}`).join(', ')}`}
+                  {step.equipment && step.equipment.length > 0 && ` · ${step.equipment.join(', ')}`}
+                </p>
+              </div>
+              <div className="relative h-5 bg-slate-100 rounded-full" aria-hidden="true">
+                <div
+                  className={`absolute inset-y-0 flex rounded-full overflow-hidden ${item.critical ? 'ring-2 ring-indigo-500 ring-offset-1' : ''}`}
+                  style={{ left: percent(item.start), width: percent(Math.max(item.end - item.start, total / 100)) }}
+                >
+                  <div className={BAR_COLORS[step.type]} style={{ flexGrow: Math.max(item.activeEnd - item.start, 0.01) }} />
+                  {item.end > item.activeEnd && (
+                    <div className={BAR_COLORS[step.type]} style={{ ...PASSIVE_STYLE, flexGrow: item.end - item.activeEnd }} />
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="flex flex-wrap gap-4 mt-6 text-xs text-slate-500">
+        <span className="flex items-center gap-1.5"><span className="w-4 h-2 rounded-full bg-slate-400" /> Hands-on</span>
+        <span className="flex items-center gap-1.5"><span className="w-4 h-2 rounded-full bg-slate-400" style={PASSIVE_STYLE} /> Unattended</span>
+        <span className="flex items-center gap-1.5"><span className="w-4 h-2 rounded-full ring-2 ring-indigo-500" /> Critical path: any delay here delays the meal</span>
+      </div>
+    </div>
+  );
+};
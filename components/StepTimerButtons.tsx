@@ -0,0 +1,53 @@
+import React, { useMemo } from 'react';
+import { useTimers, remainingSeconds } from '../context/TimerContext';
+import { parseDurations, timerLabel, formatDuration, formatCountdown } from '../utils/durations';
+
+interface StepTimerButtonsProps {
+  instruction: string;
+  stepIndex: number;
+  recipeTitle?: string;
+  // 'dark' inside Cook Mode
+  tone?: 'light' | 'dark';
+}
+
+// One-tap timers for every duration a step mentions. A timer already running
+// for the same step and duration shows its countdown instead of starting twice.
+export const StepTimerButtons: React.FC<StepTimerButtonsProps> = ({ instruction, stepIndex, recipeTitle, tone = 'light' }) => {
+  const { timers, now, startTimer } = useTimers();
+  const durations = useMemo(() => parseDurations(instruction), [instruction]);
+
+  if (durations.length === 0) return null;
+
+  const buttonClasses = tone === 'dark'
+    ? 'bg-amber-500/20 text-amber-200 border-amber-400/40 hover:bg-amber-500/30'
+    : 'bg-white text-amber-800 border-amber-300 hover:bg-amber-100';
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {durations.map((duration, idx) => {
+        const label = timerLabel(instruction, duration);
+        const active = timers.find(t =>
+          t.stepIndex === stepIndex && t.recipeTitle === recipeTitle && t.durationSeconds === duration.seconds && t.label === label
+        );
+
+        return (
+          <button
+            key={idx}
+            onClick={e => {
+              e.stopPropagation();
+              if (!active) startTimer({ label, seconds: duration.seconds, recipeTitle, stepIndex });
+            }}
+            disabled={!!active}
+            className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold border transition-colors disabled:cursor-default ${buttonClasses}`}
+            title={duration.maxSeconds ? `Check after ${formatDuration(duration.seconds)}, done by ${formatDuration(duration.maxSeconds)}` : undefined}
+          >
+            <span>⏱️</span>
+            {active
+              ? active.status === 'done' ? "Time's up" : formatCountdown(remainingSeconds(active, now))
+              : `Start ${formatDuration(duration.seconds)} timer`}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
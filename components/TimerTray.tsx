@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { useTimers, remainingSeconds } from '../context/TimerContext';
+import { formatCountdown } from '../utils/durations';
+
+// Floating list of every kitchen timer; rendered once at the app root so it
+// stays on top of Cook Mode and the tutorial player
+export const TimerTray: React.FC = () => {
+  const { timers, now, pauseTimer, resumeTimer, addTime, dismissTimer } = useTimers();
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (timers.length === 0) return null;
+
+  const doneCount = timers.filter(t => t.status === 'done').length;
+
+  return (
+    <div className="fixed bottom-28 right-4 z-[80] w-72 max-w-[calc(100vw-2rem)] bg-white/95 backdrop-blur-md rounded-2xl shadow-2xl border border-slate-200 text-slate-800 overflow-hidden animate-fade-in">
+      <button
+        onClick={() => setCollapsed(c => !c)}
+        className={`w-full flex items-center justify-between px-4 py-2 text-sm font-bold ${doneCount > 0 ? 'bg-amber-400 text-amber-950 animate-pulse' : 'bg-slate-100'}`}
+        aria-expanded={!collapsed}
+      >
+        <span>⏱️ {timers.length} {timers.length === 1 ? 'timer' : 'timers'}{doneCount > 0 && ` · ${doneCount} done`}</span>
+        <span>{collapsed ? '▴' : '▾'}</span>
+      </button>
+
+      {!collapsed && (
+        <ul className="divide-y divide-slate-100 max-h-72 overflow-y-auto">
+          {timers.map(timer => {
+            const remaining = remainingSeconds(timer, now);
+            const progress = timer.durationSeconds > 0 ? 1 - remaining / timer.durationSeconds : 1;
+            return (
+              <li key={timer.id} className={`px-4 py-3 ${timer.status === 'done' ? 'bg-amber-50' : ''}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold truncate" title={timer.label}>{timer.label}</p>
+                    {timer.recipeTitle && (
+                      <p className="text-[11px] text-slate-400 truncate">
+                        {timer.recipeTitle}{timer.stepIndex !== undefined && ` · step ${timer.stepIndex + 1}`}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`font-mono text-lg font-bold ${timer.status === 'done' ? 'text-amber-600' : timer.status === 'paused' ? 'text-slate-400' : 'text-slate-900'}`}>
+                    {timer.status === 'done' ? '0:00' : formatCountdown(remaining)}
+                  </span>
+                </div>
+                <div className="h-1 bg-slate-100 rounded-full overflow-hidden my-2">
+                  <div className="h-full bg-amber-400 transition-all duration-1000" style={{ width: `${Math.max(0, Math.min(100, progress * 100))}%` }}></div>
+                </div>
+                <div className="flex gap-2 text-xs font-bold">
+                  {timer.status === 'running' && (
+                    <button onClick={() => pauseTimer(timer.id)} className="text-slate-500 hover:text-slate-900">Pause</button>
+                  )}
+                  {timer.status === 'paused' && (
+                    <button onClick={() => resumeTimer(timer.id)} className="text-indigo-600 hover:text-indigo-800">Resume</button>
+                  )}
+                  <button onClick={() => addTime(timer.id, 60)} className="text-slate-500 hover:text-slate-900">+1 min</button>
+                  <button onClick={() => dismissTimer(timer.id)} className="ml-auto text-slate-400 hover:text-red-500">
+                    {timer.status === 'done' ? 'Dismiss' : 'Cancel'}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { RecipeStep } from '../types';
-import { generateStepVisual, generateStepAudio } from '../services/geminiService';
+import { generateStepVisual, generateStepAudio } from '../services/recipeProvider';
 import { RichInstruction } from './RichInstruction';
+import { ErrorNotice } from './ErrorNotice';
+import { ServiceError, toServiceError, isAbortError } from '../services/errors';
+import { canSpeak, readingTimeMs, speak, stopSpeaking } from '../services/speechService';
+import { toSpokenText } from '../utils/ingredients';
 
 interface TutorialPlayerProps {
   steps: RecipeStep[];
@@ -16,6 +20,12 @@ export const TutorialPlayer: React.FC<TutorialPlayerProps> = ({ steps, onClose,
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(true);
   const [isLoading, setIsLoading] = useState(true);
+  const [imageError, setImageError] = useState<ServiceError | null>(null);
+  const [audioError, setAudioError] = useState<ServiceError | null>(null);
+  // Offline without cached narration, the browser's own voice reads the step
+  const [narrateLocally, setNarrateLocally] = useState(false);
+  // Bumped by "Try again" to reload the current scene
+  const [attempt, setAttempt] = useState(0);
   
   // Local cache for images generated within the player (not yet in parent props)
   const [localImageCache, setLocalImageCache] = useState<Record<number, string>>({});
@@ -30,56 +40,83 @@ export const TutorialPlayer: React.FC<TutorialPlayerProps> = ({ steps, onClose,
     return () => { isMountedRef.current = false; };
   }, []);
 
+  // Latest known images, read inside effects so new arrivals don't restart the current scene
+  const knownImagesRef = useRef<Record<number, string>>({});
+  knownImagesRef.current = { ...preloadedImages, ...localImageCache };
+
   // --- PRELOAD LOGIC ---
+  const nextIndex = currentIndex + 1;
+  // Check if we already have it in props or local cache
+  const hasNextImage = nextIndex >= steps.length || !!(preloadedImages[nextIndex] || localImageCache[nextIndex]);
+
   useEffect(() => {
-    const preloadNext = async () => {
-       const nextIndex = currentIndex + 1;
-       if (nextIndex < steps.length) {
-          // Check if we already have it in props or local cache
-          if (preloadedImages[nextIndex] || localImageCache[nextIndex]) return;
-          
-          // Generate context
-          const prevContext = steps.slice(0, nextIndex).map(s => s.instruction);
-          // Generate in background
-          try {
-            const url = await generateStepVisual(steps[nextIndex].instruction, prevContext);
-            if (url && isMountedRef.current) {
-                setLocalImageCache(prev => ({...prev, [nextIndex]: url}));
-            }
-          } catch (e) {
-            console.warn("Failed to preload next image", e);
-          }
-       }
-    };
-    preloadNext();
-  }, [currentIndex, steps, preloadedImages, localImageCache]);
+    if (hasNextImage) return;
+    const controller = new AbortController();
+
+    // Generate context
+    const prevContext = steps.slice(0, nextIndex).map(s => s.instruction);
+    // Generate in background, ahead of anything RecipeCard still has queued
+    generateStepVisual(steps[nextIndex].instruction, prevContext, { priority: 'next', signal: controller.signal })
+      .then(url => {
+        if (url) setLocalImageCache(prev => ({...prev, [nextIndex]: url}));
+      })
+      .catch(e => {
+        if (!isAbortError(e)) console.warn("Failed to preload next image", e);
+      });
+
+    return () => controller.abort();
+  }, [nextIndex, hasNextImage, steps]);
 
 
   // --- LOAD CURRENT CONTENT ---
   useEffect(() => {
     let active = true;
+    // Cancels this scene's requests when skipping ahead or closing the player
+    const controller = new AbortController();
     setIsLoading(true);
     setAudioUrl(null);
     setImageUrl(null);
+    setImageError(null);
+    setAudioError(null);
+    setNarrateLocally(false);
     if(audioRef.current) {
         audioRef.current.pause();
     }
 
     const loadContent = async () => {
       // 1. Image Strategy: Check preloaded (prop), then local cache, then fetch
-      let url = preloadedImages[currentIndex] || localImageCache[currentIndex];
+      let url = knownImagesRef.current[currentIndex];
       
       if (!url) {
         // Build context for image generator
         const previousInstructions = steps.slice(0, currentIndex).map(s => s.instruction);
-        url = await generateStepVisual(currentStep.instruction, previousInstructions) || '';
+        try {
+          url = await generateStepVisual(currentStep.instruction, previousInstructions, {
+            priority: 'current',
+            signal: controller.signal,
+          }) || '';
+        } catch (e) {
+          if (isAbortError(e)) return;
+          // The scene can still play without a picture
+          if (active) setImageError(toServiceError(e));
+          url = '';
+        }
       }
       
       if (active) setImageUrl(url);
 
-      // 2. Audio Strategy: Generate TTS
-      // (Optional: Could add caching for audio too, but focusing on images for now)
-      const audio = await generateStepAudio(currentStep.instruction);
+      // 2. Audio Strategy: Generate TTS (served from the media cache when available)
+      let audio: string | null = null;
+      try {
+        audio = await generateStepAudio(currentStep.instruction, { priority: 'current', signal: controller.signal });
+      } catch (e) {
+        if (isAbortError(e)) return;
+        const error = toServiceError(e);
+        if (active) {
+          if (error.kind === 'offline') setNarrateLocally(true);
+          else setAudioError(error);
+        }
+      }
       
       if (active) {
         setAudioUrl(audio);
@@ -89,8 +126,11 @@ export const TutorialPlayer: React.FC<TutorialPlayerProps> = ({ steps, onClose,
 
     loadContent();
 
-    return () => { active = false; };
-  }, [currentIndex, steps, preloadedImages, currentStep, localImageCache]); // Added localImageCache dependency
+    return () => {
+      active = false;
+      controller.abort();
+    };
+  }, [currentIndex, steps, currentStep, attempt]); // Images are read through knownImagesRef
 
   // Auto-play when content is ready
   useEffect(() => {
@@ -99,6 +139,26 @@ export const TutorialPlayer: React.FC<TutorialPlayerProps> = ({ steps, onClose,
     }
   }, [isLoading, audioUrl, isPlaying]);
 
+  // Device narration advances the tutorial the same way the audio track does.
+  // Without a voice the step stays up for as long as it takes to read.
+  useEffect(() => {
+    if (isLoading || !narrateLocally || !isPlaying) return;
+    let cancelled = false;
+    let readingTimer: ReturnType<typeof setTimeout> | undefined;
+    const text = toSpokenText(currentStep.instruction);
+    const narration = canSpeak()
+      ? speak(text)
+      : new Promise<void>(resolve => { readingTimer = setTimeout(resolve, readingTimeMs(text)); });
+    narration.then(() => {
+      if (!cancelled) handleAudioEnded();
+    });
+    return () => {
+      cancelled = true;
+      clearTimeout(readingTimer);
+      stopSpeaking();
+    };
+  }, [isLoading, narrateLocally, isPlaying, currentStep]);
+
   const handleAudioEnded = () => {
     if (!isLastStep && isPlaying) {
        // Small delay before next step for pacing
@@ -132,6 +192,9 @@ export const TutorialPlayer: React.FC<TutorialPlayerProps> = ({ steps, onClose,
                     Tutorial Video
                 </span>
                 <h2 className="text-lg font-serif font-bold mt-1">{recipeTitle}</h2>
+                {narrateLocally && (
+                    <span className="text-xs text-neutral-400">📴 Offline: narrated by your device</span>
+                )}
             </div>
             <button 
                 onClick={onClose}
@@ -155,6 +218,25 @@ export const TutorialPlayer: React.FC<TutorialPlayerProps> = ({ steps, onClose,
             ) : (
                 <>
                     {/* Visual */}
+                    {!imageUrl && imageError?.kind === 'offline' && (
+                        <div className="absolute inset-0 flex flex-col items-center justify-center pb-32 text-neutral-500">
+                            <span className="text-6xl opacity-30 mb-4">{currentIndex + 1}</span>
+                            <span className="text-sm">📴 No picture saved for offline</span>
+                        </div>
+                    )}
+                    {!imageUrl && imageError && imageError.kind !== 'offline' && (
+                        <div className="absolute inset-0 flex items-center justify-center pb-32">
+                            <ErrorNotice error={imageError} onRetry={() => setAttempt(a => a + 1)} tone="dark" compact />
+                        </div>
+                    )}
+
+                    {/* Narration failed: playback stops here until retried */}
+                    {audioError && (
+                        <div className="absolute top-24 left-0 right-0 px-6 z-10">
+                            <ErrorNotice error={audioError} onRetry={() => setAttempt(a => a + 1)} tone="dark" />
+                        </div>
+                    )}
+
                     {imageUrl && (
                         <img 
                             src={imageUrl} 
@@ -0,0 +1,25 @@
+import React from 'react';
+import { UnitSystem } from '../types';
+import { useUnitSystem } from '../context/UnitSystemContext';
+import { UNIT_SYSTEM_LABELS } from '../utils/units';
+
+export const UnitSystemToggle: React.FC = () => {
+  const { unitSystem, setUnitSystem } = useUnitSystem();
+
+  return (
+    <div className="inline-flex rounded-full bg-white border border-orange-200 p-0.5 text-xs font-bold">
+      {(Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]).map(system => (
+        <button
+          key={system}
+          onClick={() => setUnitSystem(system)}
+          className={`px-3 py-1 rounded-full transition-colors ${
+            unitSystem === system ? 'bg-orange-400 text-white shadow-sm' : 'text-orange-700 hover:bg-orange-100'
+          }`}
+          aria-pressed={unitSystem === system}
+        >
+          {UNIT_SYSTEM_LABELS[system]}
+        </button>
+      ))}
+    </div>
+  );
+};
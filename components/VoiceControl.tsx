@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CommandRecognizer, TextRecognizer, createSpeechRecognizer, createTextRecognizer, speak, stopSpeaking } from '../services/speechService';
+import { parseVoiceCommand, VoiceCommand, VOICE_HELP } from '../utils/voiceCommands';
+
+interface VoiceControlProps {
+  // Handles a recognised command and returns what to say back, if anything
+  onCommand: (command: VoiceCommand) => string | undefined;
+  // Injected in tests; defaults to Web Speech, or typed commands when unsupported
+  recognizer?: CommandRecognizer;
+}
+
+export const VoiceControl: React.FC<VoiceControlProps> = ({ onCommand, recognizer }) => {
+  const [enabled, setEnabled] = useState(false);
+  const [heard, setHeard] = useState<string | null>(null);
+  const [reply, setReply] = useState<string | null>(null);
+  const [typed, setTyped] = useState('');
+
+  const activeRecognizer = useMemo<CommandRecognizer>(() => {
+    if (recognizer) return recognizer;
+    const speech = createSpeechRecognizer();
+    return speech.supported ? speech : createTextRecognizer();
+  }, [recognizer]);
+  const isTyped = 'feed' in activeRecognizer;
+
+  // Latest handler without re-subscribing on every render
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+
+  useEffect(() => {
+    const unsubscribe = activeRecognizer.onTranscript(async transcript => {
+      setHeard(transcript);
+      const answer = onCommandRef.current(parseVoiceCommand(transcript));
+      setReply(answer ?? null);
+      if (!answer || isTyped) {
+        if (answer) speak(answer);
+        return;
+      }
+      // Don't let the microphone hear our own answer
+      activeRecognizer.stop();
+      await speak(answer);
+      if (enabledRef.current) activeRecognizer.start();
+    });
+    return unsubscribe;
+  }, [activeRecognizer, isTyped]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    activeRecognizer.start();
+    return () => {
+      activeRecognizer.stop();
+      stopSpeaking();
+    };
+  }, [enabled, activeRecognizer]);
+
+  const submitTyped = (e: React.FormEvent) => {
+    e.preventDefault();
+    (activeRecognizer as TextRecognizer).feed(typed);
+    setTyped('');
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      {enabled && (
+        <div className="hidden md:block max-w-xs text-right text-xs">
+          {heard && <p className="text-slate-400 truncate">"{heard}"</p>}
+          <p className="text-indigo-300 truncate" title={reply ?? VOICE_HELP}>{reply ?? VOICE_HELP}</p>
+        </div>
+      )}
+      {enabled && isTyped && (
+        <form onSubmit={submitTyped}>
+          <input
+            value={typed}
+            onChange={e => setTyped(e.target.value)}
+            placeholder="Type a command"
+            aria-label="Voice command"
+            className="w-40 px-3 py-1.5 rounded-full bg-slate-800 border border-slate-700 text-sm text-white placeholder-slate-500 outline-none focus:border-indigo-500"
+          />
+        </form>
+      )}
+      <button
+        onClick={() => setEnabled(e => !e)}
+        className={`p-2 rounded-full transition-colors ${enabled ? 'bg-indigo-600 text-white animate-pulse' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'}`}
+        aria-pressed={enabled}
+        aria-label={enabled ? 'Turn off voice control' : 'Turn on voice control'}
+        title={isTyped ? 'Voice input is not supported in this browser; commands can be typed instead' : VOICE_HELP}
+      >
+        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-14 0m7 7v4m-4 0h8m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+        </svg>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { DietaryProfile } from '../types';
+import { loadPreference, savePreference } from '../services/preferencesService';
+import { EMPTY_PROFILE } from '../utils/dietary';
+
+const PREFERENCE_KEY = 'dietary-profile';
+
+interface DietaryProfileContextValue {
+  profile: DietaryProfile;
+  setProfile: (profile: DietaryProfile) => void;
+}
+
+const DietaryProfileContext = createContext<DietaryProfileContextValue>({
+  profile: EMPTY_PROFILE,
+  setProfile: () => {},
+});
+
+export const DietaryProfileProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [profile, setProfile] = useState<DietaryProfile>(() => ({
+    ...EMPTY_PROFILE,
+    ...loadPreference<Partial<DietaryProfile>>(PREFERENCE_KEY, {}),
+  }));
+
+  useEffect(() => {
+    savePreference(PREFERENCE_KEY, profile);
+  }, [profile]);
+
+  return (
+    <DietaryProfileContext.Provider value={{ profile, setProfile }}>
+      {children}
+    </DietaryProfileContext.Provider>
+  );
+};
+
+export const useDietaryProfile = () => useContext(DietaryProfileContext);
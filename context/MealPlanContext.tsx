@@ -0,0 +1,69 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { MealSlot, PlannedMeal } from '../types';
+import { loadPreference, savePreference } from '../services/preferencesService';
+
+const PREFERENCE_KEY = 'meal-plan';
+
+export type NewMeal = Omit<PlannedMeal, 'id'>;
+
+interface MealPlanContextValue {
+  meals: PlannedMeal[];
+  // Each slot holds one meal; placing into a taken slot replaces it
+  placeMeals: (meals: NewMeal[]) => void;
+  // Swaps with whatever is already in the target slot
+  moveMeal: (id: string, date: string, slot: MealSlot) => void;
+  // Also removes leftover meals planned from it
+  removeMeal: (id: string) => void;
+}
+
+const MealPlanContext = createContext<MealPlanContextValue>({
+  meals: [],
+  placeMeals: () => {},
+  moveMeal: () => {},
+  removeMeal: () => {},
+});
+
+const withoutMeals = (meals: PlannedMeal[], ids: Set<string>): PlannedMeal[] =>
+  meals.filter(meal => !ids.has(meal.id) && !(meal.leftover && ids.has(meal.leftover.fromMealId)));
+
+export const MealPlanProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [meals, setMeals] = useState<PlannedMeal[]>(() => loadPreference<PlannedMeal[]>(PREFERENCE_KEY, []));
+
+  useEffect(() => {
+    savePreference(PREFERENCE_KEY, meals);
+  }, [meals]);
+
+  const placeMeals = useCallback((added: NewMeal[]) => {
+    setMeals(prev => {
+      const replaced = new Set<string>(
+        prev.filter(meal => added.some(a => a.date === meal.date && a.slot === meal.slot)).map(meal => meal.id)
+      );
+      return [...withoutMeals(prev, replaced), ...added.map(meal => ({ ...meal, id: crypto.randomUUID() }))];
+    });
+  }, []);
+
+  const moveMeal = useCallback((id: string, date: string, slot: MealSlot) => {
+    setMeals(prev => {
+      const moving = prev.find(meal => meal.id === id);
+      if (!moving) return prev;
+      const occupant = prev.find(meal => meal.date === date && meal.slot === slot && meal.id !== id);
+      return prev.map(meal => {
+        if (meal.id === id) return { ...meal, date, slot };
+        if (meal.id === occupant?.id) return { ...meal, date: moving.date, slot: moving.slot };
+        return meal;
+      });
+    });
+  }, []);
+
+  const removeMeal = useCallback((id: string) => {
+    setMeals(prev => withoutMeals(prev, new Set([id])));
+  }, []);
+
+  return (
+    <MealPlanContext.Provider value={{ meals, placeMeals, moveMeal, removeMeal }}>
+      {children}
+    </MealPlanContext.Provider>
+  );
+};
+
+export const useMealPlan = () => useContext(MealPlanContext);
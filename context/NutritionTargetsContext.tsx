@@ -0,0 +1,31 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { MacroTargets } from '../types';
+import { loadPreference, savePreference } from '../services/preferencesService';
+
+const PREFERENCE_KEY = 'nutrition-targets';
+
+interface NutritionTargetsContextValue {
+  targets: MacroTargets;
+  setTargets: (targets: MacroTargets) => void;
+}
+
+const NutritionTargetsContext = createContext<NutritionTargetsContextValue>({
+  targets: {},
+  setTargets: () => {},
+});
+
+export const NutritionTargetsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [targets, setTargets] = useState<MacroTargets>(() => loadPreference<MacroTargets>(PREFERENCE_KEY, {}));
+
+  useEffect(() => {
+    savePreference(PREFERENCE_KEY, targets);
+  }, [targets]);
+
+  return (
+    <NutritionTargetsContext.Provider value={{ targets, setTargets }}>
+      {children}
+    </NutritionTargetsContext.Provider>
+  );
+};
+
+export const useNutritionTargets = () => useContext(NutritionTargetsContext);
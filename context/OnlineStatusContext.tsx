@@ -0,0 +1,38 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { providerRequiresNetwork } from '../services/recipeProvider';
+
+interface OnlineStatusContextValue {
+  online: boolean;
+  // Whether generation, refining and other model features can run right now
+  modelAvailable: boolean;
+}
+
+const OnlineStatusContext = createContext<OnlineStatusContextValue>({
+  online: true,
+  modelAvailable: true,
+});
+
+export const OnlineStatusProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // The mock provider answers locally, so development keeps working offline
+  const modelAvailable = online || !providerRequiresNetwork();
+
+  return (
+    <OnlineStatusContext.Provider value={{ online, modelAvailable }}>
+      {children}
+    </OnlineStatusContext.Provider>
+  );
+};
+
+export const useOnlineStatus = () => useContext(OnlineStatusContext);
@@ -0,0 +1,70 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { Ingredient, PantryItem } from '../types';
+import { loadPreference, savePreference } from '../services/preferencesService';
+import { consumeIngredients, mergeIntoPantry, PantryAddition, PantryUsage } from '../utils/pantry';
+
+const PREFERENCE_KEY = 'pantry';
+
+interface PantryContextValue {
+  items: PantryItem[];
+  addItems: (additions: PantryAddition[]) => void;
+  updateItem: (id: string, changes: Partial<Omit<PantryItem, 'id'>>) => void;
+  removeItems: (ids: string[]) => void;
+  // Takes a cooked recipe's ingredients off the pantry and reports what changed
+  markCooked: (ingredients: Ingredient[]) => PantryUsage[];
+}
+
+const PantryContext = createContext<PantryContextValue>({
+  items: [],
+  addItems: () => {},
+  updateItem: () => {},
+  removeItems: () => {},
+  markCooked: () => [],
+});
+
+export const PantryProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [items, setItems] = useState<PantryItem[]>(() => loadPreference<PantryItem[]>(PREFERENCE_KEY, []));
+  // The latest items any update has produced, so markCooked can report what it
+  // used without waiting for a render
+  const itemsRef = useRef(items);
+
+  useEffect(() => {
+    savePreference(PREFERENCE_KEY, items);
+  }, [items]);
+
+  // Every change goes through a functional update, so none overwrites another
+  // that is still pending
+  const update = useCallback((change: (prev: PantryItem[]) => PantryItem[]) => {
+    setItems(prev => {
+      const next = change(prev);
+      itemsRef.current = next;
+      return next;
+    });
+  }, []);
+
+  const addItems = useCallback((additions: PantryAddition[]) => {
+    update(prev => mergeIntoPantry(prev, additions));
+  }, [update]);
+
+  const updateItem = useCallback((id: string, changes: Partial<Omit<PantryItem, 'id'>>) => {
+    update(prev => prev.map(item => (item.id === id ? { ...item, ...changes, updatedAt: Date.now() } : item)));
+  }, [update]);
+
+  const removeItems = useCallback((ids: string[]) => {
+    update(prev => prev.filter(item => !ids.includes(item.id)));
+  }, [update]);
+
+  const markCooked = useCallback((ingredients: Ingredient[]) => {
+    const { usage } = consumeIngredients(itemsRef.current, ingredients);
+    update(prev => consumeIngredients(prev, ingredients).items);
+    return usage;
+  }, [update]);
+
+  return (
+    <PantryContext.Provider value={{ items, addItems, updateItem, removeItems, markCooked }}>
+      {children}
+    </PantryContext.Provider>
+  );
+};
+
+export const usePantry = () => useContext(PantryContext);
@@ -0,0 +1,59 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Route, formatRoute, parseRoute } from '../utils/routes';
+
+interface RouterContextValue {
+  route: Route;
+  // Pushes a history entry, or replaces the current one
+  navigate: (route: Route, options?: { replace?: boolean }) => void;
+  // Steps back through history when the previous entry is one of ours (so
+  // closing an overlay doesn't leave it under the Forward button), otherwise
+  // replaces the current entry with the fallback
+  back: (fallback: Route) => void;
+}
+
+const RouterContext = createContext<RouterContextValue>({
+  route: { name: 'search' },
+  navigate: () => {},
+  back: () => {},
+});
+
+// How many entries this app has pushed below the current one
+const historyDepth = (): number => (window.history.state as { depth?: number } | null)?.depth ?? 0;
+
+export const RouterProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [hash, setHash] = useState(() => window.location.hash);
+
+  // Back/forward and hand-edited URLs
+  useEffect(() => {
+    const sync = () => setHash(window.location.hash);
+    window.addEventListener('popstate', sync);
+    window.addEventListener('hashchange', sync);
+    return () => {
+      window.removeEventListener('popstate', sync);
+      window.removeEventListener('hashchange', sync);
+    };
+  }, []);
+
+  const route = useMemo(() => parseRoute(hash), [hash]);
+
+  const navigate = useCallback((next: Route, { replace = false }: { replace?: boolean } = {}) => {
+    const nextHash = formatRoute(next);
+    if (nextHash === window.location.hash) return;
+    if (replace) window.history.replaceState({ depth: historyDepth() }, '', nextHash);
+    else window.history.pushState({ depth: historyDepth() + 1 }, '', nextHash);
+    setHash(nextHash);
+  }, []);
+
+  const back = useCallback((fallback: Route) => {
+    if (historyDepth() > 0) window.history.back();
+    else navigate(fallback, { replace: true });
+  }, [navigate]);
+
+  return (
+    <RouterContext.Provider value={{ route, navigate, back }}>
+      {children}
+    </RouterContext.Provider>
+  );
+};
+
+export const useRouter = () => useContext(RouterContext);
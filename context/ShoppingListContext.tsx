@@ -0,0 +1,98 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { Recipe, ShoppingListState } from '../types';
+import { loadPreference, savePreference } from '../services/preferencesService';
+import { usePantry } from './PantryContext';
+
+const PREFERENCE_KEY = 'shopping-list';
+
+const EMPTY_LIST: ShoppingListState = { recipes: [], checked: [] };
+
+// Lists saved before the pantry inventory kept the keys of items already at home
+type StoredShoppingList = Partial<ShoppingListState> & { pantry?: string[] };
+
+interface ShoppingListContextValue {
+  list: ShoppingListState;
+  // Adds an already scaled recipe; adding from the same source again replaces it
+  addRecipe: (recipe: Recipe, sourceId: string) => void;
+  removeRecipe: (id: string) => void;
+  toggleChecked: (key: string) => void;
+  clearChecked: () => void;
+  clearList: () => void;
+}
+
+const ShoppingListContext = createContext<ShoppingListContextValue>({
+  list: EMPTY_LIST,
+  addRecipe: () => {},
+  removeRecipe: () => {},
+  toggleChecked: () => {},
+  clearChecked: () => {},
+  clearList: () => {},
+});
+
+const toggle = (list: string[], item: string) =>
+  list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+export const ShoppingListProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { addItems } = usePantry();
+  const legacyPantryRef = useRef<string[]>([]);
+  const [list, setList] = useState<ShoppingListState>(() => {
+    const { pantry, ...stored } = loadPreference<StoredShoppingList>(PREFERENCE_KEY, {});
+    legacyPantryRef.current = Array.isArray(pantry) ? pantry : [];
+    const list = { ...EMPTY_LIST, ...stored };
+    // Entries from before sources were recorded stand on their own
+    return { ...list, recipes: list.recipes.map(r => ({ ...r, sourceId: r.sourceId ?? r.id })) };
+  });
+
+  // Moves those items into the pantry once; the list is saved without them below
+  useEffect(() => {
+    const legacy = legacyPantryRef.current;
+    legacyPantryRef.current = [];
+    if (legacy.length > 0) addItems(legacy.map(name => ({ name })));
+  }, [addItems]);
+
+  useEffect(() => {
+    savePreference(PREFERENCE_KEY, list);
+  }, [list]);
+
+  const addRecipe = useCallback((recipe: Recipe, sourceId: string) => {
+    setList(prev => {
+      const existing = prev.recipes.find(r => r.sourceId === sourceId);
+      const entry = {
+        id: existing?.id ?? crypto.randomUUID(),
+        sourceId,
+        title: recipe.title,
+        servings: recipe.servings,
+        ingredients: recipe.ingredients,
+        addedAt: Date.now(),
+      };
+      return {
+        ...prev,
+        recipes: existing ? prev.recipes.map(r => (r.id === existing.id ? entry : r)) : [...prev.recipes, entry],
+      };
+    });
+  }, []);
+
+  const removeRecipe = useCallback((id: string) => {
+    setList(prev => ({ ...prev, recipes: prev.recipes.filter(r => r.id !== id) }));
+  }, []);
+
+  const toggleChecked = useCallback((key: string) => {
+    setList(prev => ({ ...prev, checked: toggle(prev.checked, key) }));
+  }, []);
+
+  const clearChecked = useCallback(() => {
+    setList(prev => ({ ...prev, checked: [] }));
+  }, []);
+
+  const clearList = useCallback(() => {
+    setList(EMPTY_LIST);
+  }, []);
+
+  return (
+    <ShoppingListContext.Provider value={{ list, addRecipe, removeRecipe, toggleChecked, clearChecked, clearList }}>
+      {children}
+    </ShoppingListContext.Provider>
+  );
+};
+
+export const useShoppingList = () => useContext(ShoppingListContext);
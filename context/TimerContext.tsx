@@ -0,0 +1,133 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { KitchenTimer } from '../types';
+import { loadPreference, savePreference } from '../services/preferencesService';
+import { alertTimerDone, requestAlertPermission } from '../services/timerAlerts';
+
+const PREFERENCE_KEY = 'kitchen-timers';
+
+export interface StartTimerOptions {
+  label: string;
+  seconds: number;
+  recipeTitle?: string;
+  stepIndex?: number;
+}
+
+interface TimerContextValue {
+  timers: KitchenTimer[];
+  // Current time, updated every second while a timer is running
+  now: number;
+  startTimer: (options: StartTimerOptions) => string;
+  pauseTimer: (id: string) => void;
+  resumeTimer: (id: string) => void;
+  addTime: (id: string, seconds: number) => void;
+  dismissTimer: (id: string) => void;
+}
+
+const TimerContext = createContext<TimerContextValue>({
+  timers: [],
+  now: Date.now(),
+  startTimer: () => '',
+  pauseTimer: () => {},
+  resumeTimer: () => {},
+  addTime: () => {},
+  dismissTimer: () => {},
+});
+
+export const remainingSeconds = (timer: KitchenTimer, now: number): number => {
+  if (timer.status === 'done') return 0;
+  if (timer.status === 'paused' || timer.endsAt === null) return timer.remainingSeconds;
+  return Math.max(0, (timer.endsAt - now) / 1000);
+};
+
+// Lives above every view so timers keep running through navigation and when
+// Cook Mode closes; persisted so a reload doesn't lose them either
+export const TimerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [timers, setTimers] = useState<KitchenTimer[]>(() => loadPreference<KitchenTimer[]>(PREFERENCE_KEY, []));
+  const [now, setNow] = useState(() => Date.now());
+  // Read by the ticker so alerts fire outside of state updaters
+  const timersRef = useRef(timers);
+  timersRef.current = timers;
+
+  useEffect(() => {
+    savePreference(PREFERENCE_KEY, timers);
+  }, [timers]);
+
+  const hasRunning = timers.some(t => t.status === 'running');
+
+  useEffect(() => {
+    if (!hasRunning) return;
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+      const finished = timersRef.current.filter(t => t.status === 'running' && t.endsAt !== null && t.endsAt <= current);
+      if (finished.length === 0) return;
+      finished.forEach(alertTimerDone);
+      const ids = new Set(finished.map(t => t.id));
+      setTimers(prev => prev.map(t => ids.has(t.id) ? { ...t, status: 'done', endsAt: null, remainingSeconds: 0 } : t));
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [hasRunning]);
+
+  const update = useCallback((id: string, fn: (timer: KitchenTimer) => KitchenTimer) => {
+    setTimers(prev => prev.map(t => (t.id === id ? fn(t) : t)));
+  }, []);
+
+  const startTimer = useCallback(({ label, seconds, recipeTitle, stepIndex }: StartTimerOptions) => {
+    requestAlertPermission();
+    const id = crypto.randomUUID();
+    const timer: KitchenTimer = {
+      id,
+      label,
+      recipeTitle,
+      stepIndex,
+      durationSeconds: seconds,
+      endsAt: Date.now() + seconds * 1000,
+      remainingSeconds: seconds,
+      status: 'running',
+    };
+    setNow(Date.now());
+    setTimers(prev => [...prev, timer]);
+    return id;
+  }, []);
+
+  const pauseTimer = useCallback((id: string) => {
+    update(id, t => t.status !== 'running' ? t : {
+      ...t,
+      status: 'paused',
+      remainingSeconds: remainingSeconds(t, Date.now()),
+      endsAt: null,
+    });
+  }, [update]);
+
+  const resumeTimer = useCallback((id: string) => {
+    update(id, t => t.status !== 'paused' ? t : {
+      ...t,
+      status: 'running',
+      endsAt: Date.now() + t.remainingSeconds * 1000,
+    });
+  }, [update]);
+
+  // Also restarts a finished timer ("give it another minute")
+  const addTime = useCallback((id: string, seconds: number) => {
+    update(id, t => {
+      const durationSeconds = t.durationSeconds + seconds;
+      if (t.status === 'paused') return { ...t, durationSeconds, remainingSeconds: t.remainingSeconds + seconds };
+      const base = t.status === 'running' && t.endsAt !== null ? t.endsAt : Date.now();
+      return { ...t, durationSeconds, status: 'running', endsAt: base + seconds * 1000 };
+    });
+  }, [update]);
+
+  const dismissTimer = useCallback((id: string) => {
+    setTimers(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  return (
+    <TimerContext.Provider value={{ timers, now, startTimer, pauseTimer, resumeTimer, addTime, dismissTimer }}>
+      {children}
+    </TimerContext.Provider>
+  );
+};
+
+export const useTimers = () => useContext(TimerContext);
@@ -0,0 +1,34 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { UnitSystem } from '../types';
+import { loadPreference, savePreference } from '../services/preferencesService';
+import { detectUnitSystem } from '../utils/units';
+
+const PREFERENCE_KEY = 'unit-system';
+
+interface UnitSystemContextValue {
+  unitSystem: UnitSystem;
+  setUnitSystem: (system: UnitSystem) => void;
+}
+
+const UnitSystemContext = createContext<UnitSystemContextValue>({
+  unitSystem: 'us',
+  setUnitSystem: () => {},
+});
+
+export const UnitSystemProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(() =>
+    loadPreference<UnitSystem>(PREFERENCE_KEY, detectUnitSystem(navigator.language))
+  );
+
+  useEffect(() => {
+    savePreference(PREFERENCE_KEY, unitSystem);
+  }, [unitSystem]);
+
+  return (
+    <UnitSystemContext.Provider value={{ unitSystem, setUnitSystem }}>
+      {children}
+    </UnitSystemContext.Provider>
+  );
+};
+
+export const useUnitSystem = () => useContext(UnitSystemContext);
@@ -1,6 +1,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { RouterProvider } from './context/RouterContext';
+import { OnlineStatusProvider } from './context/OnlineStatusContext';
+import { UnitSystemProvider } from './context/UnitSystemContext';
+import { DietaryProfileProvider } from './context/DietaryProfileContext';
+import { NutritionTargetsProvider } from './context/NutritionTargetsContext';
+import { TimerProvider } from './context/TimerContext';
+import { ShoppingListProvider } from './context/ShoppingListContext';
+import { PantryProvider } from './context/PantryContext';
+import { MealPlanProvider } from './context/MealPlanContext';
+import { registerServiceWorker } from './services/serviceWorkerRegistration';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +20,26 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <RouterProvider>
+      <OnlineStatusProvider>
+        <UnitSystemProvider>
+          <DietaryProfileProvider>
+            <NutritionTargetsProvider>
+              <TimerProvider>
+                <PantryProvider>
+                  <ShoppingListProvider>
+                    <MealPlanProvider>
+                      <App />
+                    </MealPlanProvider>
+                  </ShoppingListProvider>
+                </PantryProvider>
+              </TimerProvider>
+            </NutritionTargetsProvider>
+          </DietaryProfileProvider>
+        </UnitSystemProvider>
+      </OnlineStatusProvider>
+    </RouterProvider>
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+registerServiceWorker();
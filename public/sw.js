@@ -0,0 +1,92 @@
+// Royal Recipes service worker: keeps the app shell available offline.
+// Saved recipes and their media live in IndexedDB, so once the shell loads,
+// the recipe box, Cook Mode and the tutorial work without a connection.
+
+const CACHE = 'royal-recipes-shell-v1';
+
+const SHELL = ['./', './index.html', './manifest.webmanifest', './icon.svg'];
+
+// Stylesheet, fonts and modules the page pulls from CDNs at runtime
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+
+// Model calls are never cached here; generated media has its own cache in the page
+const NEVER_CACHE_HOSTS = ['generativelanguage.googleapis.com'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then(cache => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isCacheable = url =>
+  !NEVER_CACHE_HOSTS.includes(url.hostname)
+  && (url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname));
+
+// Pages try the network so deploys show up, falling back to the cached shell
+const networkFirst = async request => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('./index.html', response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match('./index.html');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Everything else answers from the cache at once and refreshes it in the background
+const staleWhileRevalidate = async (event, request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(response => {
+      // Opaque cross-origin responses (status 0) are still worth keeping
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => {}));
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (!isCacheable(url)) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else {
+    event.respondWith(staleWhileRevalidate(event, request));
+  }
+});
+
+// The page sends the scripts and styles it loaded, so hashed build output is
+// cached on the first visit rather than the second
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'cache-urls') return;
+  const urls = event.data.urls.filter(href => isCacheable(new URL(href)));
+  event.waitUntil(
+    caches.open(CACHE).then(cache => Promise.all(urls.map(async href => {
+      if (await cache.match(href)) return;
+      const crossOrigin = new URL(href).origin !== self.location.origin;
+      const response = await fetch(href, crossOrigin ? { mode: 'no-cors' } : undefined).catch(() => null);
+      if (response && (response.ok || response.type === 'opaque')) await cache.put(href, response);
+    })))
+  );
+});
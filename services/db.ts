@@ -0,0 +1,98 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Bump DB_VERSION and extend `upgrade` when adding a new object store.
+
+const DB_NAME = 'royal-recipes';
+const DB_VERSION = 3;
+
+export const STORES = {
+  recipes: 'recipes',
+  media: 'media',
+  // Size, timestamps and pins for each media entry, so listing and eviction
+  // never have to load the images and audio themselves
+  mediaMeta: 'media-meta',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, tx: IDBTransaction) => {
+  if (!db.objectStoreNames.contains(STORES.recipes)) {
+    db.createObjectStore(STORES.recipes, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.media)) {
+    db.createObjectStore(STORES.media, { keyPath: 'key' });
+  }
+  if (!db.objectStoreNames.contains(STORES.mediaMeta)) {
+    const meta = db.createObjectStore(STORES.mediaMeta, { keyPath: 'key' });
+    // Media cached before version 3 kept its metadata next to the value; copy it
+    // over one entry at a time
+    const cursorRequest = tx.objectStore(STORES.media).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const { value, ...entry } = cursor.value;
+      meta.put(entry);
+      cursor.continue();
+    };
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result, request.transaction!);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `fn` against a single store and resolves once the transaction commits
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+  });
+  // Awaited together so a failed request doesn't leave the transaction's own
+  // rejection unhandled
+  const [value] = await Promise.all([promisifyRequest(fn(tx.objectStore(storeName))), done]);
+  return value;
+};
+
+// Like withStore, across several stores in one transaction. `fn` may issue any
+// number of requests; the result of the one it returns is resolved.
+export const withStores = async <T>(
+  storeNames: StoreName[],
+  mode: IDBTransactionMode,
+  fn: (stores: Record<StoreName, IDBObjectStore>) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+  });
+  const stores = Object.fromEntries(storeNames.map(name => [name, tx.objectStore(name)])) as Record<StoreName, IDBObjectStore>;
+  const [value] = await Promise.all([promisifyRequest(fn(stores)), done]);
+  return value;
+};
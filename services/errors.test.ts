@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { RecipeValidationError } from '../utils/recipeValidation';
+import { ServiceError, isAbortError, toServiceError } from './errors';
+
+describe('toServiceError', () => {
+  it('keeps service errors as they are', () => {
+    const error = new ServiceError('not-found', 'gone');
+    expect(toServiceError(error)).toBe(error);
+  });
+
+  it('classifies by status, name and message', () => {
+    expect(toServiceError({ status: 429, message: 'Too many requests per minute' }).kind).toBe('rate-limit');
+    expect(toServiceError(new Error('429 RESOURCE_EXHAUSTED: exceeded your current quota, daily limit')).kind).toBe('quota-exhausted');
+    expect(toServiceError({ code: 401 }).kind).toBe('invalid-api-key');
+    expect(toServiceError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(toServiceError(new DOMException('Quota exceeded', 'QuotaExceededError')).kind).toBe('storage');
+    expect(toServiceError(new Error('Response was blocked due to SAFETY')).kind).toBe('safety-block');
+    expect(toServiceError(new RecipeValidationError(['steps is missing'])).kind).toBe('malformed-output');
+  });
+
+  it('copes with things that are not errors', () => {
+    expect(toServiceError('boom')).toMatchObject({ kind: 'unknown', message: 'boom' });
+    expect(toServiceError(null)).toMatchObject({ kind: 'unknown', message: '' });
+  });
+});
+
+describe('isAbortError', () => {
+  it('recognises aborts by name only', () => {
+    expect(isAbortError(new DOMException('stop', 'AbortError'))).toBe(true);
+    expect(isAbortError(new Error('AbortError'))).toBe(false);
+    expect(isAbortError(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,129 @@
+import { RecipeValidationError } from '../utils/recipeValidation';
+
+export type ServiceErrorKind =
+  | 'rate-limit'
+  | 'quota-exhausted'
+  | 'safety-block'
+  | 'invalid-api-key'
+  | 'network'
+  // The browser knows there's no connection; nothing was sent
+  | 'offline'
+  | 'malformed-output'
+  | 'not-found'
+  // IndexedDB refused a read or write (storage full, private browsing)
+  | 'storage'
+  | 'unknown';
+
+// Kinds where trying the same request again later can succeed
+const RETRYABLE_KINDS = new Set<ServiceErrorKind>(['rate-limit', 'network', 'offline', 'malformed-output', 'storage', 'unknown']);
+
+export class ServiceError extends Error {
+  constructor(public readonly kind: ServiceErrorKind, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'ServiceError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+}
+
+// User-facing copy for each kind of failure
+export const ERROR_COPY: Record<ServiceErrorKind, { title: string; message: string }> = {
+  'rate-limit': {
+    title: "The kitchen's a bit busy",
+    message: 'Too many requests in a short time. Give it a few seconds and try again.',
+  },
+  'quota-exhausted': {
+    title: 'Daily limit reached',
+    message: 'The API quota for this key is used up. Try again later or check your plan and billing.',
+  },
+  'safety-block': {
+    title: 'Request blocked',
+    message: 'The model declined this request for safety reasons. Try rephrasing it.',
+  },
+  'invalid-api-key': {
+    title: 'API key problem',
+    message: 'The Gemini API key is missing or invalid. Set GEMINI_API_KEY in .env.local and restart the app.',
+  },
+  network: {
+    title: "Can't reach the kitchen",
+    message: 'We could not connect to the server. Check your internet connection and try again.',
+  },
+  offline: {
+    title: "You're offline",
+    message: 'This needs an internet connection. Saved recipes, Cook Mode and tutorials you have opened before still work.',
+  },
+  'malformed-output': {
+    title: 'The recipe came out garbled',
+    message: "The model returned something we couldn't read. Trying again usually fixes it.",
+  },
+  'not-found': {
+    title: 'Recipe not found',
+    message: "This link points to a recipe that isn't available here. It may have been deleted, or the link was cut short when it was copied.",
+  },
+  storage: {
+    title: "Couldn't save that",
+    message: "Your browser wouldn't store it. It may be out of space or in private browsing mode; clearing cached media in Settings can free some up.",
+  },
+  unknown: {
+    title: 'Oops!',
+    message: "Sorry, we couldn't cook up a recipe for that. Please try a different request.",
+  },
+};
+
+// A field of whatever was thrown: SDK errors carry `status` or `code`,
+// DOMExceptions a `name`, and some libraries throw plain objects
+const fieldOf = (error: unknown, field: 'name' | 'message' | 'status' | 'code'): unknown =>
+  typeof error === 'object' && error !== null && field in error
+    ? (error as Record<typeof field, unknown>)[field]
+    : undefined;
+
+// Cancelled requests are expected (a modal closed, the recipe changed) and never shown
+export const isAbortError = (error: unknown): boolean =>
+  fieldOf(error, 'name') === 'AbortError';
+
+// DOMException names IndexedDB uses for failures that aren't the request's fault
+const STORAGE_ERROR_NAMES = new Set(['QuotaExceededError', 'InvalidStateError', 'UnknownError', 'DataCloneError', 'VersionError']);
+
+const messageOf = (error: unknown): string => {
+  const message = fieldOf(error, 'message');
+  return typeof message === 'string' ? message : String(error ?? '');
+};
+
+// Maps anything thrown by the SDK, fetch or our own validation onto a ServiceError
+export const toServiceError = (error: unknown): ServiceError => {
+  if (error instanceof ServiceError) return error;
+  if (error instanceof RecipeValidationError) {
+    return new ServiceError('malformed-output', error.message, error);
+  }
+
+  const status = fieldOf(error, 'status') ?? fieldOf(error, 'code');
+  const name = fieldOf(error, 'name');
+  const message = messageOf(error);
+
+  // Checked before the quota pattern below, which a QuotaExceededError would match
+  if (typeof name === 'string' && STORAGE_ERROR_NAMES.has(name)) {
+    return new ServiceError('storage', message, error);
+  }
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return new ServiceError('offline', message, error);
+  }
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new ServiceError('network', message, error);
+  }
+  if (/API key not valid|API_KEY_INVALID|invalid api key|api key.*(missing|expired)/i.test(message) ||
+      status === 401 ||
+      (status === 403 && /api key|permission/i.test(message))) {
+    return new ServiceError('invalid-api-key', message, error);
+  }
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    // Per-minute limits clear on their own; daily or billing limits do not
+    const exhausted = /per ?day|daily|billing|exceeded your current quota/i.test(message) && !/per ?minute/i.test(message);
+    return new ServiceError(exhausted ? 'quota-exhausted' : 'rate-limit', message, error);
+  }
+  if (/safety|blocked|PROHIBITED_CONTENT/i.test(message)) {
+    return new ServiceError('safety-block', message, error);
+  }
+  return new ServiceError('unknown', message, error);
+};
@@ -1,7 +1,36 @@
-import { GoogleGenAI, Type, Schema, Modality } from "@google/genai";
-import { Recipe, StepType, LeftoverSuggestion } from "../types";
+import { GoogleGenAI, Type, Schema, Modality, GenerateContentResponse } from "@google/genai";
+import { Recipe, StepType, LeftoverSuggestion, Ingredient, MealPlanEntry, Nutrients } from "../types";
+import { formatIngredient, toSpokenText } from "../utils/ingredients";
+import {
+  validateRecipe,
+  validateLeftoverSuggestions,
+  validateMealPlan,
+  validateNutrients,
+  previewRecipe,
+  parseModelJson,
+  RecipeValidationError,
+} from "../utils/recipeValidation";
+import { pcmToWav } from "../utils/audio";
+import { parsePartialJson } from "../utils/partialJson";
+import { describeDietaryProfile, EMPTY_PROFILE } from "../utils/dietary";
+import { describeMacroTargets } from "../utils/nutrition";
+import { RecipeProvider, RequestOptions, RecipeRequestOptions, GenerationOptions, LeftoverRequestOptions } from "./recipeProvider";
+import { ServiceError, toServiceError, isAbortError } from "./errors";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const IMAGE_MODEL = "gemini-2.5-flash-image";
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+
+// Created on first use so importing this module never requires an API key
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
+    throw new ServiceError('invalid-api-key', "No Gemini API key configured");
+  }
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
 
 const recipeSchema: Schema = {
   type: Type.OBJECT,
@@ -14,10 +43,53 @@ const recipeSchema: Schema = {
       type: Type.STRING,
       description: "A short, appetizing description of the dish (max 20 words).",
     },
+    servings: {
+      type: Type.INTEGER,
+      description: "Number of servings the ingredient quantities are written for.",
+    },
     ingredients: {
       type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: "List of ingredients with quantities.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: {
+            type: Type.STRING,
+            description: "Ingredient name only, without amount or preparation. Example: 'flour'.",
+          },
+          quantity: {
+            type: Type.NUMBER,
+            description: "Numeric amount as a decimal (0.5 for 1/2). Lower bound if the amount is a range. Omit for 'to taste'.",
+            nullable: true,
+          },
+          quantityMax: {
+            type: Type.NUMBER,
+            description: "Upper bound when the amount is a range like 2-3. Otherwise omit.",
+            nullable: true,
+          },
+          unit: {
+            type: Type.STRING,
+            description: "Unit of measure such as g, ml, cup, tbsp, tsp, oz, lb, clove. Omit for countable items like '2 eggs'.",
+            nullable: true,
+          },
+          preparation: {
+            type: Type.STRING,
+            description: "Preparation note. Example: 'finely chopped', 'sifted'.",
+            nullable: true,
+          },
+          optional: {
+            type: Type.BOOLEAN,
+            description: "True if the ingredient is optional.",
+            nullable: true,
+          },
+          group: {
+            type: Type.STRING,
+            description: "Sub-list this ingredient belongs to, e.g. 'sauce' or 'topping'. Omit for simple recipes.",
+            nullable: true,
+          },
+        },
+        required: ["name"],
+      },
+      description: "List of ingredients with structured quantities.",
     },
     steps: {
       type: Type.ARRAY,
@@ -38,12 +110,35 @@ const recipeSchema: Schema = {
             description: "Optional helpful tip, technique explanation, or safety reminder.",
             nullable: true,
           },
+          id: {
+            type: Type.STRING,
+            description: "Short unique id for this step: 's1' for the first, 's2' for the second and so on.",
+          },
+          dependsOn: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Ids of earlier steps whose results this step needs. Empty if it can start right away, e.g. chopping vegetables while water heats.",
+          },
+          activeMinutes: {
+            type: Type.INTEGER,
+            description: "Minutes of hands-on work, when the cook can't do anything else.",
+          },
+          passiveMinutes: {
+            type: Type.INTEGER,
+            description: "Minutes the step runs unattended (simmering, baking, chilling, resting). 0 if none.",
+          },
+          equipment: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Pots, pans and appliances the step uses, e.g. 'large pot', 'oven'.",
+            nullable: true,
+          },
         },
-        required: ["instruction", "type"],
+        required: ["instruction", "type", "id", "dependsOn", "activeMinutes", "passiveMinutes"],
       },
     },
   },
-  required: ["title", "description", "ingredients", "steps"],
+  required: ["title", "description", "servings", "ingredients", "steps"],
 };
 
 const leftoverSchema: Schema = {
@@ -59,95 +154,347 @@ const leftoverSchema: Schema = {
   }
 };
 
+const mealPlanSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      day: {
+        type: Type.INTEGER,
+        description: "Day of the week the meal is for, 0 for Monday through 6 for Sunday.",
+      },
+      slot: {
+        type: Type.STRING,
+        enum: ["breakfast", "lunch", "dinner"],
+      },
+      recipe: recipeSchema,
+    },
+    required: ["day", "slot", "recipe"],
+  },
+};
+
+const nutritionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    calories: { type: Type.NUMBER, description: "Energy per serving in kcal." },
+    protein: { type: Type.NUMBER, description: "Grams per serving." },
+    fat: { type: Type.NUMBER, description: "Grams per serving." },
+    carbs: { type: Type.NUMBER, description: "Grams per serving." },
+    fiber: { type: Type.NUMBER, description: "Grams per serving." },
+    sodium: { type: Type.NUMBER, description: "Milligrams per serving." },
+  },
+  required: ["calories", "protein", "fat", "carbs", "fiber", "sodium"],
+};
+
 // Helper for delay
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// Helper to handle API calls with retry for rate limits
+// Finish reasons that mean the model refused rather than ran out of tokens
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY']);
+
+// Safety refusals come back as successful responses, so surface them as errors
+const ensureNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new ServiceError('safety-block', `Prompt blocked: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.has(String(finishReason))) {
+    throw new ServiceError('safety-block', `Response blocked: ${finishReason}`);
+  }
+};
+
+// Helper to handle API calls with retry for rate limits. Always rejects with a ServiceError.
 async function withRetry<T>(fn: () => Promise<T>, retries = 3, baseDelay = 2000): Promise<T> {
   for (let i = 0; i < retries; i++) {
     try {
       return await fn();
-    } catch (error: any) {
-      const isRateLimit = error?.status === 429 || 
-                          error?.code === 429 || 
-                          (error?.message && error.message.includes('429')) ||
-                          (error?.message && error.message.includes('quota'));
-      
-      if (isRateLimit && i < retries - 1) {
+    } catch (error) {
+      // Cancelled by the caller: don't retry and don't dress it up as a failure
+      if (isAbortError(error)) throw error;
+      const serviceError = toServiceError(error);
+
+      if (serviceError.kind === 'rate-limit' && i < retries - 1) {
         const waitTime = baseDelay * Math.pow(2, i); // Exponential backoff
         console.warn(`Rate limit hit. Retrying in ${waitTime}ms...`);
         await delay(waitTime);
         continue;
       }
-      throw error;
+      throw serviceError;
     }
   }
-  throw new Error("Max retries exceeded");
+  throw new ServiceError('rate-limit', "Max retries exceeded");
 }
 
-export const generateRecipe = async (query: string): Promise<Recipe> => {
-  const model = "gemini-2.5-flash";
-  const prompt = `Create a detailed cooking recipe based on this request: "${query}". 
-  Classify each step accurately as PREP, COOK, or TIMING. 
-  Include helpful, short insights for complex steps.
-  
-  CRITICAL INSTRUCTION FORMATTING:
+// How many times a recipe request re-asks the model after its output fails validation
+const MAX_REPAIR_ATTEMPTS = 1;
+
+const INGREDIENT_MARKUP_RULES = `CRITICAL INSTRUCTION FORMATTING:
   When an ingredient is mentioned in a step, you MUST wrap it in double angle brackets like this: <<Ingredient Name|Specific Quantity For This Step>>.
   If the recipe calls for "1 cup sugar" but this step only uses half, write: "Add <<sugar|1/2 cup>>...".
   Example: "Whisk the <<eggs|2>> and <<vanilla|1 tsp>> together."
-  `;
+  Start each quantity with a number ("1/2 cup", "2", "50g") so it can be rescaled for a different number of servings.`;
 
-  return withRetry(async () => {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: recipeSchema,
-        temperature: 0.3,
-      },
+const STEP_GRAPH_RULES = `STEP TIMING:
+  List only real dependencies in dependsOn so independent work can happen in parallel; a step may only depend on steps listed before it.
+  Start long unattended steps (boiling water, simmering, baking, marinating) as early as their dependencies allow.`;
+
+const buildRepairPrompt = (originalPrompt: string, previousText: string, errors: string[]) => `${originalPrompt}
+
+  Your previous response could not be used because:
+  ${errors.map(e => `- ${e}`).join('\n  ')}
+
+  Previous response:
+  ${previousText}
+
+  Return the corrected recipe as JSON, fixing every problem listed above.`;
+
+// Streams a recipe for the prompt, validating the result and re-asking the
+// model with its own output when that fails
+const streamRecipe = async (
+  prompt: string,
+  { signal, onProgress }: RecipeRequestOptions,
+  repairAttempts: number
+): Promise<Recipe> => {
+  const model = "gemini-2.5-flash";
+  let contents = prompt;
+  for (let attempt = 0; ; attempt++) {
+    const text = await withRetry(async () => {
+      const stream = await getClient().models.generateContentStream({
+        model,
+        contents,
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: recipeSchema,
+          temperature: 0.3,
+        },
+      });
+
+      // Render the recipe as it is written instead of after the last token
+      let streamed = '';
+      for await (const chunk of stream) {
+        ensureNotBlocked(chunk);
+        if (!chunk.text) continue;
+        streamed += chunk.text;
+        onProgress?.(previewRecipe(parsePartialJson(streamed)));
+      }
+
+      if (!streamed) {
+        throw new ServiceError('malformed-output', "No content generated");
+      }
+      return streamed;
     });
 
-    const text = response.text;
-    if (!text) {
-      throw new Error("No content generated");
+    try {
+      const { value, repairs } = validateRecipe(parseModelJson(text));
+      if (repairs.length > 0) {
+        console.warn("Repaired generated recipe:", repairs);
+      }
+      return value;
+    } catch (error) {
+      if (!(error instanceof RecipeValidationError)) throw error;
+      if (attempt >= repairAttempts) {
+        throw toServiceError(new RecipeValidationError(error.errors, text));
+      }
+      // Give the model its own output and the problems so it can correct them
+      console.warn("Generated recipe failed validation, asking the model to fix it:", error.errors);
+      contents = buildRepairPrompt(prompt, text, error.errors);
     }
+  }
+};
+
+export const generateRecipe = (
+  query: string,
+  options: RecipeRequestOptions = {},
+  repairAttempts = MAX_REPAIR_ATTEMPTS
+): Promise<Recipe> => {
+  const prompt = `Create a detailed cooking recipe based on this request: "${query}". 
+  Classify each step accurately as PREP, COOK, or TIMING. 
+  Include helpful, short insights for complex steps.
+  ${describeDietaryProfile(options.profile ?? EMPTY_PROFILE)}
+  ${describeMacroTargets(options.targets)}
+  ${STEP_GRAPH_RULES}
+  ${INGREDIENT_MARKUP_RULES}
+  `;
+  return streamRecipe(prompt, options, repairAttempts);
+};
 
-    return JSON.parse(text) as Recipe;
-  });
+export const refineRecipe = (
+  recipe: Recipe,
+  instruction: string,
+  options: RecipeRequestOptions = {},
+  repairAttempts = MAX_REPAIR_ATTEMPTS
+): Promise<Recipe> => {
+  const prompt = `Here is a cooking recipe as JSON:
+  ${JSON.stringify(recipe)}
+
+  Modify it according to this request: "${instruction}".
+  Change only what the request requires. Keep the servings, the order and wording of unaffected steps, and every ingredient that doesn't need to change exactly as they are.
+  Adjust the title and description only if the dish has meaningfully changed.
+  Classify each step accurately as PREP, COOK, or TIMING.
+  ${describeDietaryProfile(options.profile ?? EMPTY_PROFILE)}
+  ${describeMacroTargets(options.targets)}
+  ${STEP_GRAPH_RULES}
+  ${INGREDIENT_MARKUP_RULES}
+  `;
+  return streamRecipe(prompt, options, repairAttempts);
 };
 
-export const generateLeftoverSuggestions = async (ingredients: string[], currentTitle: string): Promise<LeftoverSuggestion[]> => {
+export const structureRecipe = (
+  text: string,
+  options: RecipeRequestOptions = {},
+  repairAttempts = MAX_REPAIR_ATTEMPTS
+): Promise<Recipe> => {
+  const prompt = `Convert the recipe between the --- lines into JSON. It was written for people and may be plain text, Markdown or part of a web page.
+  Keep the author's title, servings, ingredients, quantities and steps. Do not invent, drop or change ingredients or steps; only split a step when it clearly describes separate actions.
+  Turn the author's tips and notes into short insights on the steps they belong to.
+  Classify each step accurately as PREP, COOK, or TIMING.
+  ${STEP_GRAPH_RULES}
+  ${INGREDIENT_MARKUP_RULES}
+
+  ---
+  ${text}
+  ---
+  `;
+  return streamRecipe(prompt, options, repairAttempts);
+};
+
+export const generateLeftoverSuggestions = async (
+  ingredients: Ingredient[],
+  currentTitle: string,
+  { signal, profile = EMPTY_PROFILE, mode = 'leftovers', expiring = [] }: LeftoverRequestOptions = {}
+): Promise<LeftoverSuggestion[]> => {
   const model = "gemini-2.5-flash";
-  const prompt = `I just made "${currentTitle}" using these ingredients: ${ingredients.join(', ')}.
+  const onHand = ingredients.map(formatIngredient).join(', ');
+  const urgent = expiring.length > 0
+    ? `These are about to expire, so use as many of them as possible: ${expiring.join(', ')}.`
+    : '';
+  const prompt = mode === 'pantry'
+    ? `My pantry and fridge currently hold: ${onHand}.
+  ${urgent}
+  Suggest 3 distinct, simple dishes I could cook mostly from what I have, needing few or no extra purchases.
+  In matchingIngredients, list the on-hand ingredients each dish uses, spelled exactly as above.
+  ${describeDietaryProfile(profile)}`
+    : `I just made "${currentTitle}" using these ingredients: ${onHand}.
   Suggest 3 distinct, creative, and simple recipes I could make with the potential leftovers or remaining ingredients from this list.
-  Focus on minimizing food waste.`;
+  Focus on minimizing food waste.
+  ${urgent}
+  ${describeDietaryProfile(profile)}`;
 
   try {
     return await withRetry(async () => {
-        const response = await ai.models.generateContent({
+        const response = await getClient().models.generateContent({
             model,
             contents: prompt,
             config: {
+            abortSignal: signal,
             responseMimeType: "application/json",
             responseSchema: leftoverSchema,
             temperature: 0.5,
             },
         });
+        ensureNotBlocked(response);
 
         const text = response.text;
         if (!text) return [];
 
-        return JSON.parse(text) as LeftoverSuggestion[];
+        const { value, repairs } = validateLeftoverSuggestions(parseModelJson(text));
+        if (repairs.length > 0) {
+          console.warn("Repaired leftover suggestions:", repairs);
+        }
+        return value;
     });
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Failed to generate leftovers:", error);
-    return [];
+    throw toServiceError(error);
   }
 };
 
-export const generateRecipeVisual = async (title: string, description: string): Promise<string | null> => {
-  const model = "gemini-2.5-flash-image";
+export const generateMealPlan = async (
+  request: string,
+  { signal, profile = EMPTY_PROFILE }: GenerationOptions = {}
+): Promise<MealPlanEntry[]> => {
+  const model = "gemini-2.5-flash";
+  const prompt = `Plan a week of home-cooked meals from this request: "${request}".
+  Only plan the meals that were asked for; if the request doesn't say, plan 5 dinners.
+  Spread the meals across the week, vary the cuisines and main ingredients, and let dishes share ingredients where it saves shopping.
+  Give every meal a complete recipe. Classify each step accurately as PREP, COOK, or TIMING.
+  ${describeDietaryProfile(profile)}
+  ${STEP_GRAPH_RULES}
+  ${INGREDIENT_MARKUP_RULES}`;
+
+  try {
+    return await withRetry(async () => {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: mealPlanSchema,
+          temperature: 0.6,
+        },
+      });
+      ensureNotBlocked(response);
+
+      const text = response.text;
+      if (!text) throw new ServiceError('malformed-output', "No content generated");
+
+      const { value, repairs } = validateMealPlan(parseModelJson(text));
+      if (repairs.length > 0) {
+        console.warn("Repaired meal plan:", repairs);
+      }
+      return value;
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Failed to generate meal plan:", error);
+    throw toServiceError(error);
+  }
+};
+
+export const estimateNutrition = async (recipe: Recipe, { signal }: RequestOptions = {}): Promise<Nutrients> => {
+  const model = "gemini-2.5-flash";
+  const ingredients = recipe.ingredients.map(formatIngredient).join('\n');
+  const prompt = `Estimate the nutrition of one serving of "${recipe.title}", which serves ${recipe.servings} and uses:
+  ${ingredients}
+  Base the estimate on typical values for these ingredients as they would be bought, assuming the whole amount of each is eaten.
+  Ingredients without an amount are used sparingly; count a typical small amount.`;
+
+  try {
+    return await withRetry(async () => {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: nutritionSchema,
+          temperature: 0.1,
+        },
+      });
+      ensureNotBlocked(response);
+
+      const text = response.text;
+      if (!text) throw new ServiceError('malformed-output', "No content generated");
+
+      const { value, repairs } = validateNutrients(parseModelJson(text));
+      if (repairs.length > 0) {
+        console.warn("Repaired nutrition estimate:", repairs);
+      }
+      return value;
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Failed to estimate nutrition:", error);
+    throw toServiceError(error);
+  }
+};
+
+export const generateRecipeVisual = async (title: string, description: string, options: RequestOptions = {}): Promise<string | null> => {
+  const model = IMAGE_MODEL;
   const prompt = `A minimalistic, artistic, shape-based vector style illustration of ${title}. 
   Description: ${description}. 
   Style: Flat design, abstract food art, appetizing colors, creamy background. 
@@ -155,10 +502,12 @@ export const generateRecipeVisual = async (title: string, description: string):
 
   try {
     return await withRetry(async () => {
-        const response = await ai.models.generateContent({
+        const response = await getClient().models.generateContent({
         model,
         contents: prompt,
+        config: { abortSignal: options.signal },
         });
+        ensureNotBlocked(response);
 
         for (const part of response.candidates?.[0]?.content?.parts || []) {
         if (part.inlineData) {
@@ -169,13 +518,14 @@ export const generateRecipeVisual = async (title: string, description: string):
         return null;
     });
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Failed to generate image:", error);
-    return null; // Fail gracefully for image
+    throw toServiceError(error);
   }
 };
 
-export const generateStepVisual = async (instruction: string, previousInstructions: string[] = []): Promise<string | null> => {
-    const model = "gemini-2.5-flash-image";
+export const generateStepVisual = async (instruction: string, previousInstructions: string[] = [], options: RequestOptions = {}): Promise<string | null> => {
+    const model = IMAGE_MODEL;
     
     // Clean the instruction by removing the <<ingredient|quantity>> markup for the image prompt
     const cleanText = (text: string) => text.replace(/<<([^|]+)\|[^>]+>>/g, '$1');
@@ -204,10 +554,12 @@ export const generateStepVisual = async (instruction: string, previousInstructio
   
     try {
       return await withRetry(async () => {
-        const response = await ai.models.generateContent({
+        const response = await getClient().models.generateContent({
             model,
             contents: prompt,
+            config: { abortSignal: options.signal },
         });
+        ensureNotBlocked(response);
     
         for (const part of response.candidates?.[0]?.content?.parts || []) {
             if (part.inlineData) {
@@ -218,67 +570,25 @@ export const generateStepVisual = async (instruction: string, previousInstructio
         return null;
       });
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error("Failed to generate step image:", error);
-      return null;
+      throw toServiceError(error);
     }
   };
 
-// --- TTS HELPER FUNCTIONS ---
-
-// Helper to convert raw PCM to WAV so it can be played by standard HTML Audio elements
-function pcmToWav(pcmData: Uint8Array, sampleRate: number): Blob {
-    const numChannels = 1;
-    const bitsPerSample = 16;
-    const byteRate = (sampleRate * numChannels * bitsPerSample) / 8;
-    const blockAlign = (numChannels * bitsPerSample) / 8;
-    const dataSize = pcmData.length;
-    const buffer = new ArrayBuffer(44 + dataSize);
-    const view = new DataView(buffer);
-  
-    // RIFF chunk descriptor
-    writeString(view, 0, 'RIFF');
-    view.setUint32(4, 36 + dataSize, true);
-    writeString(view, 8, 'WAVE');
-  
-    // fmt sub-chunk
-    writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true); // PCM format
-    view.setUint16(22, numChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, byteRate, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, bitsPerSample, true);
-  
-    // data sub-chunk
-    writeString(view, 36, 'data');
-    view.setUint32(40, dataSize, true);
-  
-    // Write PCM data
-    const pcmBytes = new Uint8Array(buffer, 44);
-    pcmBytes.set(pcmData);
-  
-    return new Blob([buffer], { type: 'audio/wav' });
-  }
-  
-  function writeString(view: DataView, offset: number, string: string) {
-    for (let i = 0; i < string.length; i++) {
-      view.setUint8(offset + i, string.charCodeAt(i));
-    }
-  }
-
-  export const generateStepAudio = async (text: string): Promise<string | null> => {
+  export const generateStepAudio = async (text: string, options: RequestOptions = {}): Promise<string | null> => {
     // 1. Clean text for speech: "<<butter|50g>>" becomes "50g of butter" for natural reading
-    const spokenText = text.replace(/<<([^|]+)\|([^>]+)>>/g, '$2 of $1');
+    const spokenText = toSpokenText(text);
     
     try {
         return await withRetry(async () => {
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash-preview-tts",
+            const response = await getClient().models.generateContent({
+                model: TTS_MODEL,
                 contents: {
                     parts: [{ text: spokenText }]
                 },
                 config: {
+                    abortSignal: options.signal,
                     responseModalities: [Modality.AUDIO],
                     speechConfig: {
                         voiceConfig: {
@@ -287,6 +597,7 @@ function pcmToWav(pcmData: Uint8Array, sampleRate: number): Blob {
                     },
                 },
             });
+            ensureNotBlocked(response);
     
             const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
             
@@ -306,7 +617,23 @@ function pcmToWav(pcmData: Uint8Array, sampleRate: number): Blob {
             return null;
         });
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error("Failed to generate audio:", error);
-        return null;
+        throw toServiceError(error);
     }
-  };
\ No newline at end of file
+  };
+
+export const geminiProvider: RecipeProvider = {
+  name: 'gemini',
+  requiresNetwork: true,
+  mediaModels: { image: IMAGE_MODEL, audio: TTS_MODEL },
+  generateRecipe,
+  refineRecipe,
+  structureRecipe,
+  generateLeftoverSuggestions,
+  generateMealPlan,
+  estimateNutrition,
+  generateRecipeVisual,
+  generateStepVisual,
+  generateStepAudio,
+};
@@ -0,0 +1,202 @@
+import { STORES, withStore, withStores } from './db';
+import { loadPreference, savePreference } from './preferencesService';
+import { sha256Hex } from '../utils/hash';
+
+// Generated images and narration, stored in IndexedDB and keyed by a hash of the
+// model and prompt inputs so identical requests are never paid for twice.
+
+export type MediaKind = 'dish-visual' | 'step-visual' | 'step-audio';
+
+// What listings and eviction need; the value itself lives in the media store
+export interface MediaCacheEntry {
+  key: string;
+  kind: MediaKind;
+  size: number;
+  // Short human-readable description shown in settings
+  label: string;
+  createdAt: number;
+  lastAccessedAt: number;
+  // Saved recipes kept available offline that use this entry; pinned entries are never evicted
+  pinnedBy?: string[];
+}
+
+interface CachedMedia extends MediaCacheEntry {
+  // Images are kept as data URLs so they can be saved with recipes; audio as a Blob
+  value: string | Blob;
+}
+
+export const MEDIA_KIND_LABELS: Record<MediaKind, string> = {
+  'dish-visual': 'Dish previews',
+  'step-visual': 'Step images',
+  'step-audio': 'Narration',
+};
+
+const LIMIT_PREFERENCE_KEY = 'media-cache-limit-mb';
+export const DEFAULT_CACHE_LIMIT_MB = 100;
+export const CACHE_LIMIT_OPTIONS_MB = [25, 50, 100, 250, 500];
+
+export const getMediaCacheLimitMb = (): number =>
+  loadPreference<number>(LIMIT_PREFERENCE_KEY, DEFAULT_CACHE_LIMIT_MB);
+
+export const setMediaCacheLimitMb = async (limitMb: number): Promise<void> => {
+  savePreference(LIMIT_PREFERENCE_KEY, limitMb);
+  await enforceMediaCacheLimit();
+};
+
+export const mediaCacheKey = (kind: MediaKind, inputs: unknown[]): Promise<string> =>
+  sha256Hex(JSON.stringify([kind, ...inputs]));
+
+const sizeOf = (value: string | Blob) => (typeof value === 'string' ? value.length : value.size);
+
+export const listCachedMedia = async (): Promise<MediaCacheEntry[]> => {
+  const entries = await withStore<MediaCacheEntry[]>(STORES.mediaMeta, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+};
+
+// One object URL per cached Blob, shared by every caller and revoked when the
+// entry leaves the cache, so replaying narration doesn't mint a new URL each time
+const objectUrls = new Map<string, string>();
+
+const urlFor = (key: string, value: string | Blob): string => {
+  if (typeof value === 'string') return value;
+  let url = objectUrls.get(key);
+  if (!url) {
+    url = URL.createObjectURL(value);
+    objectUrls.set(key, url);
+  }
+  return url;
+};
+
+const revokeUrl = (key: string) => {
+  const url = objectUrls.get(key);
+  if (!url) return;
+  URL.revokeObjectURL(url);
+  objectUrls.delete(key);
+};
+
+// For callers done with a URL they got back: frees it unless the cache is sharing it
+export const releaseMediaUrl = (url: string | null) => {
+  if (url?.startsWith('blob:') && ![...objectUrls.values()].includes(url)) URL.revokeObjectURL(url);
+};
+
+export const getCachedMedia = async (key: string): Promise<CachedMedia | null> => {
+  const [meta, stored] = await Promise.all([
+    withStore<MediaCacheEntry | undefined>(STORES.mediaMeta, 'readonly', store => store.get(key)),
+    withStore<{ value: string | Blob } | undefined>(STORES.media, 'readonly', store => store.get(key)),
+  ]);
+  if (!meta || !stored) return null;
+  // Touch for LRU; losing this write is harmless
+  const touched = { ...meta, lastAccessedAt: Date.now() };
+  withStore(STORES.mediaMeta, 'readwrite', store => store.put(touched)).catch(() => {});
+  return { ...touched, value: stored.value };
+};
+
+export const deleteCachedMedia = async (key: string): Promise<void> => {
+  await withStores([STORES.media, STORES.mediaMeta], 'readwrite', stores => {
+    stores[STORES.media].delete(key);
+    return stores[STORES.mediaMeta].delete(key);
+  });
+  revokeUrl(key);
+};
+
+export const clearMediaCache = async (kind?: MediaKind): Promise<void> => {
+  if (!kind) {
+    await withStores([STORES.media, STORES.mediaMeta], 'readwrite', stores => {
+      stores[STORES.media].clear();
+      return stores[STORES.mediaMeta].clear();
+    });
+    [...objectUrls.keys()].forEach(revokeUrl);
+    return;
+  }
+  const entries = await listCachedMedia();
+  for (const entry of entries.filter(e => e.kind === kind)) {
+    await deleteCachedMedia(entry.key);
+  }
+};
+
+// Evicts least recently used entries until the cache fits within the limit,
+// skipping media pinned for offline recipes
+export const enforceMediaCacheLimit = async (): Promise<void> => {
+  const limitBytes = getMediaCacheLimitMb() * 1024 * 1024;
+  const entries = await listCachedMedia();
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+
+  for (let i = entries.length - 1; i >= 0 && total > limitBytes; i--) {
+    if (entries[i].pinnedBy?.length) continue;
+    await deleteCachedMedia(entries[i].key);
+    total -= entries[i].size;
+  }
+};
+
+export const putCachedMedia = async (
+  key: string,
+  kind: MediaKind,
+  value: string | Blob,
+  label: string,
+  pinnedBy?: string[]
+): Promise<void> => {
+  const now = Date.now();
+  const entry: MediaCacheEntry = { key, kind, size: sizeOf(value), label, createdAt: now, lastAccessedAt: now };
+  if (pinnedBy?.length) entry.pinnedBy = pinnedBy;
+  await withStores([STORES.media, STORES.mediaMeta], 'readwrite', stores => {
+    stores[STORES.media].put({ key, value });
+    return stores[STORES.mediaMeta].put(entry);
+  });
+  await enforceMediaCacheLimit();
+};
+
+const pinEntry = ({ value, ...entry }: CachedMedia, owner: string): Promise<unknown> =>
+  entry.pinnedBy?.includes(owner)
+    ? Promise.resolve()
+    : withStore(STORES.mediaMeta, 'readwrite', store => store.put({ ...entry, pinnedBy: [...(entry.pinnedBy ?? []), owner] }));
+
+// Releases everything pinned for a saved recipe, e.g. when it is deleted
+export const unpinMedia = async (owner: string): Promise<void> => {
+  const entries = await listCachedMedia();
+  for (const entry of entries.filter(e => e.pinnedBy?.includes(owner))) {
+    const pinnedBy = entry.pinnedBy!.filter(id => id !== owner);
+    const updated = { ...entry, pinnedBy };
+    if (pinnedBy.length === 0) delete updated.pinnedBy;
+    await withStore(STORES.mediaMeta, 'readwrite', store => store.put(updated));
+  }
+  await enforceMediaCacheLimit();
+};
+
+// Providers hand back audio as object URLs, which die with the page; keep the bytes
+const toStorable = async (url: string): Promise<string | Blob> =>
+  url.startsWith('blob:') ? (await fetch(url)).blob() : url;
+
+// Returns the cached result for these inputs, or produces, stores and returns it.
+// Storage failures (private browsing, quota) never block the request itself,
+// except with `pinFor`: keeping media for a saved recipe to use offline is the
+// point of that request, so it only resolves once the entry is stored.
+export const withMediaCache = async (
+  kind: MediaKind,
+  inputs: unknown[],
+  label: string,
+  produce: () => Promise<string | null>,
+  pinFor?: string
+): Promise<string | null> => {
+  let key: string | null = null;
+  try {
+    key = await mediaCacheKey(kind, inputs);
+    const hit = await getCachedMedia(key);
+    if (hit) {
+      if (pinFor) await pinEntry(hit, pinFor);
+      return urlFor(key, hit.value);
+    }
+  } catch (error) {
+    if (pinFor) throw error;
+    console.warn("Media cache lookup failed:", error);
+  }
+
+  const url = await produce();
+
+  if (url && key) {
+    const cacheKey = key;
+    const stored = toStorable(url).then(value => putCachedMedia(cacheKey, kind, value, label, pinFor ? [pinFor] : undefined));
+    if (pinFor) await stored;
+    else stored.catch(error => console.warn("Failed to cache media:", error));
+  }
+  return url;
+};
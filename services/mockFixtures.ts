@@ -0,0 +1,233 @@
+import { Recipe, StepType, LeftoverSuggestion } from '../types';
+
+// Hand-written recipes served by the offline provider. Keep them realistic:
+// they exercise ingredient groups, ranges, optional items and every step type.
+export const FIXTURE_RECIPES: Recipe[] = [
+  {
+    title: 'Creamy Mushroom Pasta',
+    description: 'Silky garlic-parmesan sauce clinging to tagliatelle and golden mushrooms.',
+    servings: 4,
+    ingredients: [
+      { name: 'tagliatelle', quantity: 400, unit: 'g' },
+      { name: 'cremini mushrooms', quantity: 300, unit: 'g', preparation: 'sliced' },
+      { name: 'butter', quantity: 2, unit: 'tbsp' },
+      { name: 'garlic', quantity: 2, quantityMax: 3, unit: 'clove', preparation: 'minced' },
+      { name: 'heavy cream', quantity: 1, unit: 'cup' },
+      { name: 'grated parmesan', quantity: 1 / 2, unit: 'cup' },
+      { name: 'salt', preparation: 'to taste' },
+      { name: 'fresh parsley', quantity: 2, unit: 'tbsp', preparation: 'chopped', optional: true },
+    ],
+    steps: [
+      {
+        instruction: 'Bring a large pot of salted water to a boil and cook the <<tagliatelle|400g>> until al dente.',
+        type: StepType.COOK,
+        insight: 'Save a mug of pasta water before draining; the starch helps the sauce emulsify.',
+        id: 's1',
+        dependsOn: [],
+        activeMinutes: 5,
+        passiveMinutes: 12,
+        equipment: ['large pot'],
+      },
+      {
+        instruction: 'Slice the <<cremini mushrooms|300g>> and mince the <<garlic|2-3 cloves>>.',
+        type: StepType.PREP,
+        id: 's2',
+        dependsOn: [],
+        activeMinutes: 8,
+        passiveMinutes: 0,
+      },
+      {
+        instruction: 'Melt <<butter|2 tbsp>> in a wide pan and fry the <<mushrooms|300g>> until deeply browned.',
+        type: StepType.COOK,
+        insight: "Don't stir too often; contact with the pan is what builds colour.",
+        id: 's3',
+        dependsOn: ['s2'],
+        activeMinutes: 8,
+        passiveMinutes: 0,
+        equipment: ['wide pan'],
+      },
+      {
+        instruction: 'Add the <<garlic|2-3 cloves>> and cook for 1 minute until fragrant.',
+        type: StepType.TIMING,
+        id: 's4',
+        dependsOn: ['s3'],
+        activeMinutes: 1,
+        passiveMinutes: 0,
+        equipment: ['wide pan'],
+      },
+      {
+        instruction: 'Pour in the <<heavy cream|1 cup>>, simmer for 3 minutes, then stir in the <<parmesan|1/2 cup>>.',
+        type: StepType.COOK,
+        id: 's5',
+        dependsOn: ['s4'],
+        activeMinutes: 2,
+        passiveMinutes: 3,
+        equipment: ['wide pan'],
+      },
+      {
+        instruction: 'Toss the pasta through the sauce, loosen with pasta water and finish with <<parsley|2 tbsp>>.',
+        type: StepType.PREP,
+        id: 's6',
+        dependsOn: ['s1', 's5'],
+        activeMinutes: 2,
+        passiveMinutes: 0,
+        equipment: ['wide pan'],
+      },
+    ],
+  },
+  {
+    title: 'Weeknight Chickpea Curry',
+    description: 'A fragrant, vegan coconut curry ready in thirty minutes.',
+    servings: 4,
+    ingredients: [
+      { name: 'vegetable oil', quantity: 1, unit: 'tbsp' },
+      { name: 'onion', quantity: 1, preparation: 'finely chopped' },
+      { name: 'ginger', quantity: 1, unit: 'tbsp', preparation: 'grated' },
+      { name: 'curry powder', quantity: 2, unit: 'tbsp', group: 'spices' },
+      { name: 'ground cumin', quantity: 1, unit: 'tsp', group: 'spices' },
+      { name: 'chickpeas', quantity: 2, unit: 'can', preparation: 'drained' },
+      { name: 'coconut milk', quantity: 400, unit: 'ml' },
+      { name: 'baby spinach', quantity: 2, unit: 'cup' },
+      { name: 'cooked rice', preparation: 'to serve', optional: true },
+    ],
+    steps: [
+      {
+        instruction: 'Finely chop the <<onion|1>> and grate the <<ginger|1 tbsp>>.',
+        type: StepType.PREP,
+        id: 's1',
+        dependsOn: [],
+        activeMinutes: 5,
+        passiveMinutes: 0,
+      },
+      {
+        instruction: 'Heat the <<vegetable oil|1 tbsp>> and soften the <<onion|1>> for 5 minutes.',
+        type: StepType.COOK,
+        id: 's2',
+        dependsOn: ['s1'],
+        activeMinutes: 5,
+        passiveMinutes: 0,
+        equipment: ['large pan'],
+      },
+      {
+        instruction: 'Stir in the <<ginger|1 tbsp>>, <<curry powder|2 tbsp>> and <<ground cumin|1 tsp>> and toast for 1 minute.',
+        type: StepType.COOK,
+        insight: 'Blooming spices in oil unlocks their flavour.',
+        id: 's3',
+        dependsOn: ['s2'],
+        activeMinutes: 1,
+        passiveMinutes: 0,
+        equipment: ['large pan'],
+      },
+      {
+        instruction: 'Add the <<chickpeas|2 cans>> and <<coconut milk|400ml>> and simmer for 15 minutes.',
+        type: StepType.TIMING,
+        id: 's4',
+        dependsOn: ['s3'],
+        activeMinutes: 2,
+        passiveMinutes: 15,
+        equipment: ['large pan'],
+      },
+      {
+        instruction: 'Wilt in the <<baby spinach|2 cups>> and season to taste.',
+        type: StepType.COOK,
+        id: 's5',
+        dependsOn: ['s4'],
+        activeMinutes: 2,
+        passiveMinutes: 0,
+        equipment: ['large pan'],
+      },
+    ],
+  },
+  {
+    title: 'Three-Ingredient Chocolate Mousse',
+    description: 'Airy, intense chocolate mousse with nothing to hide.',
+    servings: 4,
+    ingredients: [
+      { name: 'dark chocolate', quantity: 150, unit: 'g', preparation: 'chopped' },
+      { name: 'eggs', quantity: 4, preparation: 'separated' },
+      { name: 'sugar', quantity: 2, unit: 'tbsp' },
+    ],
+    steps: [
+      {
+        instruction: 'Melt the <<dark chocolate|150g>> over a pan of barely simmering water and let it cool slightly.',
+        type: StepType.COOK,
+        id: 's1',
+        dependsOn: [],
+        activeMinutes: 5,
+        passiveMinutes: 10,
+        equipment: ['saucepan', 'heatproof bowl'],
+      },
+      {
+        instruction: 'Whisk the <<egg whites|4>> to soft peaks, then whisk in the <<sugar|2 tbsp>> until glossy.',
+        type: StepType.PREP,
+        id: 's2',
+        dependsOn: [],
+        activeMinutes: 6,
+        passiveMinutes: 0,
+        equipment: ['whisk'],
+      },
+      {
+        instruction: 'Beat the <<egg yolks|4>> into the chocolate, then gently fold in the whites in three additions.',
+        type: StepType.PREP,
+        insight: 'Fold with a spatula in a figure-eight to keep the air in.',
+        id: 's3',
+        dependsOn: ['s1', 's2'],
+        activeMinutes: 5,
+        passiveMinutes: 0,
+      },
+      {
+        instruction: 'Spoon into glasses and chill for at least 2 hours.',
+        type: StepType.TIMING,
+        id: 's4',
+        dependsOn: ['s3'],
+        activeMinutes: 3,
+        passiveMinutes: 120,
+        equipment: ['fridge'],
+      },
+    ],
+  },
+];
+
+export const FIXTURE_LEFTOVERS: LeftoverSuggestion[] = [
+  {
+    title: 'Leftover Frittata',
+    description: 'Whisk eggs with whatever is left and bake until just set.',
+    matchingIngredients: ['eggs', 'parmesan', 'spinach'],
+  },
+  {
+    title: 'Fridge-Clearing Fried Rice',
+    description: 'Day-old rice fried hard with odds and ends and a splash of soy.',
+    matchingIngredients: ['rice', 'onion', 'garlic'],
+  },
+  {
+    title: 'Creamy Soup',
+    description: 'Simmer spare vegetables in stock and blend with a little cream.',
+    matchingIngredients: ['mushrooms', 'cream', 'onion'],
+  },
+];
+
+// Ingredient swaps the offline provider applies for common refinement requests
+export const FIXTURE_REFINEMENTS: { pattern: RegExp; swaps: [string, string][] }[] = [
+  {
+    pattern: /vegan|dairy[- ]free|plant[- ]based/i,
+    swaps: [
+      ['heavy cream', 'oat cream'],
+      ['butter', 'olive oil'],
+      ['parmesan', 'nutritional yeast'],
+      ['egg whites', 'aquafaba'],
+      ['egg yolks', 'silken tofu'],
+      ['eggs', 'aquafaba'],
+    ],
+  },
+  {
+    pattern: /gluten[- ]free/i,
+    swaps: [['tagliatelle', 'gluten-free tagliatelle']],
+  },
+  {
+    pattern: /lighter|low[- ]fat|healthier/i,
+    swaps: [
+      ['heavy cream', 'half-and-half'],
+      ['coconut milk', 'light coconut milk'],
+    ],
+  },
+];
@@ -0,0 +1,197 @@
+import { Recipe, LeftoverSuggestion, Ingredient, MealPlanEntry, MealSlot, Nutrients } from '../types';
+import { RecipeProvider, RequestOptions, RecipeRequestOptions, GenerationOptions, LeftoverRequestOptions } from './recipeProvider';
+import { FIXTURE_RECIPES, FIXTURE_LEFTOVERS, FIXTURE_REFINEMENTS } from './mockFixtures';
+import { silentWav } from '../utils/audio';
+import { parsePartialJson } from '../utils/partialJson';
+import { previewRecipe } from '../utils/recipeValidation';
+import { importRecipeText } from '../utils/recipeImport';
+import { estimateNutrition } from '../utils/nutrition';
+import { ServiceError, ServiceErrorKind } from './errors';
+import { createAbortError } from './requestScheduler';
+
+interface MockProviderOptions {
+  // Simulated network latency so loading states are visible in demos
+  latencyMs?: number;
+  // Makes every call fail with this kind, for exercising error states offline
+  failWith?: ServiceErrorKind;
+  // How many pieces a recipe is streamed in
+  streamChunks?: number;
+}
+
+// Keywords that route a query to a specific fixture; anything else is hashed
+const FIXTURE_KEYWORDS: [RegExp, number][] = [
+  [/pasta|mushroom|noodle|creamy/i, 0],
+  [/curry|chickpea|vegan|spicy/i, 1],
+  [/chocolate|dessert|mousse|sweet/i, 2],
+];
+
+// Small deterministic string hash (djb2)
+const hashString = (text: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const pickFixture = (query: string): Recipe => {
+  const match = FIXTURE_KEYWORDS.find(([pattern]) => pattern.test(query));
+  const index = match ? match[1] : hashString(query) % FIXTURE_RECIPES.length;
+  return clone(FIXTURE_RECIPES[index]);
+};
+
+const COUNT_WORDS: Record<string, number> = { a: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7 };
+
+// "5 dinners, two lunches" -> how many of each meal; 5 dinners when unspecified
+const requestedMeals = (request: string): [MealSlot, number][] => {
+  const counts = (['breakfast', 'lunch', 'dinner'] as MealSlot[]).flatMap((slot): [MealSlot, number][] => {
+    const match = request.toLowerCase().match(new RegExp(`\\b(\\d+|${Object.keys(COUNT_WORDS).join('|')})\\s+${slot}`));
+    if (!match) return [];
+    const count = COUNT_WORDS[match[1]] ?? Number(match[1]);
+    return [[slot, Math.min(7, Math.max(1, count))]];
+  });
+  return counts.length > 0 ? counts : [['dinner', 5]];
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Applies the fixture ingredient swaps matching the instruction; anything else
+// only gets noted in the description so the change is still visible offline
+const applyRefinement = (recipe: Recipe, instruction: string): Recipe => {
+  const swaps = FIXTURE_REFINEMENTS.filter(r => r.pattern.test(instruction)).flatMap(r => r.swaps);
+  const swap = (text: string) =>
+    swaps.reduce((result, [from, to]) => result.replace(new RegExp(`\\b${escapeRegExp(from)}\\b`, 'gi'), to), text);
+
+  const refined: Recipe = {
+    ...clone(recipe),
+    ingredients: recipe.ingredients.map(i => ({ ...i, name: swap(i.name) })),
+    steps: recipe.steps.map(step => ({ ...step, instruction: swap(step.instruction) })),
+  };
+  const changed = JSON.stringify(refined) !== JSON.stringify(recipe);
+  if (!changed) {
+    refined.description = `${recipe.description} (${instruction.trim()})`;
+  }
+  return refined;
+};
+
+// Abstract flat-style placeholder whose colours are derived from the prompt text
+const placeholderImage = (seed: string, label: string): string => {
+  const hash = hashString(seed);
+  const hue = hash % 360;
+  const accent = (hue + 140) % 360;
+  const cx = 30 + (hash % 40);
+  const cy = 30 + ((hash >> 8) % 40);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid slice">
+<rect width="100" height="100" fill="hsl(${hue},60%,92%)"/>
+<circle cx="${cx}" cy="${cy}" r="28" fill="hsl(${hue},55%,70%)"/>
+<circle cx="${100 - cx}" cy="${100 - cy}" r="16" fill="hsl(${accent},55%,65%)"/>
+<text x="50" y="94" font-family="sans-serif" font-size="5" text-anchor="middle" fill="hsl(${hue},30%,40%)">${label}</text>
+</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+export const createMockProvider = ({ latencyMs = 400, failWith, streamChunks = 12 }: MockProviderOptions = {}): RecipeProvider => {
+  const wait = async (signal?: AbortSignal, ms = latencyMs) => {
+    await new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(createAbortError());
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+      }, { once: true });
+    });
+    if (failWith) {
+      throw new ServiceError(failWith, `Simulated ${failWith} failure`);
+    }
+  };
+
+  return {
+    name: 'mock',
+    requiresNetwork: false,
+    mediaModels: { image: 'mock-image', audio: 'mock-audio' },
+
+    async generateRecipe(query: string, { signal, onProgress }: RecipeRequestOptions = {}): Promise<Recipe> {
+      await wait(signal);
+      const recipe = pickFixture(query);
+      // Replay the fixture as a JSON stream so progressive rendering works offline
+      const json = JSON.stringify(recipe);
+      const chunkSize = Math.ceil(json.length / streamChunks);
+      for (let end = chunkSize; end < json.length; end += chunkSize) {
+        onProgress?.(previewRecipe(parsePartialJson(json.slice(0, end))));
+        await wait(signal, latencyMs / 2);
+      }
+      return recipe;
+    },
+
+    async refineRecipe(recipe: Recipe, instruction: string, { signal, onProgress }: RecipeRequestOptions = {}): Promise<Recipe> {
+      await wait(signal);
+      const refined = applyRefinement(recipe, instruction);
+      onProgress?.(refined);
+      return refined;
+    },
+
+    // Offline there is no model, so this is the local importer behind a delay
+    async structureRecipe(text: string, { signal, onProgress }: RecipeRequestOptions = {}): Promise<Recipe> {
+      await wait(signal);
+      const { recipe } = importRecipeText(text);
+      onProgress?.(recipe);
+      return recipe;
+    },
+
+    async generateLeftoverSuggestions(ingredients: Ingredient[], _title: string, { signal, expiring = [] }: LeftoverRequestOptions = {}): Promise<LeftoverSuggestion[]> {
+      await wait(signal);
+      const names = ingredients.map(i => i.name.toLowerCase());
+      const urgent = expiring.map(e => e.toLowerCase());
+      const urgency = (suggestion: LeftoverSuggestion) =>
+        suggestion.matchingIngredients.filter(m => urgent.some(u => u.includes(m))).length;
+      // Only report matches that are actually on hand, like the real model would,
+      // with dishes that use up expiring items first
+      return clone(FIXTURE_LEFTOVERS)
+        .map(suggestion => {
+          const matching = suggestion.matchingIngredients.filter(m => names.some(n => n.includes(m)));
+          return { ...suggestion, matchingIngredients: matching.length > 0 ? matching : suggestion.matchingIngredients };
+        })
+        .sort((a, b) => urgency(b) - urgency(a));
+    },
+
+    async generateMealPlan(request: string, { signal }: GenerationOptions = {}): Promise<MealPlanEntry[]> {
+      await wait(signal);
+      let next = 0;
+      // Spread each kind of meal evenly over the week, cycling through the fixtures
+      return requestedMeals(request).flatMap(([slot, count]) =>
+        Array.from({ length: count }, (_, i) => ({
+          day: Math.floor((i * 7) / count),
+          slot,
+          recipe: clone(FIXTURE_RECIPES[next++ % FIXTURE_RECIPES.length]),
+        }))
+      );
+    },
+
+    // The bundled table, so the model fallback can be exercised offline
+    async estimateNutrition(recipe: Recipe, { signal }: RequestOptions = {}): Promise<Nutrients> {
+      await wait(signal);
+      return estimateNutrition(recipe).perServing;
+    },
+
+    async generateRecipeVisual(title: string, description: string, { signal }: RequestOptions = {}): Promise<string | null> {
+      await wait(signal);
+      return placeholderImage(`${title}|${description}`, 'offline preview');
+    },
+
+    async generateStepVisual(instruction: string, previousInstructions: string[] = [], { signal }: RequestOptions = {}): Promise<string | null> {
+      await wait(signal);
+      return placeholderImage(instruction, `step ${previousInstructions.length + 1}`);
+    },
+
+    async generateStepAudio(text: string, { signal }: RequestOptions = {}): Promise<string | null> {
+      await wait(signal);
+      // Roughly the time it would take to read the step aloud
+      const words = text.split(/\s+/).filter(Boolean).length;
+      return URL.createObjectURL(silentWav(Math.min(8000, 1000 + words * 300)));
+    },
+  };
+};
+
+export const mockProvider = createMockProvider();
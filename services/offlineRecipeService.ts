@@ -0,0 +1,55 @@
+import { Recipe } from '../types';
+import { generateRecipeVisual, generateStepAudio, generateStepVisual } from './recipeProvider';
+import { releaseMediaUrl, unpinMedia } from './mediaCacheService';
+import { updateSavedRecipe } from './recipeLibraryService';
+import { isAbortError, ServiceError, toServiceError } from './errors';
+
+export interface OfflineProgress {
+  done: number;
+  total: number;
+}
+
+// Fetches the dish visual and every step's visual and narration for a saved
+// recipe and pins them in the media cache, so Cook Mode and the tutorial work
+// without a connection. Narration is keyed on the exact instruction text, so
+// `recipe` must be the version at the yield that will be cooked offline.
+export const keepRecipeOffline = async (
+  id: string,
+  recipe: Recipe,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (progress: OfflineProgress) => void } = {}
+): Promise<void> => {
+  // Media pinned for an earlier version or yield is no longer needed, so the
+  // recipe isn't available offline until everything below is stored
+  await unpinMedia(id);
+  await updateSavedRecipe(id, { offlineServings: undefined });
+
+  const jobs: (() => Promise<string | null>)[] = [
+    () => generateRecipeVisual(recipe.title, recipe.description, { priority: 'background', signal, pinFor: id }),
+    ...recipe.steps.flatMap((step, i) => {
+      const previousInstructions = recipe.steps.slice(0, i).map(s => s.instruction);
+      return [
+        () => generateStepVisual(step.instruction, previousInstructions, { priority: 'background', signal, pinFor: id }),
+        () => generateStepAudio(step.instruction, { priority: 'background', signal, pinFor: id }),
+      ];
+    }),
+  ];
+
+  let done = 0;
+  onProgress?.({ done, total: jobs.length });
+  const results = await Promise.allSettled(jobs.map(job =>
+    job().finally(() => onProgress?.({ done: ++done, total: jobs.length }))
+  ));
+
+  // Only the pinned cache entries matter here; the URLs themselves are not used
+  const urls = results.flatMap(r => (r.status === 'fulfilled' ? [r.value] : []));
+  urls.forEach(releaseMediaUrl);
+
+  const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failure) throw isAbortError(failure.reason) ? failure.reason : toServiceError(failure.reason);
+  // A provider with nothing to return (no key for images, say) leaves nothing pinned
+  if (urls.some(url => url === null)) {
+    throw new ServiceError('unknown', `Some pictures or narration for "${recipe.title}" could not be made`);
+  }
+
+  await updateSavedRecipe(id, { offlineServings: recipe.servings });
+};
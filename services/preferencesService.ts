@@ -0,0 +1,21 @@
+// Small wrapper around localStorage for user preferences that should survive reloads
+
+const STORAGE_PREFIX = 'royal-recipes:';
+
+export const loadPreference = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.warn(`Failed to read preference "${key}":`, error);
+    return fallback;
+  }
+};
+
+export const savePreference = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to save preference "${key}":`, error);
+  }
+};
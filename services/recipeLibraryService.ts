@@ -0,0 +1,94 @@
+import { Recipe, SavedRecipe } from '../types';
+import { STORES, withStore } from './db';
+import { unpinMedia } from './mediaCacheService';
+import { normalizeIngredients } from '../utils/ingredients';
+import { DEFAULT_SERVINGS } from '../utils/scaling';
+
+export interface LibraryFilter {
+  query?: string;
+  tag?: string;
+  favoritesOnly?: boolean;
+}
+
+// Records saved before the structured ingredient model stored plain strings
+const migrate = (saved: SavedRecipe): SavedRecipe => ({
+  ...saved,
+  tags: saved.tags ?? [],
+  stepImages: saved.stepImages ?? {},
+  recipe: {
+    ...saved.recipe,
+    servings: saved.recipe.servings || DEFAULT_SERVINGS,
+    ingredients: normalizeIngredients(saved.recipe.ingredients),
+  },
+});
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+export const saveRecipe = async (
+  recipe: Recipe,
+  media: { dishImage?: string; stepImages?: Record<number, string> } = {}
+): Promise<SavedRecipe> => {
+  const now = Date.now();
+  const saved: SavedRecipe = {
+    id: crypto.randomUUID(),
+    recipe,
+    dishImage: media.dishImage,
+    stepImages: media.stepImages ?? {},
+    tags: [],
+    favorite: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await withStore(STORES.recipes, 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const getSavedRecipe = async (id: string): Promise<SavedRecipe | null> => {
+  const saved = await withStore<SavedRecipe | undefined>(STORES.recipes, 'readonly', store => store.get(id));
+  return saved ? migrate(saved) : null;
+};
+
+export const updateSavedRecipe = async (
+  id: string,
+  changes: Partial<Omit<SavedRecipe, 'id' | 'createdAt'>>
+): Promise<SavedRecipe | null> => {
+  const existing = await getSavedRecipe(id);
+  if (!existing) return null;
+  const updated: SavedRecipe = { ...existing, ...changes, updatedAt: Date.now() };
+  await withStore(STORES.recipes, 'readwrite', store => store.put(updated));
+  return updated;
+};
+
+// Media kept for offline use goes back to normal eviction with the recipe
+export const deleteSavedRecipe = async (id: string): Promise<void> => {
+  await withStore(STORES.recipes, 'readwrite', store => store.delete(id));
+  await unpinMedia(id).catch(e => console.warn('Failed to release offline media', e));
+};
+
+export const listSavedRecipes = async (): Promise<SavedRecipe[]> => {
+  const all = await withStore<SavedRecipe[]>(STORES.recipes, 'readonly', store => store.getAll());
+  return all.map(migrate).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Every word of the query must appear in the title, description, tags or an ingredient name
+export const matchesFilter = (saved: SavedRecipe, { query, tag, favoritesOnly }: LibraryFilter): boolean => {
+  if (favoritesOnly && !saved.favorite) return false;
+  if (tag && !saved.tags.includes(normalizeTag(tag))) return false;
+
+  const words = (query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+
+  const haystack = [
+    saved.recipe.title,
+    saved.recipe.description,
+    ...saved.tags,
+    ...saved.recipe.ingredients.map(i => i.name),
+  ].join(' ').toLowerCase();
+  return words.every(word => haystack.includes(word));
+};
+
+export const searchSavedRecipes = async (filter: LibraryFilter): Promise<SavedRecipe[]> =>
+  (await listSavedRecipes()).filter(saved => matchesFilter(saved, filter));
+
+export const collectTags = (recipes: SavedRecipe[]): string[] =>
+  Array.from(new Set(recipes.flatMap(r => r.tags))).sort();
@@ -0,0 +1,185 @@
+import { Recipe, RecipeDraft, LeftoverSuggestion, LeftoverMode, Ingredient, DietaryProfile, MealPlanEntry, MacroTargets, Nutrients } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import { ServiceError, toServiceError, isAbortError } from './errors';
+import { mediaScheduler, RequestPriority } from './requestScheduler';
+import { stripIngredientMarkup } from '../utils/ingredients';
+import { withMediaCache } from './mediaCacheService';
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface GenerationOptions extends RequestOptions {
+  // Diets, allergens and equipment the generated text must respect
+  profile?: DietaryProfile;
+}
+
+export interface RecipeRequestOptions extends GenerationOptions {
+  // Called with the recipe parsed so far each time more output streams in
+  onProgress?: (draft: RecipeDraft) => void;
+  // Per-serving goals such as "under 600 kcal"; ignored when importing
+  targets?: MacroTargets;
+}
+
+export interface LeftoverRequestOptions extends GenerationOptions {
+  // In 'pantry' mode the ingredients are what's on hand and the title is ignored
+  mode?: LeftoverMode;
+  // Names of on-hand ingredients close to expiry, to be used up first
+  expiring?: string[];
+}
+
+export interface MediaRequestOptions extends RequestOptions {
+  priority?: RequestPriority;
+  // Saved recipe to keep the result for offline use; pinned media is never evicted
+  pinFor?: string;
+}
+
+// Everything the UI needs from a generative backend. Gemini is the real
+// implementation; the mock adapter serves fixtures for offline work.
+export interface RecipeProvider {
+  readonly name: string;
+  // False for backends that work without a connection, like the mock
+  readonly requiresNetwork: boolean;
+  // Model identifiers for generated media; part of the media cache key
+  readonly mediaModels: { image: string; audio: string };
+  generateRecipe(query: string, options?: RecipeRequestOptions): Promise<Recipe>;
+  // Returns a modified copy of the recipe following a follow-up instruction
+  refineRecipe(recipe: Recipe, instruction: string, options?: RecipeRequestOptions): Promise<Recipe>;
+  generateLeftoverSuggestions(ingredients: Ingredient[], currentTitle: string, options?: LeftoverRequestOptions): Promise<LeftoverSuggestion[]>;
+  // Converts a recipe written for people (pasted text, a saved web page)
+  // into our shape without changing the dish
+  structureRecipe(text: string, options?: RecipeRequestOptions): Promise<Recipe>;
+  // Plans a week of meals from constraints like "5 dinners, under 30 min"
+  generateMealPlan(request: string, options?: GenerationOptions): Promise<MealPlanEntry[]>;
+  // Per-serving nutrition, for recipes the bundled nutrient table can't cover
+  estimateNutrition(recipe: Recipe, options?: RequestOptions): Promise<Nutrients>;
+  generateRecipeVisual(title: string, description: string, options?: RequestOptions): Promise<string | null>;
+  generateStepVisual(instruction: string, previousInstructions?: string[], options?: RequestOptions): Promise<string | null>;
+  generateStepAudio(text: string, options?: RequestOptions): Promise<string | null>;
+}
+
+const PROVIDERS: Record<string, RecipeProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// RECIPE_PROVIDER picks the backend explicitly; otherwise fall back to the
+// mock when no API key is configured so the app still runs locally.
+const resolveDefaultProvider = (): RecipeProvider => {
+  const configured = process.env.RECIPE_PROVIDER;
+  if (configured) {
+    const provider = PROVIDERS[configured];
+    if (provider) return provider;
+    console.warn(`Unknown RECIPE_PROVIDER "${configured}", using gemini.`);
+    return geminiProvider;
+  }
+  if (!process.env.API_KEY) {
+    console.warn('No GEMINI_API_KEY set, using the offline mock provider.');
+    return mockProvider;
+  }
+  return geminiProvider;
+};
+
+let activeProvider: RecipeProvider | null = null;
+
+export const getRecipeProvider = (): RecipeProvider => {
+  if (!activeProvider) {
+    activeProvider = resolveDefaultProvider();
+  }
+  return activeProvider;
+};
+
+// Lets tests and demos swap the backend at runtime
+export const setRecipeProvider = (provider: RecipeProvider) => {
+  activeProvider = provider;
+};
+
+// Every provider's failures reach the UI as a ServiceError (or an AbortError when cancelled)
+const typed = <T,>(promise: Promise<T>): Promise<T> =>
+  promise.catch(error => { throw isAbortError(error) ? error : toServiceError(error); });
+
+// Fails fast, without sending anything, when the backend needs a network the browser says is gone
+const whenReachable = <T,>(provider: RecipeProvider, send: () => Promise<T>): Promise<T> =>
+  provider.requiresNetwork && typeof navigator !== 'undefined' && navigator.onLine === false
+    ? Promise.reject(new ServiceError('offline', 'No network connection'))
+    : send();
+
+const callProvider = <T,>(send: (provider: RecipeProvider) => Promise<T>): Promise<T> => {
+  const provider = getRecipeProvider();
+  return typed(whenReachable(provider, () => send(provider)));
+};
+
+// Whether generation stops working offline; the UI disables those features then
+export const providerRequiresNetwork = (): boolean => getRecipeProvider().requiresNetwork;
+
+export const generateRecipe = (query: string, options?: RecipeRequestOptions) =>
+  callProvider(provider => provider.generateRecipe(query, options));
+
+export const refineRecipe = (recipe: Recipe, instruction: string, options?: RecipeRequestOptions) =>
+  callProvider(provider => provider.refineRecipe(recipe, instruction, options));
+
+export const generateLeftoverSuggestions = (ingredients: Ingredient[], currentTitle: string, options?: LeftoverRequestOptions) =>
+  callProvider(provider => provider.generateLeftoverSuggestions(ingredients, currentTitle, options));
+
+export const structureRecipe = (text: string, options?: RecipeRequestOptions) =>
+  callProvider(provider => provider.structureRecipe(text, options));
+
+export const generateMealPlan = (request: string, options?: GenerationOptions) =>
+  callProvider(provider => provider.generateMealPlan(request, options));
+
+export const estimateNutrition = (recipe: Recipe, options?: RequestOptions) =>
+  callProvider(provider => provider.estimateNutrition(recipe, options));
+
+// Media requests check the persistent cache first, then go through the shared
+// scheduler. Image keys ignore quantities so a scaled recipe reuses the images
+// of the original.
+export const generateRecipeVisual = (
+  title: string,
+  description: string,
+  { priority = 'current', signal, pinFor }: MediaRequestOptions = {}
+) => {
+  const provider = getRecipeProvider();
+  const inputs = [provider.mediaModels.image, title, description];
+  return withMediaCache('dish-visual', inputs, title, () =>
+    mediaScheduler.schedule({
+      key: `dish-visual:${JSON.stringify(inputs)}`,
+      priority,
+      signal,
+      run: s => typed(whenReachable(provider, () => provider.generateRecipeVisual(title, description, { signal: s }))),
+    }),
+    pinFor
+  );
+};
+
+export const generateStepVisual = (
+  instruction: string,
+  previousInstructions: string[] = [],
+  { priority = 'background', signal, pinFor }: MediaRequestOptions = {}
+) => {
+  const provider = getRecipeProvider();
+  const inputs = [provider.mediaModels.image, ...[...previousInstructions, instruction].map(stripIngredientMarkup)];
+  return withMediaCache('step-visual', inputs, stripIngredientMarkup(instruction), () =>
+    mediaScheduler.schedule({
+      key: `step-visual:${JSON.stringify(inputs)}`,
+      priority,
+      signal,
+      run: s => typed(whenReachable(provider, () => provider.generateStepVisual(instruction, previousInstructions, { signal: s }))),
+    }),
+    pinFor
+  );
+};
+
+export const generateStepAudio = (text: string, { priority = 'current', signal, pinFor }: MediaRequestOptions = {}) => {
+  const provider = getRecipeProvider();
+  const inputs = [provider.mediaModels.audio, text];
+  return withMediaCache('step-audio', inputs, stripIngredientMarkup(text), () =>
+    mediaScheduler.schedule({
+      key: `step-audio:${JSON.stringify(inputs)}`,
+      priority,
+      signal,
+      run: s => typed(whenReachable(provider, () => provider.generateStepAudio(text, { signal: s }))),
+    }),
+    pinFor
+  );
+};
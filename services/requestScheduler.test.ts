@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRequestScheduler } from './requestScheduler';
+import { isAbortError } from './errors';
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => { resolve = res; });
+  return { promise, resolve };
+};
+
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+describe('createRequestScheduler', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('shares one request between callers with the same key', async () => {
+    const scheduler = createRequestScheduler({ capacity: 5, refillIntervalMs: 1000, maxConcurrent: 5 });
+    const run = vi.fn(async () => 'image');
+    const results = Promise.all([
+      scheduler.schedule({ key: 'step-1', run }),
+      scheduler.schedule({ key: 'step-1', run }),
+    ]);
+    await expect(results).resolves.toEqual(['image', 'image']);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts the most urgent queued request first', async () => {
+    const scheduler = createRequestScheduler({ capacity: 5, refillIntervalMs: 1000, maxConcurrent: 1 });
+    const order: string[] = [];
+    const first = deferred<void>();
+    const track = (key: string) => async () => { order.push(key); };
+
+    scheduler.schedule({ key: 'busy', run: () => first.promise });
+    const later = Promise.all([
+      scheduler.schedule({ key: 'preview', priority: 'background', run: track('preview') }),
+      scheduler.schedule({ key: 'upcoming', priority: 'next', run: track('upcoming') }),
+      scheduler.schedule({ key: 'on-screen', priority: 'current', run: track('on-screen') }),
+    ]);
+    first.resolve();
+    await later;
+    expect(order).toEqual(['on-screen', 'upcoming', 'preview']);
+  });
+
+  it('raises a queued request to the most urgent caller\'s priority', async () => {
+    const scheduler = createRequestScheduler({ capacity: 5, refillIntervalMs: 1000, maxConcurrent: 1 });
+    const order: string[] = [];
+    const first = deferred<void>();
+    const track = (key: string) => async () => { order.push(key); };
+
+    scheduler.schedule({ key: 'busy', run: () => first.promise });
+    const later = Promise.all([
+      scheduler.schedule({ key: 'a', priority: 'next', run: track('a') }),
+      scheduler.schedule({ key: 'b', priority: 'background', run: track('b') }),
+      scheduler.schedule({ key: 'b', priority: 'current', run: track('b') }),
+    ]);
+    first.resolve();
+    await later;
+    expect(order).toEqual(['b', 'a']);
+  });
+
+  it('waits for a token once the burst is used up', async () => {
+    const scheduler = createRequestScheduler({ capacity: 1, refillIntervalMs: 1000, maxConcurrent: 5 });
+    const run = vi.fn(async () => 'done');
+    scheduler.schedule({ key: 'a', run });
+    scheduler.schedule({ key: 'b', run });
+    await settle();
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops a queued request once its only caller aborts', async () => {
+    const scheduler = createRequestScheduler({ capacity: 5, refillIntervalMs: 1000, maxConcurrent: 1 });
+    const first = deferred<void>();
+    const run = vi.fn(async () => 'never');
+    const controller = new AbortController();
+
+    scheduler.schedule({ key: 'busy', run: () => first.promise });
+    const dropped = scheduler.schedule({ key: 'queued', signal: controller.signal, run });
+    controller.abort();
+    await expect(dropped).rejects.toSatisfy(isAbortError);
+
+    first.resolve();
+    await settle();
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('cancels a running request only when every caller has aborted', async () => {
+    const scheduler = createRequestScheduler({ capacity: 5, refillIntervalMs: 1000, maxConcurrent: 5 });
+    let requestSignal: AbortSignal | undefined;
+    const run = (signal: AbortSignal) => {
+      requestSignal = signal;
+      return new Promise<string>(() => {});
+    };
+    const one = new AbortController();
+    const two = new AbortController();
+
+    const first = scheduler.schedule({ key: 'shared', signal: one.signal, run });
+    const second = scheduler.schedule({ key: 'shared', signal: two.signal, run });
+    await settle();
+
+    one.abort();
+    await expect(first).rejects.toSatisfy(isAbortError);
+    expect(requestSignal?.aborted).toBe(false);
+
+    two.abort();
+    await expect(second).rejects.toSatisfy(isAbortError);
+    expect(requestSignal?.aborted).toBe(true);
+  });
+
+  it('rejects straight away when the signal is already aborted', async () => {
+    const scheduler = createRequestScheduler({ capacity: 5, refillIntervalMs: 1000, maxConcurrent: 5 });
+    const run = vi.fn(async () => 'never');
+    await expect(scheduler.schedule({ key: 'a', signal: AbortSignal.abort(), run })).rejects.toSatisfy(isAbortError);
+    expect(run).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,190 @@
+// Shared queue for model calls that the UI fires in the background (step images,
+// narration, dish previews). It rate-limits with a token bucket, runs the most
+// urgent work first, merges identical in-flight requests and drops work nobody
+// is waiting for any more.
+
+export type RequestPriority = 'current' | 'next' | 'background';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  current: 0,
+  next: 1,
+  background: 2,
+};
+
+export interface ScheduleRequest<T> {
+  // Identical keys share a single underlying request
+  key: string;
+  priority?: RequestPriority;
+  // Aborting drops this caller; the request itself is cancelled once no caller is left
+  signal?: AbortSignal;
+  run: (signal: AbortSignal) => Promise<T>;
+}
+
+export interface SchedulerOptions {
+  // Burst size: how many requests may start back to back
+  capacity: number;
+  // One token is added back every interval
+  refillIntervalMs: number;
+  maxConcurrent: number;
+}
+
+interface Job {
+  key: string;
+  priority: RequestPriority;
+  sequence: number;
+  run: (signal: AbortSignal) => Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+  started: boolean;
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+export const createAbortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+export const createRequestScheduler = ({ capacity, refillIntervalMs, maxConcurrent }: SchedulerOptions) => {
+  const jobs = new Map<string, Job>();
+  const queue: Job[] = [];
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  let running = 0;
+  let sequence = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const refill = () => {
+    const now = Date.now();
+    const gained = Math.floor((now - lastRefill) / refillIntervalMs);
+    if (gained > 0) {
+      tokens = Math.min(capacity, tokens + gained);
+      lastRefill += gained * refillIntervalMs;
+    }
+    if (tokens === capacity) lastRefill = now;
+  };
+
+  const byUrgency = (a: Job, b: Job) =>
+    PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.sequence - b.sequence;
+
+  const start = (job: Job) => {
+    running++;
+    job.started = true;
+    job.run(job.controller.signal)
+      .then(job.resolve, job.reject)
+      .finally(() => {
+        running--;
+        if (jobs.get(job.key) === job) jobs.delete(job.key);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    refill();
+    queue.sort(byUrgency);
+    while (queue.length > 0 && running < maxConcurrent && tokens > 0) {
+      tokens--;
+      start(queue.shift()!);
+    }
+    // Out of tokens: wake up when the next one is due
+    if (queue.length > 0 && tokens === 0 && !timer) {
+      const wait = Math.max(0, refillIntervalMs - (Date.now() - lastRefill));
+      timer = setTimeout(() => {
+        timer = null;
+        pump();
+      }, wait);
+    }
+  };
+
+  const release = (job: Job) => {
+    job.subscribers--;
+    if (job.subscribers > 0) return;
+
+    // Nobody is waiting: forget the job so a later identical request starts fresh
+    if (jobs.get(job.key) === job) jobs.delete(job.key);
+    job.controller.abort();
+    if (!job.started) {
+      const index = queue.indexOf(job);
+      if (index >= 0) queue.splice(index, 1);
+      job.reject(createAbortError());
+    }
+  };
+
+  const schedule = <T,>({ key, priority = 'background', signal, run }: ScheduleRequest<T>): Promise<T> => {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    let job = jobs.get(key);
+    if (!job) {
+      let resolve!: (value: unknown) => void;
+      let reject!: (reason: unknown) => void;
+      const promise = new Promise<unknown>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      // Subscribers attach their own handlers; this keeps an abandoned job from
+      // being reported as an unhandled rejection
+      promise.catch(() => {});
+      job = {
+        key,
+        priority,
+        sequence: sequence++,
+        run,
+        controller: new AbortController(),
+        subscribers: 0,
+        started: false,
+        promise,
+        resolve,
+        reject,
+      };
+      jobs.set(key, job);
+      queue.push(job);
+    } else if (PRIORITY_RANK[priority] < PRIORITY_RANK[job.priority]) {
+      // Someone needs this sooner than whoever queued it
+      job.priority = priority;
+    }
+
+    const current = job;
+    current.subscribers++;
+
+    const result = new Promise<T>((resolve, reject) => {
+      let settled = false;
+      const onAbort = () => {
+        if (settled) return;
+        settled = true;
+        reject(createAbortError());
+        release(current);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      current.promise.then(
+        value => {
+          signal?.removeEventListener('abort', onAbort);
+          if (!settled) {
+            settled = true;
+            resolve(value as T);
+          }
+        },
+        error => {
+          signal?.removeEventListener('abort', onAbort);
+          if (!settled) {
+            settled = true;
+            reject(error);
+          }
+        }
+      );
+    });
+
+    pump();
+    return result;
+  };
+
+  return { schedule };
+};
+
+export type RequestScheduler = ReturnType<typeof createRequestScheduler>;
+
+// Image and speech models share a tight per-minute quota, so background media
+// requests go through one bucket: a small burst, then one every few seconds.
+export const mediaScheduler = createRequestScheduler({
+  capacity: 3,
+  refillIntervalMs: 4000,
+  maxConcurrent: 2,
+});
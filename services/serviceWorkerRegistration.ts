@@ -0,0 +1,22 @@
+// Registers the service worker that keeps the app shell available offline.
+// Development builds skip it so stale cached modules never shadow hot reloads.
+export const registerServiceWorker = () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('./sw.js');
+      await navigator.serviceWorker.ready;
+      // Hand over everything this page loaded so the first visit is enough to work offline
+      const urls = performance.getEntriesByType('resource')
+        .map(entry => entry.name)
+        .filter(url => url.startsWith('http'));
+      (registration.active ?? navigator.serviceWorker.controller)?.postMessage({
+        type: 'cache-urls',
+        urls: [location.href, ...urls],
+      });
+    } catch (e) {
+      console.warn('Service worker registration failed', e);
+    }
+  });
+};
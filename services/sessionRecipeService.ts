@@ -0,0 +1,42 @@
+import { Recipe } from '../types';
+
+// Generated recipes that were never saved get a local ID so they can have a
+// route of their own. They live in sessionStorage: back, forward and reload
+// work, but the IDs mean nothing on another device (use a share link for that).
+
+const STORAGE_KEY = 'royal-recipes:session-recipes';
+const MAX_RECIPES = 20;
+
+interface SessionRecipe {
+  id: string;
+  recipe: Recipe;
+}
+
+const load = (): SessionRecipe[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? '[]') as SessionRecipe[];
+  } catch (error) {
+    console.warn('Failed to read session recipes:', error);
+    return [];
+  }
+};
+
+export const rememberRecipe = (recipe: Recipe): string => {
+  const entries = load();
+  const json = JSON.stringify(recipe);
+  const existing = entries.find(entry => JSON.stringify(entry.recipe) === json);
+  if (existing) return existing.id;
+
+  const id = crypto.randomUUID();
+  // Oldest entries go first; their routes then show "not found"
+  const next = [...entries, { id, recipe }].slice(-MAX_RECIPES);
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn('Failed to remember recipe:', error);
+  }
+  return id;
+};
+
+export const recallRecipe = (id: string): Recipe | null =>
+  load().find(entry => entry.id === id)?.recipe ?? null;
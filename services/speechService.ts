@@ -0,0 +1,138 @@
+// Speech in and out for hands-free Cook Mode. Recognition sits behind
+// CommandRecognizer so the UI can be driven by typed text when the browser has
+// no Web Speech support, and by plain strings in tests.
+
+export interface CommandRecognizer {
+  readonly supported: boolean;
+  start(): void;
+  stop(): void;
+  // Receives each final transcript; returns an unsubscribe function
+  onTranscript(listener: (transcript: string) => void): () => void;
+}
+
+export interface TextRecognizer extends CommandRecognizer {
+  // Delivers a transcript as if it had been spoken
+  feed(transcript: string): void;
+}
+
+// Minimal typing for the parts of the Web Speech API we use; lib.dom doesn't ship it
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: { resultIndex: number; results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }> }) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const w = window as unknown as Record<string, SpeechRecognitionConstructor | undefined>;
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition;
+};
+
+const createListenerSet = () => {
+  const listeners = new Set<(transcript: string) => void>();
+  return {
+    add(listener: (transcript: string) => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    emit(transcript: string) {
+      listeners.forEach(listener => listener(transcript));
+    },
+  };
+};
+
+export const createTextRecognizer = (): TextRecognizer => {
+  const listeners = createListenerSet();
+  let listening = false;
+  return {
+    supported: true,
+    start: () => { listening = true; },
+    stop: () => { listening = false; },
+    onTranscript: listeners.add,
+    feed(transcript: string) {
+      if (listening && transcript.trim()) listeners.emit(transcript.trim());
+    },
+  };
+};
+
+export const createSpeechRecognizer = (lang = navigator.language): CommandRecognizer => {
+  const SpeechRecognition = getSpeechRecognition();
+  const listeners = createListenerSet();
+  if (!SpeechRecognition) {
+    return { supported: false, start: () => {}, stop: () => {}, onTranscript: listeners.add };
+  }
+
+  const recognition = new SpeechRecognition();
+  recognition.continuous = true;
+  recognition.interimResults = false;
+  recognition.lang = lang;
+  let listening = false;
+
+  recognition.onresult = event => {
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      if (result.isFinal) listeners.emit(result[0].transcript.trim());
+    }
+  };
+  // Browsers end continuous recognition after a pause; keep going until stopped
+  recognition.onend = () => {
+    if (listening) {
+      try {
+        recognition.start();
+      } catch {
+        listening = false;
+      }
+    }
+  };
+  recognition.onerror = event => {
+    // Permission refused: restarting would just fail again
+    if (event.error === 'not-allowed' || event.error === 'service-not-allowed') listening = false;
+  };
+
+  return {
+    supported: true,
+    start() {
+      if (listening) return;
+      listening = true;
+      try {
+        recognition.start();
+      } catch {
+        // Already started
+      }
+    },
+    stop() {
+      listening = false;
+      recognition.stop();
+    },
+    onTranscript: listeners.add,
+  };
+};
+
+export const canSpeak = (): boolean => typeof speechSynthesis !== 'undefined';
+
+// Roughly how long it takes to read text silently, for pacing without a voice
+export const readingTimeMs = (text: string): number =>
+  Math.max(3000, text.split(/\s+/).filter(Boolean).length * 300);
+
+// Reads text aloud with the browser's speech synthesis; resolves when done
+export const speak = (text: string, lang = navigator.language): Promise<void> =>
+  new Promise(resolve => {
+    if (typeof speechSynthesis === 'undefined') return resolve();
+    speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = lang;
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    speechSynthesis.speak(utterance);
+  });
+
+export const stopSpeaking = () => {
+  if (typeof speechSynthesis !== 'undefined') speechSynthesis.cancel();
+};
@@ -0,0 +1,54 @@
+import { KitchenTimer } from '../types';
+
+// Sound, vibration and system notifications for finished kitchen timers
+
+let audioContext: AudioContext | null = null;
+
+// Three short beeps; synthesised so there is no audio asset to load
+const playAlarm = () => {
+  try {
+    audioContext ??= new AudioContext();
+    const start = audioContext.currentTime;
+    for (let i = 0; i < 3; i++) {
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = 880;
+      gain.gain.setValueAtTime(0.0001, start + i * 0.4);
+      gain.gain.exponentialRampToValueAtTime(0.4, start + i * 0.4 + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + i * 0.4 + 0.3);
+      oscillator.connect(gain).connect(audioContext.destination);
+      oscillator.start(start + i * 0.4);
+      oscillator.stop(start + i * 0.4 + 0.3);
+    }
+  } catch (error) {
+    console.warn("Could not play timer alarm:", error);
+  }
+};
+
+// Asked when the first timer starts, since browsers only allow it after a user gesture
+export const requestAlertPermission = () => {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {});
+  }
+  // Unlocks audio playback for later, when the alarm fires without a gesture
+  try {
+    audioContext ??= new AudioContext();
+    audioContext.resume().catch(() => {});
+  } catch {
+    // No Web Audio support; notifications still work
+  }
+};
+
+export const alertTimerDone = (timer: KitchenTimer) => {
+  playAlarm();
+  navigator.vibrate?.([300, 150, 300]);
+
+  // The tray is enough when the app is in front of the cook
+  if (typeof Notification !== 'undefined' && Notification.permission === 'granted' && document.hidden) {
+    new Notification(`⏰ ${timer.label}`, {
+      body: timer.recipeTitle ? `Time's up: ${timer.recipeTitle}` : "Time's up",
+      tag: timer.id,
+    });
+  }
+};
@@ -0,0 +1,373 @@
+import { Recipe, RecipeStep, UnitSystem } from '../types';
+import { generateStepAudio, generateStepVisual } from './recipeProvider';
+import { createAbortError } from './requestScheduler';
+import { isAbortError } from './errors';
+import { recipeFileName, recipeToMarkdown } from '../utils/recipeExport';
+import { createZip, ZipEntry } from '../utils/zip';
+import {
+  INTRO_SECONDS,
+  TRANSITION_SECONDS,
+  TutorialCue,
+  buildTutorialCues,
+  cuesToSrt,
+  cuesToWebVtt,
+  tutorialLength,
+} from '../utils/tutorialExport';
+
+// Renders the tutorial the live player shows into files that can be shared:
+// a WebM video, or a zip of the pictures, narration and subtitles
+
+export interface TutorialExportProgress {
+  stage: 'media' | 'render';
+  // Media files fetched, or seconds of video recorded
+  done: number;
+  total: number;
+}
+
+export interface TutorialExportOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: TutorialExportProgress) => void;
+}
+
+// A step picture or narration that couldn't be made, so the export went ahead without it
+export interface SkippedMedia {
+  step: number;
+  kind: 'picture' | 'narration';
+}
+
+export interface TutorialExport {
+  file: Blob;
+  skipped: SkippedMedia[];
+}
+
+interface StepMedia {
+  image: Blob | null;
+  audio: Blob | null;
+}
+
+const VIDEO_WIDTH = 1280;
+const VIDEO_HEIGHT = 720;
+const FRAME_RATE = 30;
+const VIDEO_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+const pickVideoType = () =>
+  typeof MediaRecorder === 'undefined' ? undefined : VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export const canRecordTutorialVideo = (): boolean =>
+  typeof HTMLCanvasElement !== 'undefined'
+  && 'captureStream' in HTMLCanvasElement.prototype
+  && typeof AudioContext !== 'undefined'
+  && !!pickVideoType();
+
+const toBlob = async (url: string | null): Promise<Blob | null> => (url ? (await fetch(url)).blob() : null);
+
+// Same requests as the player, so anything it (or "Keep offline") already
+// fetched comes straight from the media cache. One failed picture or narration
+// is left out and noted in skipped rather than failing the whole export.
+const collectMedia = async (
+  steps: RecipeStep[],
+  { signal, onProgress }: TutorialExportOptions,
+  skipped: SkippedMedia[]
+): Promise<StepMedia[]> => {
+  const total = steps.length * 2;
+  let done = 0;
+  const track = (promise: Promise<Blob | null>, missing: SkippedMedia) =>
+    promise
+      .catch(e => {
+        if (isAbortError(e)) throw e;
+        skipped.push(missing);
+        return null;
+      })
+      .finally(() => onProgress?.({ stage: 'media', done: ++done, total }));
+
+  onProgress?.({ stage: 'media', done, total });
+  return Promise.all(steps.map(async (step, i) => {
+    const previousInstructions = steps.slice(0, i).map(s => s.instruction);
+    const [image, audio] = await Promise.all([
+      track(generateStepVisual(step.instruction, previousInstructions, { priority: 'next', signal }).then(toBlob), { step: i, kind: 'picture' }),
+      track(generateStepAudio(step.instruction, { priority: 'next', signal }).then(toBlob), { step: i, kind: 'narration' }),
+    ]);
+    return { image, audio };
+  }));
+};
+
+// Narration lengths set the timing; decoding needs no audio output
+const decodeNarration = async (media: StepMedia[], skipped: SkippedMedia[]): Promise<(AudioBuffer | null)[]> => {
+  const decoder = new OfflineAudioContext(1, 1, 44100);
+  return Promise.all(media.map(async ({ audio }, i) => {
+    if (!audio) return null;
+    try {
+      return await decoder.decodeAudioData(await audio.arrayBuffer());
+    } catch {
+      skipped.push({ step: i, kind: 'narration' });
+      return null;
+    }
+  }));
+};
+
+const bySteps = (skipped: SkippedMedia[]) => [...skipped].sort((a, b) => a.step - b.step);
+
+const loadImage = async (blob: Blob | null): Promise<HTMLImageElement | null> => {
+  if (!blob) return null;
+  const image = new Image();
+  image.src = URL.createObjectURL(blob);
+  try {
+    await image.decode();
+    return image;
+  } catch {
+    URL.revokeObjectURL(image.src);
+    return null;
+  }
+};
+
+// Fills the frame, cropping whichever sides overflow
+const drawCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement) => {
+  const scale = Math.max(VIDEO_WIDTH / image.naturalWidth, VIDEO_HEIGHT / image.naturalHeight);
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+  ctx.drawImage(image, (VIDEO_WIDTH - width) / 2, (VIDEO_HEIGHT - height) / 2, width, height);
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const drawScene = (ctx: CanvasRenderingContext2D, image: HTMLImageElement | null, step: number) => {
+  if (image) {
+    drawCover(ctx, image);
+    return;
+  }
+  ctx.fillStyle = '#171717';
+  ctx.fillRect(0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+  ctx.font = 'bold 220px Merriweather, serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(String(step + 1), VIDEO_WIDTH / 2, VIDEO_HEIGHT / 2 - 80);
+};
+
+// Subtitles sit in a dark band at the bottom, shrinking to fit long steps
+const drawSubtitle = (ctx: CanvasRenderingContext2D, text: string) => {
+  let size = 38;
+  let lines: string[];
+  do {
+    size -= 2;
+    ctx.font = `500 ${size}px Inter, sans-serif`;
+    lines = wrapText(ctx, text, VIDEO_WIDTH - 160);
+  } while (lines.length > 4 && size > 22);
+
+  const lineHeight = size * 1.4;
+  const height = lines.length * lineHeight + 48;
+  const gradient = ctx.createLinearGradient(0, VIDEO_HEIGHT - height - 80, 0, VIDEO_HEIGHT);
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  gradient.addColorStop(0.4, 'rgba(0, 0, 0, 0.7)');
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0.9)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, VIDEO_HEIGHT - height - 80, VIDEO_WIDTH, height + 80);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, i) => ctx.fillText(line, VIDEO_WIDTH / 2, VIDEO_HEIGHT - height + 12 + i * lineHeight));
+};
+
+const drawFrame = (
+  ctx: CanvasRenderingContext2D,
+  time: number,
+  title: string,
+  images: (HTMLImageElement | null)[],
+  cues: TutorialCue[]
+) => {
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
+
+  if (time < INTRO_SECONDS || cues.length === 0) {
+    ctx.globalAlpha = Math.min(1, Math.max(0, time) / TRANSITION_SECONDS);
+    ctx.fillStyle = '#ef4444';
+    ctx.font = 'bold 22px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('TUTORIAL VIDEO', VIDEO_WIDTH / 2, VIDEO_HEIGHT / 2 - 70);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 60px Merriweather, serif';
+    wrapText(ctx, title, VIDEO_WIDTH - 200).forEach((line, i) =>
+      ctx.fillText(line, VIDEO_WIDTH / 2, VIDEO_HEIGHT / 2 + i * 76)
+    );
+    ctx.globalAlpha = 1;
+    return;
+  }
+
+  let index = cues.findIndex(cue => time < cue.end);
+  if (index === -1) index = cues.length - 1;
+  const cue = cues[index];
+  const fade = Math.min(1, (time - cue.start) / TRANSITION_SECONDS);
+
+  // Cross-fade from the previous step's picture
+  if (fade < 1 && index > 0) drawScene(ctx, images[index - 1], index - 1);
+  ctx.globalAlpha = fade;
+  drawScene(ctx, images[index], index);
+  drawSubtitle(ctx, cue.text);
+  ctx.globalAlpha = 1;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.fillRect(24, 24, 170, 40);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 20px Inter, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`Step ${index + 1} / ${cues.length}`, 24 + 85, 44);
+
+  // Progress through the steps, like the player's bar
+  const progress = Math.min(1, (time - INTRO_SECONDS) / (tutorialLength(cues) - INTRO_SECONDS));
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+  ctx.fillRect(0, VIDEO_HEIGHT - 6, VIDEO_WIDTH, 6);
+  ctx.fillStyle = '#6366f1';
+  ctx.fillRect(0, VIDEO_HEIGHT - 6, VIDEO_WIDTH * progress, 6);
+};
+
+// Records in real time: the canvas is drawn on the audio clock while the
+// narration plays into the same stream, so a five-minute tutorial takes five
+// minutes to export
+const recordVideo = async (
+  title: string,
+  media: StepMedia[],
+  narration: (AudioBuffer | null)[],
+  cues: TutorialCue[],
+  { signal, onProgress }: TutorialExportOptions
+): Promise<Blob> => {
+  const mimeType = pickVideoType();
+  if (!mimeType) throw new Error('This browser cannot record video');
+
+  const total = tutorialLength(cues);
+  const chunks: Blob[] = [];
+  // Everything below holds object URLs, audio hardware or media tracks, so it is
+  // all set up inside the try and released whatever fails
+  let images: (HTMLImageElement | null)[] = [];
+  let audioContext: AudioContext | undefined;
+  let stream: MediaStream | undefined;
+  let recorder: MediaRecorder | undefined;
+  let stopped: Promise<void> | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    images = await Promise.all(media.map(m => loadImage(m.image)));
+    const canvas = document.createElement('canvas');
+    canvas.width = VIDEO_WIDTH;
+    canvas.height = VIDEO_HEIGHT;
+    const ctx = canvas.getContext('2d')!;
+    drawFrame(ctx, 0, title, images, cues);
+
+    audioContext = new AudioContext();
+    const destination = audioContext.createMediaStreamDestination();
+    stream = new MediaStream([
+      ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+      ...destination.stream.getAudioTracks(),
+    ]);
+    const activeRecorder = new MediaRecorder(stream, { mimeType });
+    recorder = activeRecorder;
+    activeRecorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    stopped = new Promise<void>(resolve => { activeRecorder.onstop = () => resolve(); });
+
+    await audioContext.resume();
+    const clock = audioContext;
+    const startAt = clock.currentTime + 0.1;
+    narration.forEach((buffer, i) => {
+      if (!buffer) return;
+      const source = clock.createBufferSource();
+      source.buffer = buffer;
+      source.connect(destination);
+      source.start(startAt + cues[i].start + TRANSITION_SECONDS);
+    });
+    activeRecorder.start(1000);
+
+    await new Promise<void>((resolve, reject) => {
+      const tick = () => {
+        if (signal?.aborted) return reject(createAbortError());
+        const time = clock.currentTime - startAt;
+        drawFrame(ctx, time, title, images, cues);
+        onProgress?.({ stage: 'render', done: Math.min(Math.max(time, 0), total), total });
+        if (time >= total) resolve();
+        else timer = setTimeout(tick, 1000 / FRAME_RATE);
+      };
+      tick();
+    });
+  } finally {
+    clearTimeout(timer);
+    // A recorder that never started never fires stop
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+      await stopped;
+    }
+    stream?.getTracks().forEach(track => track.stop());
+    audioContext?.close().catch(() => {});
+    images.forEach(image => image && URL.revokeObjectURL(image.src));
+  }
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+export const exportTutorialVideo = async (
+  recipe: Recipe,
+  system: UnitSystem,
+  options: TutorialExportOptions = {}
+): Promise<TutorialExport> => {
+  const skipped: SkippedMedia[] = [];
+  const media = await collectMedia(recipe.steps, options, skipped);
+  const narration = await decodeNarration(media, skipped);
+  const cues = buildTutorialCues(recipe.steps, narration.map(buffer => buffer?.duration ?? 0), system);
+  return { file: await recordVideo(recipe.title, media, narration, cues, options), skipped: bySteps(skipped) };
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+};
+
+const extensionFor = (blob: Blob, fallback: string) => EXTENSIONS[blob.type.split(';')[0]] ?? fallback;
+
+// A folder with each step's picture and narration, subtitles timed as in the
+// video export, and the recipe itself as Markdown
+export const exportTutorialPackage = async (
+  recipe: Recipe,
+  system: UnitSystem,
+  options: TutorialExportOptions = {}
+): Promise<TutorialExport> => {
+  const skipped: SkippedMedia[] = [];
+  const media = await collectMedia(recipe.steps, options, skipped);
+  const narration = await decodeNarration(media, skipped);
+  const cues = buildTutorialCues(recipe.steps, narration.map(buffer => buffer?.duration ?? 0), system);
+
+  const folder = recipeFileName(recipe, 'zip').replace(/\.zip$/, '');
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [
+    { name: `${folder}/recipe.md`, data: encoder.encode(recipeToMarkdown(recipe, system)) },
+    { name: `${folder}/subtitles.srt`, data: encoder.encode(cuesToSrt(cues)) },
+    { name: `${folder}/subtitles.vtt`, data: encoder.encode(cuesToWebVtt(cues)) },
+  ];
+  for (const [i, { image, audio }] of media.entries()) {
+    const prefix = `${folder}/step-${String(i + 1).padStart(2, '0')}`;
+    if (image) entries.push({ name: `${prefix}.${extensionFor(image, 'img')}`, data: new Uint8Array(await image.arrayBuffer()) });
+    if (audio) entries.push({ name: `${prefix}.${extensionFor(audio, 'audio')}`, data: new Uint8Array(await audio.arrayBuffer()) });
+  }
+  if (options.signal?.aborted) throw createAbortError();
+  return { file: createZip(entries), skipped: bySteps(skipped) };
+};
@@ -9,15 +9,51 @@ export interface RecipeStep {
   instruction: string;
   type: StepType;
   insight?: string;
+  // Unique within the recipe, e.g. "s3"; what dependsOn refers to
+  id?: string;
+  // Ids of earlier steps that must finish before this one can start. Recipes
+  // without any dependencies are treated as one step after another.
+  dependsOn?: string[];
+  // Hands-on minutes, when the cook can't do anything else
+  activeMinutes?: number;
+  // Unattended minutes (simmering, baking, chilling) during which other steps can run
+  passiveMinutes?: number;
+  // Pots, pans and appliances the step occupies, e.g. "large pot", "oven"
+  equipment?: string[];
+}
+
+export interface Ingredient {
+  name: string;
+  quantity?: number;
+  // Upper bound for ranges like "2-3 cloves"
+  quantityMax?: number;
+  unit?: string;
+  preparation?: string;
+  optional?: boolean;
+  // Sub-list heading, e.g. "sauce" or "topping"
+  group?: string;
 }
 
 export interface Recipe {
   title: string;
   description: string;
-  ingredients: string[];
+  servings: number;
+  ingredients: Ingredient[];
   steps: RecipeStep[];
 }
 
+// A recipe that is still streaming in; fields appear as the model writes them
+export type RecipeDraft = Partial<Recipe>;
+
+// One entry in a recipe's refinement history
+export interface RecipeVersion {
+  recipe: Recipe;
+  // Follow-up request that produced this version; absent for the original
+  instruction?: string;
+  // Index of the version it was refined from
+  basedOn?: number;
+}
+
 export interface GeneratedImage {
   url: string;
   mimeType: string;
@@ -28,3 +64,130 @@ export interface LeftoverSuggestion {
   description: string;
   matchingIngredients: string[];
 }
+
+export type UnitSystem = 'metric' | 'us' | 'uk';
+
+export interface SavedRecipe {
+  id: string;
+  recipe: Recipe;
+  dishImage?: string;
+  stepImages: Record<number, string>;
+  tags: string[];
+  favorite: boolean;
+  // Yield whose step visuals and narration were fetched and pinned for offline use
+  offlineServings?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type Diet = 'vegetarian' | 'vegan' | 'pescatarian' | 'keto' | 'halal' | 'kosher' | 'gluten-free' | 'dairy-free';
+
+export type Allergen = 'peanuts' | 'tree-nuts' | 'dairy' | 'eggs' | 'gluten' | 'soy' | 'fish' | 'shellfish' | 'sesame';
+
+export interface DietaryProfile {
+  diets: Diet[];
+  allergens: Allergen[];
+  // Free-text ingredients to avoid, e.g. "cilantro"
+  dislikes: string[];
+  // Free-text equipment the cook has, e.g. "oven", "blender"; empty means unspecified
+  equipment: string[];
+}
+
+export interface KitchenTimer {
+  id: string;
+  label: string;
+  // Where the timer was started from, so the tray can say what it is for
+  recipeTitle?: string;
+  stepIndex?: number;
+  durationSeconds: number;
+  // Wall-clock end time while running, so timers stay correct when the tab sleeps
+  endsAt: number | null;
+  // Seconds left when paused
+  remainingSeconds: number;
+  status: 'running' | 'paused' | 'done';
+}
+
+// A recipe's ingredients as they were added to the shopping list, already
+// scaled to the servings the cook chose
+export interface ShoppingListRecipe {
+  id: string;
+  // Saved recipe, session recipe or planned meal it was added from; adding
+  // from the same source again replaces it
+  sourceId: string;
+  title: string;
+  servings: number;
+  ingredients: Ingredient[];
+  addedAt: number;
+}
+
+export interface ShoppingListState {
+  recipes: ShoppingListRecipe[];
+  // Keys of aggregated items that have been picked up
+  checked: string[];
+}
+
+export interface PantryItem {
+  id: string;
+  name: string;
+  // Approximate amount on hand; absent when the cook doesn't track it
+  quantity?: number;
+  unit?: string;
+  // Calendar date (YYYY-MM-DD)
+  expiresOn?: string;
+  updatedAt: number;
+}
+
+// 'pantry' suggests dishes from everything on hand instead of one recipe's leftovers
+export type LeftoverMode = 'leftovers' | 'pantry';
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner';
+
+export interface PlannedMeal {
+  id: string;
+  // Calendar date (YYYY-MM-DD)
+  date: string;
+  slot: MealSlot;
+  title: string;
+  // Absent for leftover meals, which reuse an earlier meal's ingredients
+  recipe?: Recipe;
+  // Recipe box entry it was planned from, so opening it restores its images
+  savedId?: string;
+  // Set when the meal is made from another planned meal's leftovers
+  leftover?: { fromMealId: string; suggestion: LeftoverSuggestion };
+}
+
+// One meal of a generated week plan; day 0 is the first day of the week
+export interface MealPlanEntry {
+  day: number;
+  slot: MealSlot;
+  recipe: Recipe;
+}
+
+// Per serving; calories in kcal, sodium in mg, everything else in grams
+export interface Nutrients {
+  calories: number;
+  protein: number;
+  fat: number;
+  carbs: number;
+  fiber: number;
+  sodium: number;
+}
+
+export type NutritionConfidence = 'high' | 'medium' | 'low';
+
+export interface NutritionEstimate {
+  perServing: Nutrients;
+  // 'local' comes from the bundled nutrient table, 'model' from the provider
+  source: 'local' | 'model';
+  confidence: NutritionConfidence;
+  // Measured ingredients the table had no match or weight for
+  unmatched: string[];
+}
+
+// Per-serving goals passed to generation, e.g. "under 600 kcal"
+export interface MacroTargets {
+  maxCalories?: number;
+  minProtein?: number;
+  maxCarbs?: number;
+  maxFat?: number;
+}
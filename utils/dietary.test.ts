@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe, StepType } from '../types';
+import { EMPTY_PROFILE, checkRecipe, describeDietaryProfile, findAllergens, findDislike } from './dietary';
+
+describe('findAllergens', () => {
+  it('finds the allergens an ingredient contains', () => {
+    expect(findAllergens('Unsalted butter', ['dairy', 'eggs'])).toEqual(['dairy']);
+    expect(findAllergens('Egg noodles', ['eggs', 'gluten'])).toEqual(['eggs', 'gluten']);
+    expect(findAllergens('Basil pesto', ['tree-nuts'])).toEqual(['tree-nuts']);
+  });
+
+  it('only checks the allergens asked about', () => {
+    expect(findAllergens('Parmesan', ['gluten'])).toEqual([]);
+  });
+
+  it('ignores look-alikes', () => {
+    expect(findAllergens('Ground nutmeg', ['tree-nuts'])).toEqual([]);
+    expect(findAllergens('Coconut milk', ['dairy', 'tree-nuts'])).toEqual([]);
+    expect(findAllergens('Peanut butter', ['dairy'])).toEqual([]);
+    expect(findAllergens('Eggplant', ['eggs'])).toEqual([]);
+    expect(findAllergens('Rice noodles', ['gluten'])).toEqual([]);
+  });
+
+  it('still flags the allergen next to a look-alike', () => {
+    expect(findAllergens('Coconut and almonds', ['tree-nuts'])).toEqual(['tree-nuts']);
+  });
+});
+
+describe('findDislike', () => {
+  it('matches whole words, plurals included', () => {
+    expect(findDislike('Fresh cilantro leaves', ['cilantro'])).toBe('cilantro');
+    expect(findDislike('3 large eggs', ['egg'])).toBe('egg');
+    expect(findDislike('Tomatoes', ['tomato'])).toBe('tomato');
+  });
+
+  it('does not match inside longer words', () => {
+    expect(findDislike('Eggplant', ['egg'])).toBeUndefined();
+    expect(findDislike('Pineapple', ['apple'])).toBeUndefined();
+  });
+
+  it('treats dislikes as plain text, not patterns', () => {
+    expect(findDislike('Lemon juice', ['lemon (juice)'])).toBeUndefined();
+    expect(findDislike('Blue cheese', ['  BLUE CHEESE '])).toBe('  BLUE CHEESE ');
+  });
+});
+
+describe('checkRecipe', () => {
+  const recipe: Recipe = {
+    title: 'Pad thai',
+    description: '',
+    servings: 2,
+    ingredients: [
+      { name: 'rice noodles' },
+      { name: 'peanuts' },
+      { name: 'cilantro' },
+    ],
+    steps: [
+      { instruction: 'Soak <<rice noodles|200g>>.', type: StepType.PREP },
+      { instruction: 'Fry with <<fish sauce|2 tbsp>> and top with <<peanuts|50g>>.', type: StepType.COOK },
+    ],
+  };
+
+  it('lists allergens before dislikes, with where each turns up', () => {
+    const profile = { ...EMPTY_PROFILE, allergens: ['peanuts' as const, 'fish' as const], dislikes: ['cilantro'] };
+    expect(checkRecipe(recipe, profile)).toEqual([
+      { kind: 'allergen', label: 'Peanuts', allergen: 'peanuts', terms: ['peanuts'], inIngredients: true, steps: [1] },
+      { kind: 'allergen', label: 'Fish', allergen: 'fish', terms: ['fish sauce'], inIngredients: false, steps: [1] },
+      { kind: 'dislike', label: 'cilantro', allergen: undefined, terms: ['cilantro'], inIngredients: true, steps: [] },
+    ]);
+  });
+
+  it('has nothing to say for an empty profile', () => {
+    expect(checkRecipe(recipe, EMPTY_PROFILE)).toEqual([]);
+    expect(describeDietaryProfile(EMPTY_PROFILE)).toBe('');
+  });
+});
@@ -0,0 +1,157 @@
+import { Allergen, Diet, DietaryProfile, Recipe } from '../types';
+import { INGREDIENT_TAG_REGEX } from './scaling';
+
+export const EMPTY_PROFILE: DietaryProfile = { diets: [], allergens: [], dislikes: [], equipment: [] };
+
+export const DIET_LABELS: Record<Diet, string> = {
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  pescatarian: 'Pescatarian',
+  keto: 'Keto',
+  halal: 'Halal',
+  kosher: 'Kosher',
+  'gluten-free': 'Gluten-free',
+  'dairy-free': 'Dairy-free',
+};
+
+interface AllergenRule {
+  label: string;
+  // Ingredient names containing the allergen
+  matches: RegExp;
+  // Look-alikes that don't contain it ("nutmeg", "coconut milk"); removed before matching
+  excludes?: RegExp;
+}
+
+const ALLERGEN_RULES: Record<Allergen, AllergenRule> = {
+  peanuts: {
+    label: 'Peanuts',
+    matches: /\b(peanuts?|groundnuts?|arachis|satay)\b/,
+  },
+  'tree-nuts': {
+    label: 'Tree nuts',
+    matches: /\b(almonds?|cashews?|walnuts?|pecans?|pistachios?|hazelnuts?|macadamias?|brazil nuts?|pine nuts?|chestnuts?|nuts?|praline|marzipan|frangipane|gianduja|nutella|amaretto|pesto)\b/,
+    excludes: /\b(nutmeg|coconuts?|water chestnuts?|butternut|doughnuts?|donuts?|peanuts?)\b/g,
+  },
+  dairy: {
+    label: 'Dairy',
+    matches: /\b(milk|butter|buttermilk|cream|cheese|parmesan|mozzarella|ricotta|mascarpone|feta|cheddar|gruy[eè]re|yogh?urt|ghee|whey|casein|cr[eè]me fra[iî]che|half-and-half|paneer|custard|ice cream)\b/,
+    excludes: /\b((coconut|oat|almond|soy|rice|cashew|plant|vegan) (milk|cream|yogh?urt|butter|cheese)|(peanut|almond|cashew|cocoa|nut|shea|apple) butter|cream of tartar|butternut|butter beans?|butterhead|vegan \w+|dairy-free \w+)\b/g,
+  },
+  eggs: {
+    label: 'Eggs',
+    matches: /\b(eggs?|egg (whites?|yolks?)|yolks?|mayonnaise|mayo|meringue|aioli|albumen)\b/,
+    excludes: /\b(eggplants?|egg-free \w+|vegan (mayo|mayonnaise))\b/g,
+  },
+  gluten: {
+    label: 'Gluten',
+    matches: /\b(wheat|flour|bread|breadcrumbs|panko|pasta|spaghetti|tagliatelle|linguine|penne|fettuccine|lasagne|lasagna|noodles?|couscous|bulgur|barley|rye|spelt|semolina|seitan|soy sauce|tortillas?|pita|croutons?|biscuits?|cookies?|crackers?|beer)\b/,
+    excludes: /\b(gluten-free \w+|(rice|almond|corn|coconut|chickpea|buckwheat|tapioca|potato|oat) (flour|noodles?|tortillas?)|tamari|cornflour)\b/g,
+  },
+  soy: {
+    label: 'Soy',
+    matches: /\b(soy|soya|soybeans?|tofu|edamame|miso|tempeh|tamari)\b/,
+  },
+  fish: {
+    label: 'Fish',
+    matches: /\b(fish|salmon|tuna|cod|haddock|anchov(y|ies)|sardines?|mackerel|trout|tilapia|halibut|bass|snapper|worcestershire)\b/,
+  },
+  shellfish: {
+    label: 'Shellfish',
+    matches: /\b(shrimps?|prawns?|crabs?|lobsters?|mussels?|clams?|oysters?|scallops?|crayfish|langoustines?|squid|calamari|octopus)\b/,
+  },
+  sesame: {
+    label: 'Sesame',
+    matches: /\b(sesame|tahini|halva|gomasio|za'?atar)\b/,
+  },
+};
+
+export const ALLERGEN_LABELS = Object.fromEntries(
+  Object.entries(ALLERGEN_RULES).map(([id, rule]) => [id, rule.label])
+) as Record<Allergen, string>;
+
+// Allergens an ingredient name appears to contain
+export const findAllergens = (text: string, allergens: Allergen[]): Allergen[] => {
+  const lower = text.toLowerCase();
+  return allergens.filter(allergen => {
+    const { matches, excludes } = ALLERGEN_RULES[allergen];
+    const cleaned = excludes ? lower.replace(excludes, ' ') : lower;
+    return matches.test(cleaned);
+  });
+};
+
+// The disliked ingredient an ingredient name mentions, if any. Whole words
+// only, plurals included: "egg" matches "eggs" but not "eggplant".
+export const findDislike = (text: string, dislikes: string[]): string | undefined => {
+  const lower = text.toLowerCase();
+  return dislikes.find(dislike => {
+    const word = dislike.trim().toLowerCase();
+    return word && new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:e?s)?\\b`).test(lower);
+  });
+};
+
+export interface DietaryWarning {
+  kind: 'allergen' | 'dislike';
+  // Allergen label or the disliked ingredient as the user typed it
+  label: string;
+  allergen?: Allergen;
+  // Ingredient names that triggered the warning
+  terms: string[];
+  inIngredients: boolean;
+  // Zero-based indexes of steps whose ingredient tags triggered it
+  steps: number[];
+}
+
+// Local safety net for the prompt instructions: scans the ingredient list and
+// every <<Name|Quantity>> tag against the profile's allergens and dislikes
+export const checkRecipe = (recipe: Recipe, profile: DietaryProfile): DietaryWarning[] => {
+  const warnings = new Map<string, DietaryWarning>();
+
+  const record = (kind: DietaryWarning['kind'], label: string, term: string, step?: number, allergen?: Allergen) => {
+    const id = `${kind}:${label}`;
+    const warning = warnings.get(id) ?? { kind, label, allergen, terms: [], inIngredients: false, steps: [] };
+    if (!warning.terms.includes(term)) warning.terms.push(term);
+    if (step === undefined) warning.inIngredients = true;
+    else if (!warning.steps.includes(step)) warning.steps.push(step);
+    warnings.set(id, warning);
+  };
+
+  const scan = (name: string, step?: number) => {
+    findAllergens(name, profile.allergens).forEach(allergen =>
+      record('allergen', ALLERGEN_LABELS[allergen], name, step, allergen)
+    );
+    const dislike = findDislike(name, profile.dislikes);
+    if (dislike) record('dislike', dislike, name, step);
+  };
+
+  recipe.ingredients.forEach(ingredient => scan(ingredient.name));
+  recipe.steps.forEach((step, index) => {
+    for (const [, name] of step.instruction.matchAll(INGREDIENT_TAG_REGEX)) {
+      scan(name.trim(), index);
+    }
+  });
+
+  // Allergens first; they are the ones that can hurt someone
+  return [...warnings.values()].sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'allergen' ? -1 : 1));
+};
+
+export const isProfileEmpty = (profile: DietaryProfile) =>
+  !profile.diets.length && !profile.allergens.length && !profile.dislikes.length && !profile.equipment.length;
+
+// Prompt section describing the profile; empty when there is nothing to say
+export const describeDietaryProfile = (profile: DietaryProfile): string => {
+  const lines: string[] = [];
+  if (profile.diets.length > 0) {
+    lines.push(`The cook follows these diets: ${profile.diets.map(d => DIET_LABELS[d]).join(', ')}. Every ingredient must comply.`);
+  }
+  if (profile.allergens.length > 0) {
+    lines.push(`STRICT: the cook is allergic to ${profile.allergens.map(a => ALLERGEN_LABELS[a].toLowerCase()).join(', ')}. ` +
+      `Never use ingredients containing them, including hidden sources such as sauces, pastes, oils, stocks and garnishes.`);
+  }
+  if (profile.dislikes.length > 0) {
+    lines.push(`Avoid these ingredients: ${profile.dislikes.join(', ')}.`);
+  }
+  if (profile.equipment.length > 0) {
+    lines.push(`The kitchen has: ${profile.equipment.join(', ')}, plus a stovetop, pans and knives. Don't require any other appliances.`);
+  }
+  return lines.length > 0 ? `\n  DIETARY PROFILE:\n  ${lines.join('\n  ')}\n` : '';
+};
@@ -0,0 +1,15 @@
+// Saves a generated file through a temporary link
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (filename: string, text: string, mimeType = 'text/plain') =>
+  downloadBlob(filename, new Blob([text], { type: `${mimeType};charset=utf-8` }));
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { formatCountdown, formatDuration, formatSpokenDuration, parseDurations, timerLabel } from './durations';
+
+describe('parseDurations', () => {
+  it('finds numeric and spelled-out durations', () => {
+    expect(parseDurations('Simmer for 20 minutes.')).toEqual([{ text: '20 minutes', seconds: 1200 }]);
+    expect(parseDurations('Rest for ten mins.')).toEqual([{ text: 'ten mins', seconds: 600 }]);
+    expect(parseDurations('Bake 1½ hrs.')).toEqual([{ text: '1 1/2 hrs', seconds: 5400 }]);
+    expect(parseDurations('Leave for half an hour')).toEqual([{ text: 'half an hour', seconds: 1800 }]);
+  });
+
+  it('times ranges from the lower bound', () => {
+    expect(parseDurations('Roast 25-30 min until golden')).toEqual([{ text: '25-30 min', seconds: 1500, maxSeconds: 1800 }]);
+    expect(parseDurations('Stir for two to three minutes')).toEqual([{ text: 'two to three minutes', seconds: 120, maxSeconds: 180 }]);
+  });
+
+  it('joins an hour-and-minutes phrase into one duration', () => {
+    expect(parseDurations('Braise 1 hour and 30 minutes')).toEqual([{ text: '1 hour and 30 minutes', seconds: 5400 }]);
+  });
+
+  it('keeps separate durations apart', () => {
+    expect(parseDurations('Sear 2 minutes per side, then rest 5 minutes').map(d => d.seconds)).toEqual([120, 300]);
+  });
+
+  it('ignores durations with no explicit quantity', () => {
+    expect(parseDurations('Let it sit a minute or so before slicing')).toEqual([]);
+    expect(parseDurations('Brush with an hour glaze')).toEqual([]);
+    expect(parseDurations('Whisk for a second')).toEqual([]);
+  });
+
+  it('ignores quantities followed by words that only start like a unit', () => {
+    expect(parseDurations('Add 2 handfuls of spinach')).toEqual([]);
+    expect(parseDurations('Use 2 h of the stock')).toEqual([]);
+    expect(parseDurations('Add 3 mint leaves and 2 semolina spoons')).toEqual([]);
+  });
+
+  it('ignores zero-length durations', () => {
+    expect(parseDurations('Cook 0 minutes')).toEqual([]);
+  });
+});
+
+describe('timerLabel', () => {
+  it('names the timer after the clause mentioning the duration', () => {
+    const instruction = 'Add the onions, then simmer for 20 minutes';
+    expect(timerLabel(instruction, parseDurations(instruction)[0])).toBe('Simmer for 20 minutes');
+  });
+});
+
+describe('formatting', () => {
+  it('formats countdowns', () => {
+    expect(formatCountdown(45)).toBe('0:45');
+    expect(formatCountdown(750)).toBe('12:30');
+    expect(formatCountdown(3900)).toBe('1:05:00');
+  });
+
+  it('formats short and spoken durations', () => {
+    expect(formatDuration(5400)).toBe('1 h 30 min');
+    expect(formatDuration(0)).toBe('0 s');
+    expect(formatSpokenDuration(3660)).toBe('1 hour 1 minute');
+    expect(formatSpokenDuration(0)).toBe('0 seconds');
+  });
+});
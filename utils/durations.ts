@@ -0,0 +1,132 @@
+import { expandUnicodeFractions, parseNumber } from './quantity';
+import { stripIngredientMarkup } from './ingredients';
+
+export interface StepDuration {
+  // The phrase as written, e.g. "5-10 minutes"
+  text: string;
+  seconds: number;
+  // Upper bound for ranges; timers start from the lower bound so nothing overcooks
+  maxSeconds?: number;
+}
+
+const UNIT_SECONDS: [RegExp, number][] = [
+  [/^h/i, 3600],
+  [/^m/i, 60],
+  [/^s/i, 1],
+];
+
+// No "a"/"an": "a minute or so" and "an hour glaze" aren't timings to set a timer for
+const WORD_NUMBERS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8,
+  nine: 9, ten: 10, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, forty: 40, 'forty-five': 45,
+};
+
+const NUMBER = `(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:\\.\\d+)?|${Object.keys(WORD_NUMBERS).sort((a, b) => b.length - a.length).join('|')})`;
+const UNIT = '(?:hours?|hrs?|minutes?|mins?|seconds?|secs?)';
+
+const DURATION_REGEX = new RegExp(
+  `\\b(?:(half an hour)|(${NUMBER})(?:\\s*(?:-|–|to|or)\\s*(${NUMBER}))?\\s*(${UNIT}))(?![a-z])`,
+  'gi'
+);
+
+// "1 hour" followed by "30 minutes" (optionally joined by "and") is one duration
+const COMPOUND_GAP = /^\s*(?:and\s+)?$/i;
+
+const toNumber = (token: string): number | undefined =>
+  WORD_NUMBERS[token.toLowerCase()] ?? parseNumber(token);
+
+const unitSeconds = (unit: string) => UNIT_SECONDS.find(([pattern]) => pattern.test(unit))![1];
+
+interface RawMatch extends StepDuration {
+  start: number;
+  end: number;
+  unit: number;
+}
+
+// Finds every duration mentioned in a step ("simmer for 20 minutes", "rest 5-10 min")
+export const parseDurations = (instruction: string): StepDuration[] => {
+  const text = expandUnicodeFractions(stripIngredientMarkup(instruction));
+  const matches: RawMatch[] = [];
+
+  for (const match of text.matchAll(DURATION_REGEX)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (match[1]) {
+      matches.push({ text: match[0], seconds: 1800, start, end, unit: 60 });
+      continue;
+    }
+    const min = toNumber(match[2]);
+    const max = match[3] ? toNumber(match[3]) : undefined;
+    if (min === undefined || min <= 0) continue;
+    const unit = unitSeconds(match[4]);
+    matches.push({
+      text: match[0],
+      seconds: Math.round(min * unit),
+      maxSeconds: max !== undefined && max > min ? Math.round(max * unit) : undefined,
+      start,
+      end,
+      unit,
+    });
+  }
+
+  const merged: RawMatch[] = [];
+  for (const match of matches) {
+    const previous = merged[merged.length - 1];
+    if (
+      previous && !previous.maxSeconds && !match.maxSeconds && previous.unit > match.unit &&
+      COMPOUND_GAP.test(text.slice(previous.end, match.start))
+    ) {
+      previous.seconds += match.seconds;
+      previous.text = text.slice(previous.start, match.end);
+      previous.end = match.end;
+      previous.unit = match.unit;
+      continue;
+    }
+    merged.push({ ...match });
+  }
+
+  return merged.map(({ text, seconds, maxSeconds }) => (maxSeconds ? { text, seconds, maxSeconds } : { text, seconds }));
+};
+
+// Short name for a timer: the clause of the step that mentions the duration
+export const timerLabel = (instruction: string, duration: StepDuration): string => {
+  const text = expandUnicodeFractions(stripIngredientMarkup(instruction));
+  const clause = text.split(/[;,]|\.(?!\d)|\bthen\b/i).find(part => part.includes(duration.text)) ?? text;
+  const trimmed = clause.trim().replace(/^and\s+/i, '');
+  const label = trimmed.length > 40 ? `${trimmed.slice(0, 39).trimEnd()}…` : trimmed;
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+// "1:05:00", "12:30", "0:45"
+export const formatCountdown = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+};
+
+// "20 min", "1 h 30 min", "45 s"
+export const formatDuration = (totalSeconds: number): string => {
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  const parts: string[] = [];
+  if (h) parts.push(`${h} h`);
+  if (m) parts.push(`${m} min`);
+  if (s || parts.length === 0) parts.push(`${s} s`);
+  return parts.join(' ');
+};
+
+// "1 hour 30 minutes", for reading aloud
+export const formatSpokenDuration = (totalSeconds: number): string => {
+  const units: [number, string][] = [[3600, 'hour'], [60, 'minute'], [1, 'second']];
+  let rest = totalSeconds;
+  const parts = units.flatMap(([size, name]) => {
+    const count = Math.floor(rest / size);
+    rest -= count * size;
+    return count > 0 ? [`${count} ${name}${count === 1 ? '' : 's'}`] : [];
+  });
+  return parts.join(' ') || '0 seconds';
+};
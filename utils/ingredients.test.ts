@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseIngredient } from './ingredients';
+
+describe('parseIngredient', () => {
+  it('splits amount, unit, name and preparation', () => {
+    expect(parseIngredient('2 cups flour, sifted')).toEqual({
+      name: 'flour',
+      quantity: 2,
+      unit: 'cup',
+      preparation: 'sifted',
+    });
+  });
+
+  it('reads mixed fractions and ranges', () => {
+    expect(parseIngredient('1 1/2 tbsp olive oil')).toMatchObject({ name: 'olive oil', quantity: 1.5, unit: 'tbsp' });
+    expect(parseIngredient('2-3 cloves garlic, minced')).toMatchObject({
+      name: 'garlic',
+      quantity: 2,
+      quantityMax: 3,
+      unit: 'clove',
+      preparation: 'minced',
+    });
+  });
+
+  it('drops list bullets and "of" after the unit', () => {
+    expect(parseIngredient('- 1 cup of sugar')).toMatchObject({ name: 'sugar', quantity: 1, unit: 'cup' });
+  });
+
+  it('treats "to taste" as preparation', () => {
+    expect(parseIngredient('salt to taste')).toMatchObject({ name: 'salt', preparation: 'to taste', quantity: undefined });
+  });
+
+  it('flags optional ingredients and keeps the group', () => {
+    expect(parseIngredient('parsley (optional)', 'topping')).toMatchObject({ name: 'parsley', optional: true, group: 'topping' });
+  });
+
+  it('leaves counted ingredients without a unit', () => {
+    expect(parseIngredient('3 eggs')).toMatchObject({ name: 'eggs', quantity: 3, unit: undefined });
+  });
+});
@@ -0,0 +1,114 @@
+import { Ingredient } from '../types';
+import { formatAmount, normalizeUnit, parseAmount } from './quantity';
+
+const OPTIONAL_PATTERN = /\s*(?:\(\s*optional\s*\)|,?\s*\boptional\b)\s*/i;
+
+// Parses a free-text line like "2 cups flour, sifted" into a structured ingredient
+export const parseIngredient = (text: string, group?: string): Ingredient => {
+  let remaining = text.trim().replace(/^[-*•]\s*/, '');
+
+  const optional = OPTIONAL_PATTERN.test(remaining);
+  if (optional) {
+    remaining = remaining.replace(OPTIONAL_PATTERN, ' ').trim();
+  }
+
+  const { quantity, quantityMax, unit, rest } = parseAmount(remaining);
+  // "2 cups of flour" -> "flour"
+  remaining = unit ? rest.replace(/^of\s+/i, '') : rest;
+
+  // "salt to taste" reads the same as "salt, to taste"
+  remaining = remaining.replace(/,?\s+(to taste)$/i, ', $1');
+
+  const commaIndex = remaining.indexOf(',');
+  const name = (commaIndex >= 0 ? remaining.slice(0, commaIndex) : remaining).trim();
+  const preparation = commaIndex >= 0 ? remaining.slice(commaIndex + 1).trim() : '';
+
+  return {
+    name: name || text.trim(),
+    quantity,
+    quantityMax,
+    unit,
+    preparation: preparation || undefined,
+    optional: optional || undefined,
+    group,
+  };
+};
+
+const cleanString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const cleanNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+
+// Accepts either structured ingredients from the model or legacy string lists.
+// In string lists, a line ending in ":" ("For the sauce:") starts a new group.
+export const normalizeIngredients = (raw: unknown): Ingredient[] => {
+  if (!Array.isArray(raw)) return [];
+
+  const result: Ingredient[] = [];
+  let currentGroup: string | undefined;
+
+  for (const item of raw) {
+    if (typeof item === 'string') {
+      const line = item.trim();
+      if (!line) continue;
+      if (line.endsWith(':')) {
+        currentGroup = line.slice(0, -1).replace(/^for (the )?/i, '').trim() || undefined;
+        continue;
+      }
+      result.push(parseIngredient(line, currentGroup));
+      continue;
+    }
+
+    if (item && typeof item === 'object') {
+      const obj = item as Record<string, unknown>;
+      const name = cleanString(obj.name);
+      if (!name) continue;
+      const quantity = cleanNumber(obj.quantity);
+      const quantityMax = cleanNumber(obj.quantityMax);
+      result.push({
+        name,
+        quantity,
+        quantityMax: quantity !== undefined && quantityMax !== undefined && quantityMax > quantity ? quantityMax : undefined,
+        unit: normalizeUnit(cleanString(obj.unit)),
+        preparation: cleanString(obj.preparation),
+        optional: obj.optional === true || undefined,
+        group: cleanString(obj.group),
+      });
+    }
+  }
+
+  return result;
+};
+
+// "1 1/2 cups flour, sifted (optional)"
+export const formatIngredient = (ingredient: Ingredient): string => {
+  const amount = formatAmount(ingredient);
+  let text = amount ? `${amount} ${ingredient.name}` : ingredient.name;
+  if (ingredient.preparation) text += `, ${ingredient.preparation}`;
+  if (ingredient.optional) text += ' (optional)';
+  return text;
+};
+
+// Preserves first-seen order of groups; ungrouped items come first
+export const groupIngredients = (ingredients: Ingredient[]): { group?: string; items: Ingredient[] }[] => {
+  const groups: { group?: string; items: Ingredient[] }[] = [];
+  for (const ingredient of ingredients) {
+    let entry = groups.find(g => g.group === ingredient.group);
+    if (!entry) {
+      entry = { group: ingredient.group, items: [] };
+      if (ingredient.group) groups.push(entry);
+      else groups.unshift(entry);
+    }
+    entry.items.push(ingredient);
+  }
+  return groups;
+};
+
+// "Add <<butter|50g>>" -> "Add butter"
+export const stripIngredientMarkup = (text: string): string =>
+  text.replace(/<<([^|>]+)\|[^>]+>>/g, '$1');
+
+// "Add <<butter|50g>>" -> "Add 50g of butter", for reading steps aloud
+export const toSpokenText = (text: string): string =>
+  text.replace(/<<([^|>]+)\|([^>]+)>>/g, '$2 of $1');
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { PlannedMeal, Recipe } from '../types';
+import { fromDateKey, nextLeftoverSlot, recipesToShopFor, startOfWeek, toDateKey } from './mealPlan';
+
+const recipe = (title: string, servings: number, description = ''): Recipe => ({
+  title,
+  description,
+  servings,
+  ingredients: [{ name: 'rice', quantity: 100 * servings, unit: 'g' }],
+  steps: [],
+});
+
+const meal = (id: string, date: string, slot: PlannedMeal['slot'], extra: Partial<PlannedMeal> = {}): PlannedMeal => ({
+  id,
+  date,
+  slot,
+  title: extra.recipe?.title ?? id,
+  ...extra,
+});
+
+describe('dates', () => {
+  it('round-trips local date keys', () => {
+    expect(toDateKey(fromDateKey('2026-03-09'))).toBe('2026-03-09');
+  });
+
+  it('starts weeks on Monday', () => {
+    expect(toDateKey(startOfWeek(fromDateKey('2026-10-18')))).toBe('2026-10-12');
+    expect(toDateKey(startOfWeek(fromDateKey('2026-10-12')))).toBe('2026-10-12');
+  });
+});
+
+describe('nextLeftoverSlot', () => {
+  it('picks the next free lunch or dinner, skipping breakfast', () => {
+    const dinner = meal('a', '2026-10-12', 'dinner');
+    expect(nextLeftoverSlot([dinner], dinner)).toEqual({ date: '2026-10-13', slot: 'lunch' });
+  });
+
+  it('skips slots that are already planned', () => {
+    const lunch = meal('a', '2026-10-12', 'lunch');
+    const taken = [lunch, meal('b', '2026-10-12', 'dinner'), meal('c', '2026-10-13', 'lunch')];
+    expect(nextLeftoverSlot(taken, lunch)).toEqual({ date: '2026-10-13', slot: 'dinner' });
+  });
+
+  it('gives up after the lookahead', () => {
+    const first = meal('a', '2026-10-12', 'dinner');
+    const taken = [first, meal('b', '2026-10-13', 'lunch'), meal('c', '2026-10-13', 'dinner')];
+    expect(nextLeftoverSlot(taken, first, 1)).toBeUndefined();
+  });
+});
+
+describe('recipesToShopFor', () => {
+  it('scales a recipe planned twice up once', () => {
+    const result = recipesToShopFor([
+      meal('a', '2026-10-12', 'dinner', { recipe: recipe('Risotto', 2) }),
+      meal('b', '2026-10-14', 'dinner', { recipe: recipe('Risotto', 4) }),
+    ]);
+    expect(result).toHaveLength(1);
+    expect(result[0].sourceId).toBe('a');
+    expect(result[0].recipe.servings).toBe(6);
+    expect(result[0].recipe.ingredients[0].quantity).toBe(600);
+  });
+
+  it('keeps different recipes that share a title apart', () => {
+    const result = recipesToShopFor([
+      meal('a', '2026-10-12', 'dinner', { recipe: recipe('Curry', 2, 'Chickpea'), savedId: 'saved-1' }),
+      meal('b', '2026-10-13', 'dinner', { recipe: recipe('Curry', 2, 'Chicken'), savedId: 'saved-2' }),
+      meal('c', '2026-10-14', 'dinner', { recipe: recipe('Curry', 2, 'Lentil') }),
+    ]);
+    expect(result.map(r => [r.sourceId, r.recipe.servings])).toEqual([['saved-1', 2], ['saved-2', 2], ['c', 2]]);
+  });
+
+  it('needs no shopping for leftover meals', () => {
+    const leftover = meal('b', '2026-10-13', 'lunch', {
+      title: 'Fried rice',
+      leftover: { fromMealId: 'a', suggestion: { title: 'Fried rice', description: '', matchingIngredients: ['rice'] } },
+    });
+    expect(recipesToShopFor([leftover])).toEqual([]);
+  });
+});
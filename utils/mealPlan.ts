@@ -0,0 +1,88 @@
+import { MealSlot, PlannedMeal, Recipe } from '../types';
+import { scaleRecipe } from './scaling';
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+
+export const MEAL_SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+};
+
+// Leftovers make a lunch or a dinner, not a breakfast
+const LEFTOVER_SLOTS: MealSlot[] = ['lunch', 'dinner'];
+
+// Local calendar date as YYYY-MM-DD
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date): Date => addDays(date, -((date.getDay() + 6) % 7));
+
+export const weekDates = (weekStart: Date): Date[] => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+// "Mon 14"
+export const formatDay = (date: Date): string =>
+  date.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' });
+
+// "14 – 20 Oct"
+export const formatWeek = (weekStart: Date): string => {
+  const end = addDays(weekStart, 6);
+  const startText = weekStart.toLocaleDateString(undefined, { day: 'numeric', month: weekStart.getMonth() === end.getMonth() ? undefined : 'short' });
+  return `${startText} – ${end.toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}`;
+};
+
+// Position of a slot in time, for ordering meals across days
+const slotOrder = (date: string, slot: MealSlot) => `${date}#${MEAL_SLOTS.indexOf(slot)}`;
+
+export const findMeal = (meals: PlannedMeal[], date: string, slot: MealSlot): PlannedMeal | undefined =>
+  meals.find(meal => meal.date === date && meal.slot === slot);
+
+// First free lunch or dinner after the given meal, looking up to a week ahead
+export const nextLeftoverSlot = (
+  meals: PlannedMeal[],
+  after: PlannedMeal,
+  lookaheadDays = 7
+): { date: string; slot: MealSlot } | undefined => {
+  const start = fromDateKey(after.date);
+  const afterOrder = slotOrder(after.date, after.slot);
+  for (let offset = 0; offset <= lookaheadDays; offset++) {
+    const date = toDateKey(addDays(start, offset));
+    for (const slot of LEFTOVER_SLOTS) {
+      if (slotOrder(date, slot) <= afterOrder) continue;
+      if (!findMeal(meals, date, slot)) return { date, slot };
+    }
+  }
+  return undefined;
+};
+
+// The same recipe planned twice may be scaled differently, so unsaved recipes
+// are told apart by what doesn't change with servings, not by title alone
+const plannedRecipeKey = (meal: PlannedMeal, recipe: Recipe): string =>
+  meal.savedId ?? JSON.stringify([recipe.title, recipe.description, recipe.ingredients.map(i => i.name)]);
+
+// Recipes to shop for over a set of meals, with the shopping list source each
+// belongs to. A recipe planned more than once is scaled up once rather than
+// listed twice; leftover meals need no shopping.
+export const recipesToShopFor = (meals: PlannedMeal[]): { sourceId: string; recipe: Recipe }[] => {
+  const byRecipe = new Map<string, { sourceId: string; recipe: Recipe; servings: number }>();
+  for (const meal of meals) {
+    if (!meal.recipe) continue;
+    const key = plannedRecipeKey(meal, meal.recipe);
+    const entry = byRecipe.get(key);
+    if (entry) entry.servings += meal.recipe.servings;
+    else byRecipe.set(key, { sourceId: meal.savedId ?? meal.id, recipe: meal.recipe, servings: meal.recipe.servings });
+  }
+  return [...byRecipe.values()].map(({ sourceId, recipe, servings }) => ({ sourceId, recipe: scaleRecipe(recipe, servings) }));
+};
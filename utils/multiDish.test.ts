@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe, RecipeStep, StepType } from '../types';
+import { normalizeKitchen, planMultiDish, stepResources } from './multiDish';
+
+const recipe = (title: string, steps: RecipeStep[]): Recipe => ({ title, description: '', servings: 2, ingredients: [], steps });
+
+const roast = recipe('Roast potatoes', [
+  { id: 's1', instruction: 'Chop the potatoes', type: StepType.PREP, activeMinutes: 10, passiveMinutes: 0 },
+  { id: 's2', instruction: 'Roast in the oven', type: StepType.TIMING, activeMinutes: 2, passiveMinutes: 40, dependsOn: ['s1'] },
+]);
+
+const gratin = recipe('Leek gratin', [
+  { id: 's1', instruction: 'Slice the leeks', type: StepType.PREP, activeMinutes: 5, passiveMinutes: 0 },
+  { id: 's2', instruction: 'Bake the gratin', type: StepType.TIMING, activeMinutes: 2, passiveMinutes: 30, dependsOn: ['s1'] },
+]);
+
+describe('stepResources', () => {
+  it('reads heat sources from the instruction and equipment', () => {
+    expect(stepResources({ instruction: 'Bake for 20 minutes', type: StepType.TIMING })).toEqual(['oven']);
+    expect(stepResources({ instruction: 'Cook the sauce', type: StepType.COOK, equipment: ['saucepan'] })).toEqual(['burner']);
+    expect(stepResources({ instruction: 'Whisk the eggs', type: StepType.PREP })).toEqual([]);
+  });
+});
+
+describe('planMultiDish', () => {
+  it('does the mise en place first and finishes every dish together', () => {
+    const plan = planMultiDish([roast, gratin], { oven: 2, burner: 4 });
+    expect(plan.steps.map(s => s.phase)).toEqual(['prep', 'prep', 'cook', 'cook']);
+    expect(plan.steps.slice(0, 2).map(s => [s.dish, s.start])).toEqual([[0, 0], [1, 10]]);
+    expect(plan.dishEnds).toEqual([57, 57]);
+    expect(plan.totalMinutes).toBe(57);
+  });
+
+  it('never uses more ovens than the kitchen has', () => {
+    const plan = planMultiDish([roast, gratin], { oven: 1, burner: 4 });
+    const [first, second] = plan.steps.filter(s => s.resources.includes('oven'));
+    expect(first.end).toBeLessThanOrEqual(second.start);
+    expect(first.conflicts).toEqual([{ resource: 'oven', dishes: ['Roast potatoes'] }]);
+    expect(plan.totalMinutes).toBe(89);
+  });
+
+  it('keeps a single cook to one hands-on task at a time', () => {
+    const plan = planMultiDish([roast, gratin]);
+    const active = plan.steps.filter(s => s.activeEnd > s.start).sort((a, b) => a.start - b.start);
+    active.slice(1).forEach((s, i) => expect(s.start).toBeGreaterThanOrEqual(active[i].activeEnd));
+  });
+
+  it('plans with at least one of everything when the kitchen says none', () => {
+    expect(planMultiDish([roast, gratin], { oven: 0, burner: -2 })).toEqual(planMultiDish([roast, gratin], { oven: 1, burner: 1 }));
+  });
+});
+
+describe('normalizeKitchen', () => {
+  it('clamps counts and fills in missing or broken values', () => {
+    expect(normalizeKitchen({ oven: 0, burner: 20 })).toEqual({ oven: 1, burner: 8 });
+    expect(normalizeKitchen({ oven: 2.7 })).toEqual({ oven: 2, burner: 4 });
+    expect(normalizeKitchen({ oven: 'two' as unknown as number })).toEqual({ oven: 1, burner: 4 });
+  });
+});
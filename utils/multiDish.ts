@@ -0,0 +1,214 @@
+import { Recipe, RecipeStep, StepType } from '../types';
+import { stepDependencies, stepMinutes } from './stepGraph';
+
+export type KitchenResource = 'oven' | 'burner';
+
+// How many of each heat source the kitchen has
+export type KitchenSetup = Record<KitchenResource, number>;
+
+export const DEFAULT_KITCHEN: KitchenSetup = { oven: 1, burner: 4 };
+export const MAX_RESOURCE_COUNT = 8;
+
+// Whole counts from 1 to MAX_RESOURCE_COUNT; a saved setup may be from an older
+// version or edited by hand, and the planner never finishes with zero of anything
+export const normalizeKitchen = (kitchen: Partial<KitchenSetup>): KitchenSetup => {
+  const count = (resource: KitchenResource) => {
+    const value = Math.floor(Number(kitchen[resource]));
+    return Number.isFinite(value) ? Math.max(1, Math.min(MAX_RESOURCE_COUNT, value)) : DEFAULT_KITCHEN[resource];
+  };
+  return { oven: count('oven'), burner: count('burner') };
+};
+
+export const RESOURCE_LABELS: Record<KitchenResource, { label: string; icon: string }> = {
+  oven: { label: 'Oven', icon: '♨️' },
+  burner: { label: 'Burner', icon: '🔥' },
+};
+
+export interface PlannedStep {
+  // Index into the recipes being cooked
+  dish: number;
+  // Index of the step within its own recipe
+  stepIndex: number;
+  step: RecipeStep;
+  // Minutes from when cooking begins
+  start: number;
+  activeEnd: number;
+  end: number;
+  // Mise en place done before any heat goes on
+  phase: 'prep' | 'cook';
+  resources: KitchenResource[];
+  // Titles of other dishes whose use of an oven or burner moved this step earlier
+  conflicts: { resource: KitchenResource; dishes: string[] }[];
+}
+
+export interface MultiDishPlan {
+  // In the order to cook them
+  steps: PlannedStep[];
+  totalMinutes: number;
+  // When each dish is done, in minutes from the start
+  dishEnds: number[];
+}
+
+const OVEN_HINT = /\b(oven|bake[ds]?|baking|roast(?:ed|ing)?|broil|gratin)\b/i;
+const BURNER_HINT = /\b(pot|pan|saucepan|skillet|wok|stove|hob|boil|simmer|fry|saut[eé]|sear|melt|poach|steam|reduce)\b/i;
+
+// Heat sources a step keeps busy for its whole length, simmering included
+export const stepResources = (step: RecipeStep): KitchenResource[] => {
+  const text = `${step.instruction} ${(step.equipment ?? []).join(' ')}`;
+  if (OVEN_HINT.test(text)) return ['oven'];
+  if (BURNER_HINT.test(text)) return ['burner'];
+  return [];
+};
+
+interface Node {
+  dish: number;
+  stepIndex: number;
+  step: RecipeStep;
+  active: number;
+  passive: number;
+  resources: KitchenResource[];
+  // Node indexes, within the combined list
+  dependsOn: number[];
+  dependents: number[];
+  // Longest chain of work before this step can start, for ordering
+  head: number;
+}
+
+interface Booking {
+  from: number;
+  to: number;
+  node: number;
+}
+
+const overlaps = (booking: Booking, from: number, to: number) => booking.from < to && booking.to > from;
+
+// Earliest moment in [from, to) at which `capacity` bookings are already running
+const firstSaturated = (bookings: Booking[], from: number, to: number, capacity: number): { at: number; by: Booking[] } | null => {
+  const points = [from, ...bookings.map(b => b.from).filter(at => at > from && at < to)].sort((a, b) => a - b);
+  for (const at of points) {
+    const running = bookings.filter(b => b.from <= at && b.to > at);
+    if (running.length >= capacity) return { at, by: running };
+  }
+  return null;
+};
+
+// Interleaves several recipes into one session for a single cook. Pure mise en
+// place (prep that needs no heat and follows only other prep) is done first,
+// dish by dish. Everything else is scheduled backwards from a shared finish so
+// the dishes are ready together, without the cook doing two hands-on things at
+// once or using more ovens and burners than the kitchen has.
+export const planMultiDish = (recipes: Recipe[], setup: KitchenSetup = DEFAULT_KITCHEN): MultiDishPlan => {
+  const kitchen = normalizeKitchen(setup);
+  const nodes: Node[] = [];
+  recipes.forEach((recipe, dish) => {
+    const offset = nodes.length;
+    const dependencies = stepDependencies(recipe.steps);
+    recipe.steps.forEach((step, stepIndex) => {
+      const { active, passive } = stepMinutes(step);
+      nodes.push({
+        dish,
+        stepIndex,
+        step,
+        active,
+        passive,
+        resources: stepResources(step),
+        dependsOn: dependencies[stepIndex].map(dep => dep + offset),
+        dependents: [],
+        head: 0,
+      });
+    });
+  });
+  nodes.forEach((node, index) => {
+    node.dependsOn.forEach(dep => nodes[dep].dependents.push(index));
+    node.head = Math.max(0, ...node.dependsOn.map(dep => nodes[dep].head + nodes[dep].active + nodes[dep].passive));
+  });
+
+  const isPrep = nodes.map(() => false);
+  nodes.forEach((node, index) => {
+    isPrep[index] = node.step.type === StepType.PREP
+      && node.resources.length === 0
+      && node.dependsOn.every(dep => isPrep[dep]);
+  });
+
+  const start: number[] = [];
+  const conflicts = nodes.map(() => new Map<KitchenResource, Set<string>>());
+
+  // Prep, one task after another
+  let prepEnd = 0;
+  let cookFree = 0;
+  nodes.forEach((node, index) => {
+    if (!isPrep[index]) return;
+    start[index] = Math.max(cookFree, ...node.dependsOn.map(dep => start[dep] + nodes[dep].active + nodes[dep].passive));
+    cookFree = start[index] + node.active;
+    prepEnd = Math.max(prepEnd, start[index] + node.active + node.passive);
+  });
+
+  // The rest, latest first, with everything finishing at time 0
+  const cookBookings: Booking[] = [];
+  const resourceBookings: Record<KitchenResource, Booking[]> = { oven: [], burner: [] };
+  const placed = new Set<number>();
+  const pending = nodes.map((_, index) => index).filter(index => !isPrep[index]);
+
+  while (placed.size < pending.length) {
+    const ready = pending.filter(index =>
+      !placed.has(index) && nodes[index].dependents.every(dep => placed.has(dep))
+    );
+    const latestEnd = (index: number) => Math.min(0, ...nodes[index].dependents.map(dep => start[dep]));
+    // Prefer the step that can finish latest, then the one with the most work before it
+    const index = ready.reduce((best, candidate) => {
+      const diff = latestEnd(candidate) - latestEnd(best);
+      return diff > 0 || (diff === 0 && nodes[candidate].head > nodes[best].head) ? candidate : best;
+    });
+    const node = nodes[index];
+    const length = node.active + node.passive;
+
+    let from = latestEnd(index) - length;
+    for (;;) {
+      let next = from;
+      const clash = cookBookings.filter(b => overlaps(b, from, from + node.active));
+      if (node.active > 0 && clash.length > 0) {
+        next = Math.min(next, ...clash.map(b => b.from - node.active));
+      }
+      for (const resource of node.resources) {
+        const saturated = firstSaturated(resourceBookings[resource], from, from + Math.max(length, 1), kitchen[resource]);
+        if (!saturated) continue;
+        next = Math.min(next, saturated.at - Math.max(length, 1));
+        const names = conflicts[index].get(resource) ?? new Set<string>();
+        saturated.by.forEach(b => { if (nodes[b.node].dish !== node.dish) names.add(recipes[nodes[b.node].dish].title); });
+        conflicts[index].set(resource, names);
+      }
+      if (next === from) break;
+      from = next;
+    }
+
+    start[index] = from;
+    if (node.active > 0) cookBookings.push({ from, to: from + node.active, node: index });
+    node.resources.forEach(resource =>
+      resourceBookings[resource].push({ from, to: from + Math.max(length, 1), node: index })
+    );
+    placed.add(index);
+  }
+
+  // Cooking begins once the prep is done
+  const cookStart = Math.min(0, ...pending.map(index => start[index]));
+  pending.forEach(index => { start[index] += prepEnd - cookStart; });
+
+  const steps: PlannedStep[] = nodes
+    .map((node, index): PlannedStep => ({
+      dish: node.dish,
+      stepIndex: node.stepIndex,
+      step: node.step,
+      start: start[index],
+      activeEnd: start[index] + node.active,
+      end: start[index] + node.active + node.passive,
+      phase: isPrep[index] ? 'prep' : 'cook',
+      resources: node.resources,
+      conflicts: [...conflicts[index]]
+        .filter(([, dishes]) => dishes.size > 0)
+        .map(([resource, dishes]) => ({ resource, dishes: [...dishes] })),
+    }))
+    .sort((a, b) => a.start - b.start || a.dish - b.dish || a.stepIndex - b.stepIndex);
+
+  const dishEnds = recipes.map((_, dish) => Math.max(0, ...steps.filter(s => s.dish === dish).map(s => s.end)));
+  return { steps, totalMinutes: Math.max(0, ...dishEnds), dishEnds };
+};
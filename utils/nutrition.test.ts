@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { Ingredient, Recipe } from '../types';
+import { estimateNutrition } from './nutrition';
+
+const recipe = (ingredients: Ingredient[], servings = 1): Recipe => ({ title: 'Test', description: '', servings, ingredients, steps: [] });
+
+describe('estimateNutrition', () => {
+  it('adds up counted, spooned and cup-measured ingredients per serving', () => {
+    const estimate = estimateNutrition(recipe([
+      { name: 'eggs', quantity: 4 },
+      { name: 'butter', quantity: 1, unit: 'tbsp' },
+      { name: 'flour', quantity: 1, unit: 'cup' },
+      { name: 'salt' },
+    ], 2));
+    expect(estimate.perServing.calories).toBe(422);
+    expect(estimate.perServing.protein).toBe(19);
+    expect(estimate).toMatchObject({ source: 'local', confidence: 'high', unmatched: [] });
+  });
+
+  it('lowers confidence for ingredients it does not know', () => {
+    const estimate = estimateNutrition(recipe([
+      { name: 'ground turkey', quantity: 500, unit: 'g' },
+      { name: 'red bell pepper', quantity: 1 },
+      { name: 'dragonfruit', quantity: 1 },
+    ]));
+    expect(estimate.perServing.calories).toBe(787);
+    expect(estimate.confidence).toBe('medium');
+    expect(estimate.unmatched).toEqual(['dragonfruit']);
+  });
+
+  it('tells peppers, ground meat and spices apart', () => {
+    const calories = (name: string) => estimateNutrition(recipe([{ name, quantity: 100, unit: 'g' }])).perServing.calories;
+    expect(calories('red bell pepper')).toBe(31);
+    expect(calories('jalapeño pepper')).toBe(40);
+    expect(calories('ground turkey')).toBe(150);
+    expect(calories('black pepper')).toBe(300);
+    expect(calories('ground ginger')).toBe(300);
+    expect(calories('ginger')).toBe(80);
+    expect(calories('sugar snap peas')).toBe(81);
+  });
+
+  it('only matches whole words in alternations', () => {
+    expect(estimateNutrition(recipe([{ name: 'broccolini', quantity: 100, unit: 'g' }])).unmatched).toEqual(['broccolini']);
+    expect(estimateNutrition(recipe([{ name: 'cauliflower', quantity: 100, unit: 'g' }])).perServing.calories).toBe(34);
+  });
+});
@@ -0,0 +1,238 @@
+import { Ingredient, MacroTargets, Nutrients, NutritionConfidence, NutritionEstimate, Recipe } from '../types';
+import { findDensity, unitMeasure } from './units';
+
+interface Food {
+  matches: RegExp;
+  // Per 100 g: kcal, protein g, fat g, carbs g, fiber g, sodium mg
+  per100g: [number, number, number, number, number, number];
+  // Weight of one when counted without a unit ("2 eggs")
+  each?: number;
+  // g/ml for foods the unit converter has no density for; liquids default to 1
+  density?: number;
+  // Weights for units that depend on the food ("2 slices bacon")
+  pieces?: Record<string, number>;
+}
+
+// Approximate values for common ingredients, raw or dry as recipes list them.
+// Order matters: more specific names come before the generic ones they contain.
+const FOODS: Food[] = [
+  { matches: /\b(stock|broth|bouillon)\b/, per100g: [6, 0.6, 0.2, 0.5, 0, 340] },
+  { matches: /\bwater\b/, per100g: [0, 0, 0, 0, 0, 0] },
+  { matches: /\b(soy sauce|tamari)\b/, per100g: [53, 8, 0.6, 5, 0.8, 5500], density: 1.1 },
+  { matches: /\bfish sauce\b/, per100g: [35, 5, 0, 4, 0, 7800], density: 1.2 },
+  { matches: /\bvinegar\b/, per100g: [20, 0, 0, 1, 0, 2] },
+  { matches: /\b(?:baking soda|bicarbonate)\b/, per100g: [0, 0, 0, 0, 0, 27360], density: 0.9 },
+  { matches: /\bbaking powder\b/, per100g: [53, 0, 0, 28, 0.2, 10600], density: 0.9 },
+  { matches: /\bcocoa\b/, per100g: [228, 20, 14, 58, 37, 21] },
+  { matches: /\b(salt)\b/, per100g: [0, 0, 0, 0, 0, 38758] },
+  { matches: /\b(oils?)\b/, per100g: [884, 0, 100, 0, 0, 0], density: 0.92 },
+  { matches: /\bpeanut butter\b/, per100g: [588, 25, 50, 20, 6, 430] },
+  { matches: /\bbuttermilk\b/, per100g: [40, 3.3, 0.9, 4.8, 0, 105], density: 1.03 },
+  { matches: /\b(butter|ghee|margarine)\b/, per100g: [717, 0.9, 81, 0.1, 0, 11] },
+  { matches: /\bcoconut (milk|cream)\b/, per100g: [197, 2, 21, 3, 0, 13] },
+  { matches: /\b(almond|oat|soy|rice|plant) milk\b/, per100g: [40, 1, 1.5, 5, 0.5, 50] },
+  { matches: /\bcream cheese\b/, per100g: [342, 6, 34, 4, 0, 320] },
+  { matches: /\b(sour cream|cr[eè]me fra[iî]che)\b/, per100g: [198, 2.4, 19, 4.6, 0, 31] },
+  { matches: /\b(heavy|double|whipping) cream\b/, per100g: [340, 2.8, 36, 2.7, 0, 27] },
+  { matches: /\bcream\b/, per100g: [250, 2.5, 25, 3.5, 0, 30] },
+  { matches: /\bgreek yogh?urt\b/, per100g: [97, 9, 5, 3.9, 0, 36] },
+  { matches: /\byogh?urt\b/, per100g: [61, 3.5, 3.3, 4.7, 0, 46] },
+  { matches: /\b(dark |milk )?chocolate\b/, per100g: [546, 5, 31, 61, 7, 24], density: 0.72 },
+  { matches: /\bmilk\b/, per100g: [61, 3.2, 3.3, 4.8, 0, 43], density: 1.03 },
+  { matches: /\b(parmesan|parmigiano|pecorino)\b/, per100g: [431, 38, 29, 4, 0, 1600], density: 0.42 },
+  { matches: /\bmozzarella\b/, per100g: [280, 28, 17, 3, 0, 630], density: 0.45 },
+  { matches: /\bfeta\b/, per100g: [264, 14, 21, 4, 0, 1100], density: 0.6 },
+  { matches: /\b(cheddar|gruy[eè]re|cheese)\b/, per100g: [390, 25, 32, 1.5, 0, 650], density: 0.45 },
+  { matches: /\begg yolks?\b|\byolks?\b/, per100g: [322, 16, 27, 3.6, 0, 48], each: 17 },
+  { matches: /\begg whites?\b/, per100g: [52, 11, 0.2, 0.7, 0, 166], each: 33 },
+  { matches: /\beggs?\b/, per100g: [143, 12.6, 9.5, 0.7, 0, 142], each: 50 },
+  { matches: /\b(?:bacon|pancetta)\b/, per100g: [541, 37, 42, 1.4, 0, 1700], pieces: { slice: 12 } },
+  { matches: /\b(sausages?|chorizo)\b/, per100g: [300, 12, 27, 2, 0, 800], each: 75 },
+  { matches: /\bchicken breasts?\b/, per100g: [165, 31, 3.6, 0, 0, 74], each: 200 },
+  { matches: /\bchicken\b/, per100g: [209, 26, 11, 0, 0, 84], each: 120 },
+  { matches: /\bturkey\b/, per100g: [150, 21, 7, 0, 0, 70], each: 200 },
+  { matches: /\b(?:(ground|minced) (beef|meat)|beef mince)\b/, per100g: [254, 17, 20, 0, 0, 66] },
+  { matches: /\b(beef|steak)\b/, per100g: [250, 26, 15, 0, 0, 60], each: 250 },
+  { matches: /\b(pork|ham)\b/, per100g: [242, 27, 14, 0, 0, 62], each: 200 },
+  { matches: /\blamb\b/, per100g: [282, 25, 20, 0, 0, 72] },
+  { matches: /\bsalmon\b/, per100g: [208, 20, 13, 0, 0, 59], each: 150 },
+  { matches: /\btuna\b/, per100g: [132, 28, 1, 0, 0, 47], each: 150 },
+  { matches: /\b(shrimps?|prawns?)\b/, per100g: [99, 24, 0.3, 0.2, 0, 111], each: 15 },
+  { matches: /\b(cod|haddock|white fish|fish)\b/, per100g: [82, 18, 0.7, 0, 0, 54], each: 150 },
+  { matches: /\b(tofu|tempeh)\b/, per100g: [144, 17, 9, 3, 2, 14] },
+  { matches: /\b(chickpeas?|garbanzo)\b/, per100g: [164, 8.9, 2.6, 27, 7.6, 7], pieces: { can: 240 } },
+  { matches: /\blentils?\b/, per100g: [353, 25, 1, 60, 11, 6], density: 0.8 },
+  { matches: /\bbeans?\b/, per100g: [130, 8.5, 0.5, 23, 7, 5], pieces: { can: 240 } },
+  { matches: /\b(?:almond flour|ground almonds)\b/, per100g: [571, 21, 50, 21, 11, 1] },
+  { matches: /\b(cornstarch|cornflour|corn starch)\b/, per100g: [381, 0.3, 0.1, 91, 0.9, 9] },
+  { matches: /\bflour\b/, per100g: [364, 10, 1, 76, 2.7, 2] },
+  { matches: /\b(pasta|spaghetti|tagliatelle|linguine|penne|fettuccine|macaroni|rigatoni|fusilli|lasagne|lasagna|noodles?|orzo|couscous)\b/, per100g: [371, 13, 1.5, 75, 3.2, 6], density: 0.45 },
+  { matches: /\b(rice|risotto|arborio|basmati|quinoa)\b/, per100g: [365, 7, 0.7, 80, 1.3, 5] },
+  { matches: /\b(oats|oatmeal)\b/, per100g: [389, 17, 7, 66, 11, 2] },
+  { matches: /\b(breadcrumbs|panko)\b/, per100g: [395, 13, 5, 72, 4.5, 730] },
+  { matches: /\b(tortillas?|wraps?|pitas?)\b/, per100g: [310, 8, 8, 50, 3, 600], each: 45 },
+  { matches: /\b(bread|baguette|buns?|rolls?|toast)\b/, per100g: [265, 9, 3.2, 49, 2.7, 490], each: 60 },
+  { matches: /\bbrown sugar\b/, per100g: [380, 0.1, 0, 98, 0, 28] },
+  { matches: /\bsugar\b(?! snap)/, per100g: [387, 0, 0, 100, 0, 1] },
+  { matches: /\bhoney\b/, per100g: [304, 0.3, 0, 82, 0.2, 4] },
+  { matches: /\b(maple|golden|agave) syrup\b/, per100g: [260, 0, 0, 67, 0, 12] },
+  { matches: /\bvanilla\b/, per100g: [288, 0.1, 0.1, 13, 0, 9], density: 0.88 },
+  { matches: /\b(?:wine|beer)\b/, per100g: [83, 0.1, 0, 2.6, 0, 5] },
+  { matches: /\b(mayonnaise|mayo)\b/, per100g: [680, 1, 75, 0.6, 0, 635] },
+  { matches: /\bmustard\b/, per100g: [66, 4, 4, 6, 3, 1100] },
+  { matches: /\b(ketchup|tomato sauce)\b/, per100g: [112, 1.7, 0.1, 26, 0.3, 900] },
+  { matches: /\b(tomato paste|tomato puree|tomato purée)\b/, per100g: [82, 4.3, 0.5, 19, 4.1, 60] },
+  { matches: /\b(curry paste|harissa|miso)\b/, per100g: [150, 5, 7, 17, 4, 2500] },
+  { matches: /\btahini\b/, per100g: [595, 17, 54, 21, 9, 115] },
+  { matches: /^pepper\b|\b(powder|ground (cumin|coriander|ginger|cinnamon|nutmeg|cloves|allspice|cardamom|paprika|turmeric|(black |white )?pepper)|paprika|cumin|turmeric|cinnamon|nutmeg|(black|white|cayenne) pepper|peppercorns|chil(?:i|li) flakes|oregano|spice|garam masala|seasoning)\b/, per100g: [300, 12, 10, 55, 30, 50], density: 0.5 },
+  { matches: /\bsweet potato(es)?\b/, per100g: [86, 1.6, 0.1, 20, 3, 55], each: 130 },
+  { matches: /\bpotato(es)?\b/, per100g: [77, 2, 0.1, 17, 2.2, 6], each: 170 },
+  { matches: /\bshallots?\b/, per100g: [72, 2.5, 0.1, 17, 3.2, 12], each: 30 },
+  { matches: /\b(spring onions?|scallions?|green onions?|leeks?)\b/, per100g: [32, 1.8, 0.2, 7, 2.6, 16], each: 15 },
+  { matches: /\bonions?\b/, per100g: [40, 1.1, 0.1, 9.3, 1.7, 4], each: 150 },
+  { matches: /\bgarlic\b/, per100g: [149, 6.4, 0.5, 33, 2.1, 17], each: 5, pieces: { head: 50 } },
+  { matches: /\bginger\b/, per100g: [80, 1.8, 0.8, 18, 2, 13] },
+  { matches: /\btomato(es)?\b/, per100g: [18, 0.9, 0.2, 3.9, 1.2, 5], each: 120, pieces: { can: 400 } },
+  { matches: /\bcarrots?\b/, per100g: [41, 0.9, 0.2, 10, 2.8, 69], each: 60 },
+  { matches: /\bcelery\b/, per100g: [16, 0.7, 0.2, 3, 1.6, 80], each: 40 },
+  { matches: /\b(bell peppers?|(red|green|yellow|orange|sweet) peppers?|peppers|capsicums?)\b/, per100g: [31, 1, 0.3, 6, 2.1, 4], each: 120 },
+  { matches: /\b(chil(?:i|li|e)s?|jalape[nñ]os?)\b/, per100g: [40, 2, 0.4, 9, 1.5, 9], each: 15 },
+  { matches: /\bmushrooms?\b/, per100g: [22, 3.1, 0.3, 3.3, 1, 5], each: 20 },
+  { matches: /\b(spinach|kale|chard|greens|lettuce|rocket|arugula|cabbage)\b/, per100g: [23, 2.9, 0.4, 3.6, 2.2, 79], density: 0.1 },
+  { matches: /\b(?:broccoli|cauliflower)\b/, per100g: [34, 2.8, 0.4, 7, 2.6, 33], pieces: { head: 500 } },
+  { matches: /\b(zucchinis?|courgettes?|squash)\b/, per100g: [17, 1.2, 0.3, 3.1, 1, 8], each: 200 },
+  { matches: /\b(eggplants?|aubergines?)\b/, per100g: [25, 1, 0.2, 6, 3, 2], each: 450 },
+  { matches: /\bcucumbers?\b/, per100g: [15, 0.7, 0.1, 3.6, 0.5, 2], each: 300 },
+  { matches: /\bpeas\b/, per100g: [81, 5.4, 0.4, 14, 5.7, 5] },
+  { matches: /\bcorn\b/, per100g: [86, 3.3, 1.4, 19, 2, 15] },
+  { matches: /\bavocados?\b/, per100g: [160, 2, 15, 9, 7, 7], each: 150 },
+  { matches: /\b(lemons?|limes?)\b/, per100g: [29, 1.1, 0.3, 9.3, 2.8, 2], each: 60 },
+  { matches: /\bapples?\b/, per100g: [52, 0.3, 0.2, 14, 2.4, 1], each: 180 },
+  { matches: /\bbananas?\b/, per100g: [89, 1.1, 0.3, 23, 2.6, 1], each: 120 },
+  { matches: /\b(berries|strawberries|blueberries|raspberries)\b/, per100g: [50, 0.8, 0.3, 12, 2.5, 1], density: 0.6 },
+  { matches: /\b(almonds?|walnuts?|cashews?|pecans?|peanuts?|hazelnuts?|pistachios?|pine nuts|nuts)\b/, per100g: [600, 18, 52, 20, 8, 5], density: 0.55 },
+  { matches: /\b(sesame|sunflower|pumpkin|chia|flax) seeds?\b|\bseeds\b/, per100g: [570, 18, 50, 23, 12, 11], density: 0.6 },
+  { matches: /\b(shredded |desiccated )?coconut\b/, per100g: [660, 7, 65, 24, 16, 37] },
+  { matches: /\b(parsley|basil|cilantro|coriander|mint|dill|thyme|rosemary|sage|chives|herbs?)\b/, per100g: [36, 3, 0.8, 6, 3, 50], density: 0.1 },
+  { matches: /\byeast\b/, per100g: [325, 40, 7.6, 41, 27, 51] },
+];
+
+// Typical weights for units that aren't measures
+const PIECE_GRAMS: Record<string, number> = {
+  pinch: 0.4,
+  dash: 0.6,
+  clove: 5,
+  can: 400,
+  jar: 300,
+  package: 250,
+  slice: 30,
+  stick: 113,
+  bunch: 100,
+  sprig: 1,
+  handful: 30,
+  head: 500,
+};
+
+const NUTRIENT_KEYS: (keyof Nutrients)[] = ['calories', 'protein', 'fat', 'carbs', 'fiber', 'sodium'];
+
+export const NUTRIENT_LABELS: Record<keyof Nutrients, { label: string; unit: string }> = {
+  calories: { label: 'Calories', unit: 'kcal' },
+  protein: { label: 'Protein', unit: 'g' },
+  fat: { label: 'Fat', unit: 'g' },
+  carbs: { label: 'Carbs', unit: 'g' },
+  fiber: { label: 'Fiber', unit: 'g' },
+  sodium: { label: 'Sodium', unit: 'mg' },
+};
+
+export const CONFIDENCE_LABELS: Record<NutritionConfidence, string> = {
+  high: 'Good estimate',
+  medium: 'Rough estimate',
+  low: 'Very rough estimate',
+};
+
+const findFood = (name: string): Food | undefined => {
+  const lower = name.toLowerCase();
+  return FOODS.find(food => food.matches.test(lower));
+};
+
+// Ranges count as their midpoint
+const ingredientGrams = (ingredient: Ingredient, food: Food): number | undefined => {
+  const { quantity, quantityMax, unit, name } = ingredient;
+  if (quantity === undefined) return undefined;
+  const amount = quantityMax !== undefined ? (quantity + quantityMax) / 2 : quantity;
+
+  const measure = unitMeasure(unit);
+  if (measure?.kind === 'weight') return amount * measure.size;
+  if (measure?.kind === 'volume') return amount * measure.size * (findDensity(name) ?? food.density ?? 1);
+
+  if (!unit || unit === 'piece') return food.each !== undefined ? amount * food.each : undefined;
+  const piece = food.pieces?.[unit] ?? PIECE_GRAMS[unit];
+  return piece !== undefined ? amount * piece : undefined;
+};
+
+const roundNutrients = (nutrients: Nutrients): Nutrients => ({
+  calories: Math.round(nutrients.calories),
+  protein: Math.round(nutrients.protein),
+  fat: Math.round(nutrients.fat),
+  carbs: Math.round(nutrients.carbs),
+  fiber: Math.round(nutrients.fiber),
+  sodium: Math.round(nutrients.sodium / 10) * 10,
+});
+
+// Per-serving nutrition from the bundled table. Ingredients with no amount
+// ("salt, to taste", "oil for frying") and optional garnishes are too small or
+// uncertain to count; measured ones that can't be matched lower the confidence.
+export const estimateNutrition = (recipe: Recipe): NutritionEstimate => {
+  const totals: Nutrients = { calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0, sodium: 0 };
+  const unmatched: string[] = [];
+  let measured = 0;
+
+  for (const ingredient of recipe.ingredients) {
+    if (ingredient.quantity === undefined || ingredient.optional) continue;
+    measured++;
+    const food = findFood(ingredient.name);
+    const grams = food && ingredientGrams(ingredient, food);
+    if (!food || grams === undefined) {
+      unmatched.push(ingredient.name);
+      continue;
+    }
+    NUTRIENT_KEYS.forEach((key, i) => { totals[key] += (food.per100g[i] * grams) / 100; });
+  }
+
+  const servings = Math.max(1, recipe.servings);
+  const perServing = roundNutrients(
+    Object.fromEntries(NUTRIENT_KEYS.map(key => [key, totals[key] / servings])) as unknown as Nutrients
+  );
+  const matchedShare = measured > 0 ? (measured - unmatched.length) / measured : 0;
+  const confidence: NutritionConfidence = matchedShare >= 0.9 ? 'high' : matchedShare >= 0.6 ? 'medium' : 'low';
+
+  return { perServing, source: 'local', confidence, unmatched };
+};
+
+export const hasMacroTargets = (targets: MacroTargets): boolean =>
+  [targets.maxCalories, targets.minProtein, targets.maxCarbs, targets.maxFat].some(value => value !== undefined);
+
+// Whether a serving meets each target that is set
+export const checkMacroTargets = (
+  nutrients: Nutrients,
+  targets: MacroTargets
+): { label: string; met: boolean }[] => {
+  const checks: { label: string; met: boolean }[] = [];
+  if (targets.maxCalories !== undefined) checks.push({ label: `≤ ${targets.maxCalories} kcal`, met: nutrients.calories <= targets.maxCalories });
+  if (targets.minProtein !== undefined) checks.push({ label: `≥ ${targets.minProtein} g protein`, met: nutrients.protein >= targets.minProtein });
+  if (targets.maxCarbs !== undefined) checks.push({ label: `≤ ${targets.maxCarbs} g carbs`, met: nutrients.carbs <= targets.maxCarbs });
+  if (targets.maxFat !== undefined) checks.push({ label: `≤ ${targets.maxFat} g fat`, met: nutrients.fat <= targets.maxFat });
+  return checks;
+};
+
+// Prompt section for generation; empty when no targets are set
+export const describeMacroTargets = (targets: MacroTargets = {}): string => {
+  const lines: string[] = [];
+  if (targets.maxCalories !== undefined) lines.push(`at most ${targets.maxCalories} kcal`);
+  if (targets.minProtein !== undefined) lines.push(`at least ${targets.minProtein} g of protein`);
+  if (targets.maxCarbs !== undefined) lines.push(`at most ${targets.maxCarbs} g of carbohydrate`);
+  if (targets.maxFat !== undefined) lines.push(`at most ${targets.maxFat} g of fat`);
+  return lines.length > 0
+    ? `\n  NUTRITION TARGETS: each serving must have ${lines.join(', ')}. Choose ingredients and amounts to meet them.\n`
+    : '';
+};
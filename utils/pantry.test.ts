@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { PantryItem } from '../types';
+import { consumeIngredients, describeExpiry, findPantryItem, isExpiringSoon, mergeIntoPantry, sortPantry } from './pantry';
+
+const item = (name: string, extra: Partial<PantryItem> = {}): PantryItem => ({ id: name, name, updatedAt: 0, ...extra });
+
+describe('mergeIntoPantry', () => {
+  it('adds to matching items in compatible units', () => {
+    const [flour] = mergeIntoPantry([item('Flour', { quantity: 1, unit: 'kg' })], [{ name: 'flour', quantity: 500, unit: 'g', expiresOn: '2026-11-01' }], 5);
+    expect(flour).toEqual({ id: 'Flour', name: 'Flour', quantity: 1.5, unit: 'kg', expiresOn: '2026-11-01', updatedAt: 5 });
+  });
+
+  it('starts tracking an amount once one is known', () => {
+    const [salt] = mergeIntoPantry([item('salt')], [{ name: 'salt', quantity: 1, unit: 'kg' }]);
+    expect(salt).toMatchObject({ quantity: 1, unit: 'kg' });
+  });
+
+  it('keeps amounts that cannot be combined as separate entries', () => {
+    const result = mergeIntoPantry([item('garlic', { quantity: 1, unit: 'head' })], [{ name: 'garlic', quantity: 100, unit: 'g' }]);
+    expect(result.map(i => [i.name, i.quantity, i.unit])).toEqual([['garlic', 1, 'head'], ['garlic', 100, 'g']]);
+  });
+});
+
+describe('consumeIngredients', () => {
+  const pantry = [
+    item('Flour', { quantity: 1, unit: 'kg' }),
+    item('eggs', { quantity: 6 }),
+    item('salt'),
+  ];
+
+  it('takes converted amounts off and removes what is used up', () => {
+    const { items, usage } = consumeIngredients(pantry, [
+      { name: 'flour', quantity: 2, unit: 'cup' },
+      { name: 'eggs', quantity: 8 },
+      { name: 'salt', quantity: 1, unit: 'tsp' },
+    ], 3);
+    expect(items).toEqual([item('Flour', { quantity: 0.75, unit: 'kg', updatedAt: 3 }), item('salt')]);
+    expect(usage).toEqual([
+      { name: 'Flour', used: '0.25kg', usedUp: false },
+      { name: 'eggs', used: '6', usedUp: true },
+    ]);
+  });
+
+  it('leaves optional and unmeasured ingredients alone', () => {
+    const { items, usage } = consumeIngredients(pantry, [
+      { name: 'flour', quantity: 100, unit: 'g', optional: true },
+      { name: 'eggs' },
+    ]);
+    expect(items).toEqual(pantry);
+    expect(usage).toEqual([]);
+  });
+});
+
+describe('expiry', () => {
+  const today = new Date(2026, 9, 19);
+
+  it('describes days left', () => {
+    expect(describeExpiry(item('a', { expiresOn: '2026-10-18' }), today)).toBe('Expired');
+    expect(describeExpiry(item('a', { expiresOn: '2026-10-19' }), today)).toBe('Today');
+    expect(describeExpiry(item('a', { expiresOn: '2026-10-20' }), today)).toBe('Tomorrow');
+    expect(describeExpiry(item('a', { expiresOn: '2026-10-25' }), today)).toBe('In 6 days');
+    expect(describeExpiry(item('a'), today)).toBeUndefined();
+  });
+
+  it('flags items within three days and sorts soonest first', () => {
+    const items = [item('rice'), item('milk', { expiresOn: '2026-10-22' }), item('yogurt', { expiresOn: '2026-10-20' }), item('cheese', { expiresOn: '2026-10-30' })];
+    expect(items.filter(i => isExpiringSoon(i, today)).map(i => i.name)).toEqual(['milk', 'yogurt']);
+    expect(sortPantry(items, today).map(i => i.name)).toEqual(['yogurt', 'milk', 'cheese', 'rice']);
+  });
+});
+
+describe('findPantryItem', () => {
+  it('prefers an exact name and falls back to overlapping words', () => {
+    const items = [item('chicken breasts'), item('chicken stock')];
+    expect(findPantryItem(items, 'Chicken Stock')?.name).toBe('chicken stock');
+    expect(findPantryItem(items, 'breasts')?.name).toBe('chicken breasts');
+    expect(findPantryItem(items, 'tofu')).toBeUndefined();
+  });
+});
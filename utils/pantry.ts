@@ -0,0 +1,164 @@
+import { Ingredient, PantryItem } from '../types';
+import { Amount, formatAmount } from './quantity';
+import { findDensity, unitMeasure } from './units';
+import { shoppingItemKey } from './shoppingList';
+
+export const EXPIRING_SOON_DAYS = 3;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Calendar days left; negative once expired
+export const daysUntilExpiry = (item: PantryItem, today = new Date()): number | undefined => {
+  if (!item.expiresOn) return undefined;
+  const [year, month, day] = item.expiresOn.split('-').map(Number);
+  const expiry = Date.UTC(year, month - 1, day);
+  const start = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((expiry - start) / MS_PER_DAY);
+};
+
+export const isExpiringSoon = (item: PantryItem, today = new Date()): boolean => {
+  const days = daysUntilExpiry(item, today);
+  return days !== undefined && days <= EXPIRING_SOON_DAYS;
+};
+
+// "Expired", "Today", "Tomorrow", "In 5 days"
+export const describeExpiry = (item: PantryItem, today = new Date()): string | undefined => {
+  const days = daysUntilExpiry(item, today);
+  if (days === undefined) return undefined;
+  if (days < 0) return 'Expired';
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  return `In ${days} days`;
+};
+
+// Soonest expiry first; items without a date last
+export const sortPantry = (items: PantryItem[], today = new Date()): PantryItem[] =>
+  [...items].sort((a, b) =>
+    (daysUntilExpiry(a, today) ?? Infinity) - (daysUntilExpiry(b, today) ?? Infinity) || a.name.localeCompare(b.name)
+  );
+
+// Loose match for names the model writes back: "chicken" finds "chicken breasts"
+export const namesOverlap = (a: string, b: string): boolean => {
+  const wordsA = shoppingItemKey(a).split(' ');
+  const wordsB = shoppingItemKey(b).split(' ');
+  return wordsA.every(w => wordsB.includes(w)) || wordsB.every(w => wordsA.includes(w));
+};
+
+export const findPantryItem = (items: PantryItem[], name: string): PantryItem | undefined => {
+  const key = shoppingItemKey(name);
+  return items.find(item => shoppingItemKey(item.name) === key) ?? items.find(item => namesOverlap(item.name, name));
+};
+
+export const pantryToIngredients = (items: PantryItem[]): Ingredient[] =>
+  items.map(({ name, quantity, unit }) => ({ name, quantity, unit }));
+
+// Expresses an amount in another unit, or undefined when they can't be compared
+const convertBetween = (amount: Amount, toUnit: string | undefined, name: string): number | undefined => {
+  if (amount.quantity === undefined) return undefined;
+  if (amount.unit === toUnit) return amount.quantity;
+  const from = unitMeasure(amount.unit);
+  const to = unitMeasure(toUnit);
+  if (!from || !to) return undefined;
+  const base = amount.quantity * from.size;
+  if (from.kind === to.kind) return base / to.size;
+  // Cups of flour against a bag weighed in grams
+  const density = findDensity(name);
+  if (density === undefined) return undefined;
+  return (from.kind === 'volume' ? base * density : base / density) / to.size;
+};
+
+const roundQuantity = (value: number) => Math.round(value * 100) / 100;
+
+export interface PantryAddition {
+  name: string;
+  quantity?: number;
+  unit?: string;
+  expiresOn?: string;
+}
+
+// Adds to the amount of a matching item when the units can be combined;
+// otherwise the addition becomes its own entry
+export const mergeIntoPantry = (items: PantryItem[], additions: PantryAddition[], now = Date.now()): PantryItem[] => {
+  const result = [...items];
+  for (const addition of additions) {
+    const key = shoppingItemKey(addition.name);
+    const index = result.findIndex(item => shoppingItemKey(item.name) === key);
+    const existing = index >= 0 ? result[index] : undefined;
+
+    if (existing) {
+      // Untracked on either side: keep whichever amount is known
+      if (existing.quantity === undefined || addition.quantity === undefined) {
+        const tracked = existing.quantity !== undefined ? existing : addition;
+        result[index] = {
+          ...existing,
+          quantity: tracked.quantity,
+          unit: tracked.quantity !== undefined ? tracked.unit : undefined,
+          expiresOn: addition.expiresOn ?? existing.expiresOn,
+          updatedAt: now,
+        };
+        continue;
+      }
+      const added = convertBetween(addition, existing.unit, existing.name);
+      if (added !== undefined) {
+        result[index] = {
+          ...existing,
+          quantity: roundQuantity(existing.quantity + added),
+          expiresOn: addition.expiresOn ?? existing.expiresOn,
+          updatedAt: now,
+        };
+        continue;
+      }
+    }
+
+    result.push({
+      id: crypto.randomUUID(),
+      name: addition.name,
+      quantity: addition.quantity,
+      unit: addition.quantity !== undefined ? addition.unit : undefined,
+      expiresOn: addition.expiresOn,
+      updatedAt: now,
+    });
+  }
+  return result;
+};
+
+export interface PantryUsage {
+  name: string;
+  // What was taken off, e.g. "200 g"
+  used: string;
+  usedUp: boolean;
+}
+
+// Takes a cooked recipe's ingredients off the pantry. Only items with a
+// tracked amount and a comparable unit change; the rest are left alone.
+export const consumeIngredients = (
+  items: PantryItem[],
+  ingredients: Ingredient[],
+  now = Date.now()
+): { items: PantryItem[]; usage: PantryUsage[] } => {
+  let result = [...items];
+  const usage: PantryUsage[] = [];
+
+  for (const ingredient of ingredients) {
+    if (ingredient.optional || ingredient.quantity === undefined) continue;
+    const key = shoppingItemKey(ingredient.name);
+    const item = result.find(i => shoppingItemKey(i.name) === key);
+    if (!item || item.quantity === undefined) continue;
+
+    const used = convertBetween(ingredient, item.unit, item.name);
+    if (used === undefined) continue;
+
+    const remaining = roundQuantity(item.quantity - used);
+    const usedUp = remaining <= 0;
+    usage.push({
+      name: item.name,
+      used: formatAmount({ quantity: Math.min(used, item.quantity), unit: item.unit }),
+      usedUp,
+    });
+    result = usedUp
+      ? result.filter(i => i.id !== item.id)
+      : result.map(i => (i.id === item.id ? { ...i, quantity: remaining, updatedAt: now } : i));
+  }
+
+  return { items: result, usage };
+};
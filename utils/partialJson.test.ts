@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('parses complete documents like JSON.parse', () => {
+    const text = '{"title":"Soup","servings":4,"tags":["a","b"],"vegan":true,"note":null}';
+    expect(parsePartialJson(text)).toEqual(JSON.parse(text));
+  });
+
+  it('closes open strings, arrays and objects', () => {
+    expect(parsePartialJson('{"title":"Tomato So')).toEqual({ title: 'Tomato So' });
+    expect(parsePartialJson('{"steps":[{"instruction":"Chop"},{"instr')).toEqual({ steps: [{ instruction: 'Chop' }, {}] });
+  });
+
+  it('drops keys, numbers and literals that were cut off', () => {
+    expect(parsePartialJson('{"title":"Soup","serv')).toEqual({ title: 'Soup' });
+    expect(parsePartialJson('{"title":"Soup","servings":1')).toEqual({ title: 'Soup' });
+    expect(parsePartialJson('{"title":"Soup","vegan":tr')).toEqual({ title: 'Soup' });
+  });
+
+  it('decodes escapes, including surrogate pairs', () => {
+    expect(parsePartialJson('["a\\nb","q\\"uote\\\\","\\u00e9","\\ud83c\\udf45"]')).toEqual(['a\nb', 'q"uote\\', 'é', '🍅']);
+  });
+
+  it('drops an escape cut off at the end instead of throwing', () => {
+    expect(parsePartialJson('{"title":"Soup\\')).toEqual({ title: 'Soup' });
+    expect(parsePartialJson('{"title":"Caf\\u00')).toEqual({ title: 'Caf' });
+  });
+
+  it('returns undefined when nothing has arrived', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('   ')).toBeUndefined();
+  });
+});
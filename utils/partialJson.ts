@@ -0,0 +1,131 @@
+// Parses the prefix of a JSON document that is still being streamed. Open
+// strings, arrays and objects are closed where the text ends; keys, numbers and
+// literals that were cut off are dropped, since their value isn't known yet.
+
+const INCOMPLETE = Symbol('incomplete');
+type Parsed = unknown | typeof INCOMPLETE;
+
+const NUMBER_CHARS = /[-+0-9.eE]/;
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+const ESCAPES: Record<string, string> = { b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+export const parsePartialJson = (text: string): unknown => {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  // Returns the string read so far and whether its closing quote was reached.
+  // Decoded by hand so an escape cut off at the end (a lone "\" or "\u00") is
+  // dropped rather than failing the whole string.
+  const parseString = (): { value: string; complete: boolean } => {
+    let value = '';
+    pos++; // opening quote
+    while (pos < text.length) {
+      const char = text[pos];
+      if (char === '"') {
+        pos++;
+        return { value, complete: true };
+      }
+      if (char !== '\\') {
+        value += char;
+        pos++;
+        continue;
+      }
+      const next = text[pos + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = text.slice(pos + 2, pos + 6);
+        if (hex.length < 4) break;
+        // Not valid JSON; keep it as written
+        value += /^[0-9a-fA-F]{4}$/.test(hex) ? String.fromCharCode(parseInt(hex, 16)) : `\\u${hex}`;
+        pos += 6;
+        continue;
+      }
+      value += ESCAPES[next] ?? next;
+      pos += 2;
+    }
+    pos = text.length;
+    return { value, complete: false };
+  };
+
+  const parseNumber = (): Parsed => {
+    const start = pos;
+    while (pos < text.length && NUMBER_CHARS.test(text[pos])) pos++;
+    // A number at the very end may still be growing ("12" of "125")
+    if (pos >= text.length) return INCOMPLETE;
+    const value = Number(text.slice(start, pos));
+    return Number.isNaN(value) ? INCOMPLETE : value;
+  };
+
+  const parseLiteral = (): Parsed => {
+    for (const [word, value] of Object.entries(LITERALS)) {
+      if (text.startsWith(word, pos)) {
+        pos += word.length;
+        return value;
+      }
+    }
+    pos = text.length;
+    return INCOMPLETE;
+  };
+
+  const parseArray = (): unknown[] => {
+    const result: unknown[] = [];
+    pos++; // [
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) return result;
+      if (text[pos] === ']') {
+        pos++;
+        return result;
+      }
+      const value = parseValue();
+      if (value === INCOMPLETE) return result;
+      result.push(value);
+      skipWhitespace();
+      if (text[pos] === ',') pos++;
+    }
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    pos++; // {
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length) return result;
+      if (text[pos] === '}') {
+        pos++;
+        return result;
+      }
+      if (text[pos] !== '"') {
+        pos = text.length;
+        return result;
+      }
+      const key = parseString();
+      if (!key.complete) return result;
+      skipWhitespace();
+      if (text[pos] !== ':') return result;
+      pos++;
+      const value = parseValue();
+      if (value === INCOMPLETE) return result;
+      result[key.value] = value;
+      skipWhitespace();
+      if (text[pos] === ',') pos++;
+    }
+  };
+
+  const parseValue = (): Parsed => {
+    skipWhitespace();
+    if (pos >= text.length) return INCOMPLETE;
+    const char = text[pos];
+    if (char === '{') return parseObject();
+    if (char === '[') return parseArray();
+    if (char === '"') return parseString().value;
+    if (NUMBER_CHARS.test(char)) return parseNumber();
+    return parseLiteral();
+  };
+
+  const value = parseValue();
+  return value === INCOMPLETE ? undefined : value;
+};
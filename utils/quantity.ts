@@ -0,0 +1,175 @@
+// Shared helpers for reading and writing ingredient amounts such as
+// "1 1/2 cups", "½ tsp", "2-3" or "50g".
+
+export interface Amount {
+  quantity?: number;
+  // Upper bound when the amount is a range like "2-3"
+  quantityMax?: number;
+  unit?: string;
+}
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4',
+  '⅕': '1/5', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8',
+};
+
+// Canonical unit -> spellings we accept for it
+const UNIT_SPELLINGS: Record<string, string[]> = {
+  tsp: ['tsp', 'tsps', 'tsp.', 'teaspoon', 'teaspoons'],
+  tbsp: ['tbsp', 'tbsps', 'tbsp.', 'tbs', 'tbl', 'tablespoon', 'tablespoons'],
+  cup: ['cup', 'cups', 'c'],
+  'fl oz': ['fl oz', 'fl. oz', 'fl. oz.', 'fluid ounce', 'fluid ounces'],
+  pint: ['pint', 'pints', 'pt'],
+  quart: ['quart', 'quarts', 'qt'],
+  gallon: ['gallon', 'gallons', 'gal'],
+  ml: ['ml', 'mls', 'milliliter', 'milliliters', 'millilitre', 'millilitres'],
+  l: ['l', 'liter', 'liters', 'litre', 'litres'],
+  g: ['g', 'gr', 'gram', 'grams', 'gramme', 'grammes'],
+  kg: ['kg', 'kgs', 'kilogram', 'kilograms'],
+  oz: ['oz', 'oz.', 'ounce', 'ounces'],
+  lb: ['lb', 'lbs', 'lb.', 'pound', 'pounds'],
+  pinch: ['pinch', 'pinches'],
+  dash: ['dash', 'dashes'],
+  clove: ['clove', 'cloves'],
+  can: ['can', 'cans', 'tin', 'tins'],
+  jar: ['jar', 'jars'],
+  package: ['package', 'packages', 'pkg', 'packet', 'packets'],
+  slice: ['slice', 'slices'],
+  stick: ['stick', 'sticks'],
+  bunch: ['bunch', 'bunches'],
+  sprig: ['sprig', 'sprigs'],
+  handful: ['handful', 'handfuls'],
+  head: ['head', 'heads'],
+  piece: ['piece', 'pieces'],
+};
+
+const UNIT_LOOKUP: Record<string, string> = Object.entries(UNIT_SPELLINGS).reduce(
+  (acc, [unit, spellings]) => {
+    spellings.forEach(s => { acc[s] = unit; });
+    return acc;
+  },
+  {} as Record<string, string>
+);
+
+// Units that read better as decimals ("12.5 g") than fractions ("12 1/2 g")
+const DECIMAL_UNITS = new Set(['g', 'kg', 'ml', 'l']);
+
+// Units written as symbols are never pluralised
+const ABBREVIATED_UNITS = new Set(['tsp', 'tbsp', 'fl oz', 'ml', 'l', 'g', 'kg', 'oz', 'lb']);
+
+// Metric symbols sit directly against the number ("50g")
+const ATTACHED_UNITS = new Set(['g', 'kg', 'ml']);
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const NUMBER_PATTERN = '(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:\\.\\d+)?|\\.\\d+)';
+const UNIT_PATTERN = Object.keys(UNIT_LOOKUP)
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|');
+
+const AMOUNT_REGEX = new RegExp(
+  `^\\s*(${NUMBER_PATTERN})(?:\\s*(?:-|–|to)\\s*(${NUMBER_PATTERN}))?\\s*(?:(${UNIT_PATTERN})(?![a-z]))?\\.?\\s*`,
+  'i'
+);
+
+// Turns "1½" into "1 1/2" so the rest of the parser only has to handle ASCII
+export const expandUnicodeFractions = (text: string): string =>
+  text.replace(/(\d)?([½⅓⅔¼¾⅕⅛⅜⅝⅞])/g, (_, digit: string | undefined, frac: string) =>
+    (digit ? `${digit} ` : '') + UNICODE_FRACTIONS[frac]
+  );
+
+export const parseNumber = (token: string): number | undefined => {
+  const text = expandUnicodeFractions(token).trim();
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    const denominator = Number(mixed[3]);
+    return denominator ? Number(mixed[1]) + Number(mixed[2]) / denominator : undefined;
+  }
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator ? Number(fraction[1]) / denominator : undefined;
+  }
+  const value = Number(text);
+  return text !== '' && Number.isFinite(value) ? value : undefined;
+};
+
+export const normalizeUnit = (unit?: string | null): string | undefined => {
+  if (!unit) return undefined;
+  const trimmed = unit.trim();
+  if (!trimmed) return undefined;
+  return UNIT_LOOKUP[trimmed.toLowerCase()] ?? trimmed.toLowerCase();
+};
+
+// Reads a leading amount ("2-3 cups ...") and returns whatever text follows it
+export const parseAmount = (text: string): Amount & { rest: string } => {
+  const expanded = expandUnicodeFractions(text);
+  const match = expanded.match(AMOUNT_REGEX);
+  if (!match) return { rest: text.trim() };
+
+  const quantity = parseNumber(match[1]);
+  const quantityMax = match[2] ? parseNumber(match[2]) : undefined;
+  if (quantity === undefined) return { rest: text.trim() };
+
+  return {
+    quantity,
+    quantityMax: quantityMax !== undefined && quantityMax > quantity ? quantityMax : undefined,
+    unit: normalizeUnit(match[3]),
+    rest: expanded.slice(match[0].length).trim(),
+  };
+};
+
+const FRACTIONS: [number, string][] = [
+  [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [3 / 8, '3/8'], [1 / 2, '1/2'],
+  [5 / 8, '5/8'], [2 / 3, '2/3'], [3 / 4, '3/4'], [7 / 8, '7/8'],
+];
+
+const formatDecimal = (value: number): string => {
+  if (value >= 100) return String(Math.round(value));
+  return String(Number(value.toFixed(value >= 10 ? 0 : value >= 1 ? 1 : 2)));
+};
+
+// Formats a number the way a cookbook would: "1 1/2" rather than "1.5"
+export const formatQuantity = (value: number, unit?: string): string => {
+  if (unit && DECIMAL_UNITS.has(unit)) return formatDecimal(value);
+  if (value >= 20) return String(Math.round(value));
+
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+  if (remainder < 0.04) return whole > 0 ? String(whole) : formatDecimal(value);
+  if (remainder > 0.96) return String(whole + 1);
+
+  const closest = FRACTIONS.reduce((best, candidate) =>
+    Math.abs(candidate[0] - remainder) < Math.abs(best[0] - remainder) ? candidate : best
+  );
+  if (Math.abs(closest[0] - remainder) > 0.04) return formatDecimal(value);
+  return whole > 0 ? `${whole} ${closest[1]}` : closest[1];
+};
+
+export const formatUnit = (unit: string, quantity?: number): string => {
+  if (ABBREVIATED_UNITS.has(unit) || quantity === undefined || quantity <= 1) return unit;
+  if (!UNIT_SPELLINGS[unit]) return unit;
+  return /(ch|sh|s|x)$/.test(unit) ? `${unit}es` : `${unit}s`;
+};
+
+export const formatAmount = ({ quantity, quantityMax, unit }: Amount): string => {
+  if (quantity === undefined) return unit ?? '';
+  const number = quantityMax !== undefined
+    ? `${formatQuantity(quantity, unit)}-${formatQuantity(quantityMax, unit)}`
+    : formatQuantity(quantity, unit);
+  if (!unit) return number;
+  const separator = ATTACHED_UNITS.has(unit) ? '' : ' ';
+  return `${number}${separator}${formatUnit(unit, quantityMax ?? quantity)}`;
+};
+
+// Rewrites every amount in a free-text quantity such as "1 cup (240ml)".
+// Text without a leading number ("a pinch", "to taste") is left alone.
+export const mapQuantityText = (text: string, fn: (amount: Amount) => Amount): string => {
+  const { quantity, quantityMax, unit, rest } = parseAmount(text);
+  const mappedRest = rest.replace(/\(([^)]+)\)/g, (_, inner: string) => `(${mapQuantityText(inner, fn)})`);
+  if (quantity === undefined) return mappedRest === rest ? text : mappedRest;
+
+  const amount = formatAmount(fn({ quantity, quantityMax, unit }));
+  return mappedRest ? `${amount} ${mappedRest}` : amount;
+};
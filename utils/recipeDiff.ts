@@ -0,0 +1,95 @@
+import { Ingredient, Recipe, RecipeStep } from '../types';
+import { formatIngredient } from './ingredients';
+
+export type ChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface IngredientChange {
+  status: ChangeStatus;
+  before?: Ingredient;
+  after?: Ingredient;
+}
+
+export interface StepChange {
+  // Steps are compared as whole instructions, so an edit shows as removed + added
+  status: Exclude<ChangeStatus, 'changed'>;
+  step: RecipeStep;
+}
+
+export interface RecipeDiff {
+  titleChanged: boolean;
+  descriptionChanged: boolean;
+  ingredients: IngredientChange[];
+  steps: StepChange[];
+  hasChanges: boolean;
+}
+
+const ingredientKey = (ingredient: Ingredient) => ingredient.name.trim().toLowerCase();
+
+// Matches ingredients by name; a changed amount or preparation counts as 'changed'
+export const diffIngredients = (before: Ingredient[], after: Ingredient[]): IngredientChange[] => {
+  const previous = new Map(before.map(i => [ingredientKey(i), i]));
+  const seen = new Set<string>();
+
+  const changes = after.map((ingredient): IngredientChange => {
+    const key = ingredientKey(ingredient);
+    const match = previous.get(key);
+    seen.add(key);
+    if (!match) return { status: 'added', after: ingredient };
+    const status = formatIngredient(match) === formatIngredient(ingredient) ? 'unchanged' : 'changed';
+    return { status, before: match, after: ingredient };
+  });
+
+  before
+    .filter(i => !seen.has(ingredientKey(i)))
+    .forEach(ingredient => changes.push({ status: 'removed', before: ingredient }));
+
+  return changes;
+};
+
+// Longest-common-subsequence line diff over the instructions
+export const diffSteps = (before: RecipeStep[], after: RecipeStep[]): StepChange[] => {
+  const a = before.map(s => s.instruction.trim());
+  const b = after.map(s => s.instruction.trim());
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: StepChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ status: 'unchanged', step: after[j] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      changes.push({ status: 'removed', step: before[i++] });
+    } else {
+      changes.push({ status: 'added', step: after[j++] });
+    }
+  }
+  while (i < a.length) changes.push({ status: 'removed', step: before[i++] });
+  while (j < b.length) changes.push({ status: 'added', step: after[j++] });
+  return changes;
+};
+
+export const diffRecipes = (before: Recipe, after: Recipe): RecipeDiff => {
+  const ingredients = diffIngredients(before.ingredients, after.ingredients);
+  const steps = diffSteps(before.steps, after.steps);
+  const titleChanged = before.title !== after.title;
+  const descriptionChanged = before.description !== after.description;
+  return {
+    titleChanged,
+    descriptionChanged,
+    ingredients,
+    steps,
+    hasChanges: titleChanged || descriptionChanged ||
+      ingredients.some(c => c.status !== 'unchanged') ||
+      steps.some(c => c.status !== 'unchanged'),
+  };
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe, StepType } from '../types';
+import { inlineQuantities, recipeFileName, recipeToJsonLd, recipeToMarkdown } from './recipeExport';
+
+const recipe: Recipe = {
+  title: 'Brown Butter Pasta!',
+  description: 'Nutty and quick',
+  servings: 2,
+  ingredients: [
+    { name: 'spaghetti', quantity: 200, unit: 'g' },
+    { name: 'butter', quantity: 50, unit: 'g', preparation: 'cubed' },
+    { name: 'chives', quantity: 2, unit: 'tbsp', group: 'topping' },
+  ],
+  steps: [
+    { instruction: 'Boil <<spaghetti|200g>>.', type: StepType.COOK },
+    { instruction: 'Brown <<butter|50g>>.', type: StepType.COOK, insight: 'Stop when it smells nutty.' },
+  ],
+};
+
+describe('inlineQuantities', () => {
+  it('spells out ingredient tags in the chosen units', () => {
+    expect(inlineQuantities('Melt <<butter|50g>>', 'metric')).toBe('Melt butter (50g)');
+    expect(inlineQuantities('Boil <<spaghetti|200g>>', 'us', name => `*${name}*`)).toBe('Boil *spaghetti* (7 oz)');
+  });
+});
+
+describe('recipeFileName', () => {
+  it('slugs the title', () => {
+    expect(recipeFileName(recipe, 'md')).toBe('brown-butter-pasta.md');
+    expect(recipeFileName({ ...recipe, title: '!!' }, 'zip')).toBe('recipe.zip');
+  });
+});
+
+describe('recipeToMarkdown', () => {
+  it('writes grouped ingredients and numbered steps with tips', () => {
+    expect(recipeToMarkdown(recipe, 'metric')).toBe([
+      '# Brown Butter Pasta!',
+      '',
+      '_Nutty and quick_',
+      '',
+      '**Serves 2**',
+      '',
+      '## Ingredients',
+      '',
+      '- 200g spaghetti',
+      '- 50g butter, cubed',
+      '',
+      '### Topping',
+      '',
+      '- 2 tbsp chives',
+      '',
+      '## Method',
+      '',
+      '1. Boil **spaghetti** (200g).',
+      '2. Brown **butter** (50g).',
+      '   > 💡 Stop when it smells nutty.',
+      '',
+    ].join('\n'));
+  });
+
+  it('converts quantities to the chosen unit system', () => {
+    const markdown = recipeToMarkdown(recipe, 'us');
+    expect(markdown).toContain('- 7 oz spaghetti');
+    expect(markdown).toContain('1. Boil **spaghetti** (7 oz).');
+  });
+});
+
+describe('recipeToJsonLd', () => {
+  it('describes the recipe as a Schema.org Recipe', () => {
+    expect(recipeToJsonLd(recipe, 'metric', 'https://example.com/pasta.jpg')).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'Recipe',
+      name: 'Brown Butter Pasta!',
+      description: 'Nutty and quick',
+      image: 'https://example.com/pasta.jpg',
+      recipeYield: '2 servings',
+      recipeIngredient: ['200g spaghetti', '50g butter, cubed', '2 tbsp chives'],
+      recipeInstructions: [
+        { '@type': 'HowToStep', position: 1, text: 'Boil spaghetti (200g).' },
+        {
+          '@type': 'HowToStep',
+          position: 2,
+          text: 'Brown butter (50g).',
+          itemListElement: [
+            { '@type': 'HowToDirection', text: 'Brown butter (50g).' },
+            { '@type': 'HowToTip', text: 'Stop when it smells nutty.' },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('leaves out the image when there is none', () => {
+    expect(recipeToJsonLd(recipe, 'metric')).not.toHaveProperty('image');
+  });
+});
@@ -0,0 +1,75 @@
+import { Recipe, UnitSystem } from '../types';
+import { formatIngredient, groupIngredients } from './ingredients';
+import { convertAmount, convertQuantityText } from './units';
+
+// Exports render the recipe as shown: scaled to the chosen yield and in the
+// chosen unit system, with <<Name|Quantity>> tags spelled out inline
+
+// "Melt <<butter|50g>>" -> "Melt butter (50 g)"; markName can emphasise the name
+export const inlineQuantities = (
+  text: string,
+  system: UnitSystem,
+  markName: (name: string) => string = name => name
+): string =>
+  text.replace(/<<([^|>]+)\|([^>]+)>>/g, (_, name: string, quantity: string) =>
+    `${markName(name)} (${convertQuantityText(quantity, system, name)})`
+  );
+
+export const ingredientLines = (recipe: Recipe, system: UnitSystem): { group?: string; lines: string[] }[] =>
+  groupIngredients(recipe.ingredients).map(({ group, items }) => ({
+    group,
+    lines: items.map(item => formatIngredient(convertAmount(item, system, item.name))),
+  }));
+
+// "Creamy Mushroom Pasta!" -> "creamy-mushroom-pasta"
+export const recipeFileName = (recipe: Recipe, extension: string): string => {
+  const slug = recipe.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'recipe'}.${extension}`;
+};
+
+export const recipeToMarkdown = (recipe: Recipe, system: UnitSystem): string => {
+  const lines = [`# ${recipe.title}`, ''];
+  if (recipe.description) lines.push(`_${recipe.description}_`, '');
+  lines.push(`**Serves ${recipe.servings}**`, '', '## Ingredients', '');
+  for (const { group, lines: items } of ingredientLines(recipe, system)) {
+    if (group) lines.push(`### ${group.charAt(0).toUpperCase()}${group.slice(1)}`, '');
+    lines.push(...items.map(item => `- ${item}`), '');
+  }
+  lines.push('## Method', '');
+  recipe.steps.forEach((step, i) => {
+    lines.push(`${i + 1}. ${inlineQuantities(step.instruction, system, name => `**${name}**`)}`);
+    // Indented to stay inside the numbered item
+    if (step.insight) lines.push(`   > 💡 ${step.insight}`);
+  });
+  return lines.join('\n').trimEnd() + '\n';
+};
+
+// Schema.org Recipe, as read by recipe managers and search engines. Steps
+// with an insight become a HowToStep holding a HowToDirection and a HowToTip.
+export const recipeToJsonLd = (
+  recipe: Recipe,
+  system: UnitSystem,
+  image?: string
+): Record<string, unknown> => ({
+  '@context': 'https://schema.org',
+  '@type': 'Recipe',
+  name: recipe.title,
+  description: recipe.description,
+  ...(image ? { image } : {}),
+  recipeYield: `${recipe.servings} servings`,
+  recipeIngredient: ingredientLines(recipe, system).flatMap(({ lines }) => lines),
+  recipeInstructions: recipe.steps.map((step, i) => {
+    const text = inlineQuantities(step.instruction, system);
+    return step.insight
+      ? {
+          '@type': 'HowToStep',
+          position: i + 1,
+          text,
+          itemListElement: [
+            { '@type': 'HowToDirection', text },
+            { '@type': 'HowToTip', text: step.insight },
+          ],
+        }
+      : { '@type': 'HowToStep', position: i + 1, text };
+  }),
+});
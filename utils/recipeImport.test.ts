@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { StepType } from '../types';
+import { annotateInstruction, detectImportFormat, importRecipeText } from './recipeImport';
+import { recipeToMarkdown } from './recipeExport';
+import { RecipeValidationError } from './recipeValidation';
+
+const MARKDOWN = `# Garlic Butter Prawns
+
+Quick weeknight dinner.
+
+Serves 2
+
+## Ingredients
+
+- 300g prawns
+- 2 tbsp butter
+- 3 cloves garlic, minced
+
+## Method
+
+1. Melt the butter in a pan.
+2. Add the garlic and prawns and fry for 3 minutes.
+   > 💡 Don't overcook the prawns.
+`;
+
+const jsonLdPage = (recipe: Record<string, unknown>) =>
+  `<html><script type="application/ld+json">${JSON.stringify({
+    '@context': 'https://schema.org',
+    '@graph': [{ '@type': 'WebPage' }, { '@type': 'Recipe', ...recipe }],
+  })}</script></html>`;
+
+describe('detectImportFormat', () => {
+  it('tells JSON-LD, Markdown and plain text apart', () => {
+    expect(detectImportFormat('{"@type": "Recipe"}')).toBe('json-ld');
+    expect(detectImportFormat(jsonLdPage({}))).toBe('json-ld');
+    expect(detectImportFormat(MARKDOWN)).toBe('markdown');
+    expect(detectImportFormat('Pancakes\n2 eggs\nWhisk.')).toBe('text');
+  });
+});
+
+describe('annotateInstruction', () => {
+  it('tags the first mention of each measured ingredient, longest names first', () => {
+    const ingredients = [
+      { name: 'cremini mushrooms', quantity: 200, unit: 'g' },
+      { name: 'heavy cream', quantity: 100, unit: 'ml' },
+      { name: 'salt' },
+    ];
+    expect(annotateInstruction('Add the mushrooms and heavy cream, then the cream cheese and salt', ingredients))
+      .toBe('Add the <<mushrooms|200g>> and <<heavy cream|100ml>>, then the cream cheese and salt');
+  });
+
+  it('prefers an amount written after the name and leaves existing tags alone', () => {
+    const ingredients = [{ name: 'butter', quantity: 2, unit: 'tbsp' }, { name: 'sugar', quantity: 1, unit: 'cup' }];
+    expect(annotateInstruction('Stir in butter (50 g) and <<sugar|1 cup>>, then more sugar', ingredients))
+      .toBe('Stir in <<butter|50 g>> and <<sugar|1 cup>>, then more sugar');
+  });
+});
+
+describe('importRecipeText', () => {
+  it('reads a Markdown recipe with servings, steps and tips', () => {
+    const { recipe, format } = importRecipeText(MARKDOWN);
+    expect(format).toBe('markdown');
+    expect(recipe).toMatchObject({ title: 'Garlic Butter Prawns', description: 'Quick weeknight dinner.', servings: 2 });
+    expect(recipe.ingredients).toEqual([
+      { name: 'prawns', quantity: 300, unit: 'g' },
+      { name: 'butter', quantity: 2, unit: 'tbsp' },
+      { name: 'garlic', quantity: 3, unit: 'clove', preparation: 'minced' },
+    ]);
+    expect(recipe.steps).toEqual([
+      { id: 's1', type: StepType.COOK, instruction: 'Melt the <<butter|2 tbsp>> in a pan.' },
+      {
+        id: 's2',
+        type: StepType.COOK,
+        instruction: 'Add the <<garlic|3 cloves>> and <<prawns|300g>> and fry for 3 minutes.',
+        insight: "Don't overcook the prawns.",
+      },
+    ]);
+  });
+
+  it('reads back its own Markdown export unchanged', () => {
+    const { recipe } = importRecipeText(MARKDOWN);
+    expect(importRecipeText(recipeToMarkdown(recipe, 'metric')).recipe).toEqual(recipe);
+  });
+
+  it('finds the recipe in a page of JSON-LD and cleans up its text', () => {
+    const { recipe, format } = importRecipeText(jsonLdPage({
+      name: 'Tomato &amp; Basil Soup',
+      description: '<p>Simple&#8230; &#x110000;</p>',
+      recipeYield: ['4', '4 bowls'],
+      recipeIngredient: ['4 tomatoes', '1 cup stock'],
+      recipeInstructions: [{
+        '@type': 'HowToSection',
+        itemListElement: [
+          { '@type': 'HowToStep', text: 'Chop the tomatoes.' },
+          { '@type': 'HowToTip', text: 'Use ripe ones.' },
+          { '@type': 'HowToStep', text: 'Simmer in the stock for 20 minutes.' },
+        ],
+      }],
+    }));
+    expect(format).toBe('json-ld');
+    expect(recipe).toMatchObject({ title: 'Tomato & Basil Soup', description: 'Simple… &#x110000;', servings: 4 });
+    expect(recipe.steps).toEqual([
+      { id: 's1', type: StepType.PREP, instruction: 'Chop the <<tomatoes|4>>.', insight: 'Use ripe ones.' },
+      { id: 's2', type: StepType.COOK, instruction: 'Simmer in the <<stock|1 cup>> for 20 minutes.' },
+    ]);
+  });
+
+  it('splits plain text without headings into ingredients and steps', () => {
+    const { recipe, format } = importRecipeText('Pancakes\nFluffy.\n2 eggs\n1 cup milk\nWhisk the eggs and milk together.\nFry in a hot pan.');
+    expect(format).toBe('text');
+    expect(recipe).toMatchObject({ title: 'Pancakes', description: 'Fluffy.' });
+    expect(recipe.ingredients.map(i => i.name)).toEqual(['eggs', 'milk']);
+    expect(recipe.steps.map(s => s.instruction)).toEqual(['Whisk the <<eggs|2>> and <<milk|1 cup>> together.', 'Fry in a hot pan.']);
+  });
+
+  it('rejects text that holds no recipe', () => {
+    expect(() => importRecipeText('just some words')).toThrow(RecipeValidationError);
+  });
+});
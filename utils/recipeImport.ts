@@ -0,0 +1,317 @@
+import { Ingredient, Recipe } from '../types';
+import { parseIngredient } from './ingredients';
+import { formatAmount } from './quantity';
+import { RecipeValidationError, inferStepType, validateRecipe } from './recipeValidation';
+
+// Local, best-effort conversion of recipes written for people into our Recipe
+// shape. The model pass (structureRecipe) handles whatever this can't.
+
+export type ImportFormat = 'json-ld' | 'markdown' | 'text';
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  'json-ld': 'Schema.org JSON-LD',
+  markdown: 'Markdown',
+  text: 'Plain text',
+};
+
+interface RawStep {
+  instruction: string;
+  insight?: string;
+}
+
+interface RawRecipe {
+  title: string;
+  description: string;
+  servings?: number;
+  ingredients: Ingredient[];
+  steps: RawStep[];
+}
+
+// JSON-LD arrives as raw JSON or inside a saved web page
+const LD_SCRIPT = /<script[^>]*application\/ld\+json[^>]*>([\s\S]*?)<\/script>/gi;
+
+export const detectImportFormat = (text: string): ImportFormat => {
+  const trimmed = text.trim();
+  if (/^[[{]/.test(trimmed) || /application\/ld\+json/i.test(trimmed)) return 'json-ld';
+  if (/^#{1,6}\s|^\s*[-*+]\s|\*\*[^*\n]+\*\*/m.test(trimmed)) return 'markdown';
+  return 'text';
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Numeric entities outside Unicode, or for a lone surrogate, are left as written
+const isCharacter = (codePoint: number) =>
+  codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+
+// Recipe sites put HTML and entities inside JSON-LD strings
+const cleanText = (value: unknown): string =>
+  typeof value !== 'string' ? '' : value
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, (match, code: string) => {
+      if (code[0] !== '#') return ENTITIES[code.toLowerCase()] ?? match;
+      const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      return isCharacter(codePoint) ? String.fromCodePoint(codePoint) : match;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// "4", "Serves 4", ["4", "4 servings"]
+const parseServings = (value: unknown): number | undefined => {
+  if (Array.isArray(value)) return parseServings(value[0]);
+  if (typeof value === 'number') return value > 0 ? Math.round(value) : undefined;
+  const match = typeof value === 'string' ? value.match(/\d+/) : null;
+  return match ? Number(match[0]) : undefined;
+};
+
+const hasType = (node: Record<string, unknown>, type: string) => {
+  const value = node['@type'];
+  return value === type || (Array.isArray(value) && value.includes(type));
+};
+
+const findRecipeNode = (node: unknown): Record<string, unknown> | null => {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findRecipeNode(item);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!node || typeof node !== 'object') return null;
+  const obj = node as Record<string, unknown>;
+  if (hasType(obj, 'Recipe')) return obj;
+  return findRecipeNode(obj['@graph']) ?? findRecipeNode(obj.mainEntity);
+};
+
+// Steps may be a block of text, a list of strings, HowToSteps, or HowToSections
+// of HowToSteps. HowToTips become the insight of the step they follow.
+const collectSteps = (node: unknown, steps: RawStep[]) => {
+  if (typeof node === 'string') {
+    node.split(/\n+/).map(line => cleanText(line.replace(/^\s*(?:\d+[.)]|step\s*\d+[:.]?)\s*/i, '')))
+      .filter(Boolean)
+      .forEach(instruction => steps.push({ instruction }));
+    return;
+  }
+  if (Array.isArray(node)) {
+    node.forEach(item => collectSteps(item, steps));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+  const obj = node as Record<string, unknown>;
+
+  if (hasType(obj, 'HowToTip')) {
+    const last = steps[steps.length - 1];
+    const tip = cleanText(obj.text);
+    if (last && tip) last.insight = last.insight ? `${last.insight} ${tip}` : tip;
+    return;
+  }
+  if (hasType(obj, 'HowToSection')) {
+    collectSteps(obj.itemListElement, steps);
+    return;
+  }
+
+  // A HowToStep holding HowToDirections and HowToTips, as we export them
+  const parts = Array.isArray(obj.itemListElement) ? obj.itemListElement : [];
+  const direction = parts.find(part => part && typeof part === 'object' && hasType(part as Record<string, unknown>, 'HowToDirection'));
+  const instruction = cleanText((direction as Record<string, unknown> | undefined)?.text ?? obj.text ?? obj.name);
+  if (!instruction) return;
+  steps.push({ instruction });
+  parts
+    .filter(part => part && typeof part === 'object' && hasType(part as Record<string, unknown>, 'HowToTip'))
+    .forEach(tip => collectSteps(tip, steps));
+};
+
+const parseJsonLd = (text: string): RawRecipe => {
+  const blocks = [...text.matchAll(LD_SCRIPT)].map(match => match[1]);
+  let recipeNode: Record<string, unknown> | null = null;
+  for (const block of blocks.length > 0 ? blocks : [text]) {
+    try {
+      recipeNode = findRecipeNode(JSON.parse(block));
+    } catch {
+      continue;
+    }
+    if (recipeNode) break;
+  }
+  if (!recipeNode) throw new RecipeValidationError(['No Schema.org Recipe found in the JSON-LD']);
+
+  const ingredientLines = recipeNode.recipeIngredient ?? recipeNode.ingredients;
+  const steps: RawStep[] = [];
+  collectSteps(recipeNode.recipeInstructions, steps);
+
+  return {
+    title: cleanText(recipeNode.name),
+    description: cleanText(recipeNode.description),
+    servings: parseServings(recipeNode.recipeYield),
+    ingredients: (Array.isArray(ingredientLines) ? ingredientLines : [])
+      .map(cleanText)
+      .filter(Boolean)
+      .map(line => parseIngredient(line)),
+    steps,
+  };
+};
+
+const INGREDIENTS_HEADING = /^(?:ingredients?|you(?:'ll| will)? need|what you(?:'ll| will)? need|shopping list)\b/i;
+const STEPS_HEADING = /^(?:method|instructions?|directions?|steps|preparation|how to make(?: it)?)\b/i;
+const NOTES_HEADING = /^(?:notes?|tips?|nutrition)\b/i;
+const SERVINGS_LINE = /^(?:serves|servings?|yield|makes)\b[:\s]*(\d+)/i;
+const LIST_MARKER = /^\s*(?:[-*+•]|\d+[.)]|step\s*\d+[:.]?)\s+/i;
+const CHECKBOX = /^(?:\[[ xX]\]|☐|☑)\s*/;
+const TIP_LINE = /^(?:💡\s*)?(?:tip|note|hint)\s*:\s*/i;
+
+// Our own Markdown export writes "**butter** (50 g)"; anything else loses its emphasis
+const unmark = (line: string) => line
+  .replace(/\*\*([^*]+)\*\*\s*\(([^)]*\d[^)]*)\)/g, '<<$1|$2>>')
+  .replace(/(\*\*|__)(.+?)\1/g, '$2')
+  .replace(/(^|\W)[*_]([^*_]+)[*_](?=\W|$)/g, '$1$2')
+  .trim();
+
+// "## Ingredients", "INGREDIENTS", "For the sauce:"
+const headingText = (line: string): string | null => {
+  const markdown = line.match(/^#{1,6}\s+(.*)$/);
+  if (markdown) return unmark(markdown[1]).replace(/:$/, '').trim();
+  if (LIST_MARKER.test(line)) return null;
+  const plain = unmark(line);
+  if (plain.length <= 40 && plain.endsWith(':')) return plain.slice(0, -1).trim();
+  if (plain.length <= 40 && /[A-Z]/.test(plain) && plain === plain.toUpperCase() && !/\d/.test(plain)) return plain;
+  return null;
+};
+
+// Recipes without section headings: short lines that start with an amount are
+// ingredients, longer sentences are steps
+const looksLikeIngredient = (line: string) =>
+  line.length <= 60 && !/[.!?]$/.test(line) && parseIngredient(line).quantity !== undefined;
+
+const parseText = (text: string): RawRecipe => {
+  const recipe: RawRecipe = { title: '', description: '', ingredients: [], steps: [] };
+  const description: string[] = [];
+  let section: 'intro' | 'ingredients' | 'steps' | 'notes' = 'intro';
+  let group: string | undefined;
+  let sawSections = false;
+
+  const addTip = (tip: string) => {
+    const last = recipe.steps[recipe.steps.length - 1];
+    if (last && tip) last.insight = last.insight ? `${last.insight} ${tip}` : tip;
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    if (!rawLine.trim()) continue;
+    const heading = headingText(rawLine.trim());
+
+    if (heading !== null) {
+      if (INGREDIENTS_HEADING.test(heading)) {
+        section = 'ingredients';
+        group = undefined;
+        sawSections = true;
+      } else if (STEPS_HEADING.test(heading)) {
+        section = 'steps';
+        sawSections = true;
+      } else if (NOTES_HEADING.test(heading)) {
+        section = 'notes';
+      } else if (section === 'ingredients') {
+        group = heading.replace(/^for (?:the )?/i, '').toLowerCase() || undefined;
+      } else if (section === 'intro' && !recipe.title) {
+        recipe.title = heading;
+      }
+      continue;
+    }
+
+    const quoted = /^\s*>/.test(rawLine);
+    const line = unmark(rawLine.replace(/^\s*>\s*/, '').replace(LIST_MARKER, '').replace(CHECKBOX, ''));
+    if (!line) continue;
+
+    const servings = line.match(SERVINGS_LINE);
+    if (servings && section !== 'steps') {
+      recipe.servings = Number(servings[1]);
+      continue;
+    }
+
+    if (section === 'intro') {
+      if (!recipe.title) recipe.title = line;
+      else description.push(line);
+    } else if (section === 'ingredients') {
+      recipe.ingredients.push(parseIngredient(line, group));
+    } else if (section === 'steps') {
+      if (quoted || TIP_LINE.test(line)) addTip(line.replace(/^💡\s*/, '').replace(TIP_LINE, ''));
+      // Wrapped lines of the same list item are indented without a marker
+      else if (/^\s{2,}\S/.test(rawLine) && !LIST_MARKER.test(rawLine) && recipe.steps.length > 0) {
+        recipe.steps[recipe.steps.length - 1].instruction += ` ${line}`;
+      } else recipe.steps.push({ instruction: line });
+    }
+  }
+
+  if (!sawSections) {
+    // Everything after the title landed in the description
+    recipe.description = '';
+    for (const line of description) {
+      if (looksLikeIngredient(line)) recipe.ingredients.push(parseIngredient(line));
+      else if (recipe.ingredients.length === 0 && recipe.steps.length === 0) recipe.description += `${recipe.description ? ' ' : ''}${line}`;
+      else recipe.steps.push({ instruction: line });
+    }
+    return recipe;
+  }
+
+  recipe.description = description.join(' ');
+  return recipe;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Replaces the first match that isn't already inside a <<Name|Quantity>> tag
+const replaceOutsideTags = (text: string, pattern: RegExp, replace: (match: string, ...groups: string[]) => string): string => {
+  const parts = text.split(/(<<[^>]+>>)/);
+  for (let i = 0; i < parts.length; i += 2) {
+    if (pattern.test(parts[i])) {
+      parts[i] = parts[i].replace(pattern, replace);
+      return parts.join('');
+    }
+  }
+  return text;
+};
+
+// Tags the first mention of each measured ingredient with its full amount:
+// "Melt the butter" -> "Melt the <<butter|2 tbsp>>". An amount written right
+// after the name ("butter (50 g)", as exports spell tags out) is used instead.
+// Longer names go first so "heavy cream" is tagged before "cream" could be.
+export const annotateInstruction = (instruction: string, ingredients: Ingredient[]): string => {
+  let text = instruction;
+  const measured = ingredients
+    .filter(ingredient => ingredient.quantity !== undefined)
+    .sort((a, b) => b.name.length - a.name.length);
+
+  for (const ingredient of measured) {
+    if (new RegExp(`<<${escapeRegExp(ingredient.name)}\\|`, 'i').test(text)) continue;
+    const words = ingredient.name.toLowerCase().split(/\s+/);
+    // "cremini mushrooms" is often just "mushrooms" in the steps
+    const candidates = [ingredient.name, ...(words.length > 1 ? [words[words.length - 1]] : [])];
+    for (const candidate of candidates) {
+      // Matches singular and plural: "tomato" / "tomatoes", "egg" / "eggs"
+      const stem = candidate.replace(/(?:(?<=o)es|(?<=[^su])s)$/i, '');
+      const pattern = new RegExp(`\\b(${escapeRegExp(stem)}(?:es|s)?)\\b(?:\\s*\\(([^()]*\\d[^()]*)\\))?`, 'i');
+      const next = replaceOutsideTags(text, pattern, (_, name: string, written?: string) =>
+        `<<${name}|${written?.trim() || formatAmount(ingredient)}>>`
+      );
+      if (next !== text) {
+        text = next;
+        break;
+      }
+    }
+  }
+  return text;
+};
+
+// Throws RecipeValidationError when the text doesn't hold a usable recipe
+export const importRecipeText = (text: string): { recipe: Recipe; format: ImportFormat } => {
+  const format = detectImportFormat(text);
+  const raw = format === 'json-ld' ? parseJsonLd(text) : parseText(text);
+
+  const { value } = validateRecipe({
+    title: raw.title,
+    description: raw.description,
+    servings: raw.servings,
+    ingredients: raw.ingredients,
+    steps: raw.steps.map(step => {
+      const instruction = annotateInstruction(step.instruction, raw.ingredients);
+      return { instruction, type: inferStepType(instruction), insight: step.insight };
+    }),
+  });
+  return { recipe: value, format };
+};
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { StepType } from '../types';
+import {
+  RecipeValidationError,
+  inferStepType,
+  parseModelJson,
+  previewRecipe,
+  repairIngredientMarkup,
+  validateRecipe,
+} from './recipeValidation';
+
+const rawRecipe = (overrides: Record<string, unknown> = {}) => ({
+  title: 'Omelette',
+  description: 'Quick eggs',
+  servings: 1,
+  ingredients: [{ name: 'eggs', quantity: 2 }],
+  steps: [{ instruction: 'Whisk <<eggs|2>>', type: 'PREP' }],
+  ...overrides,
+});
+
+const validationErrors = (fn: () => unknown): string[] => {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof RecipeValidationError) return error.errors;
+    throw error;
+  }
+  return [];
+};
+
+describe('repairIngredientMarkup', () => {
+  it('doubles single brackets around a tag', () => {
+    expect(repairIngredientMarkup('Add <butter|50g> now')).toBe('Add <<butter|50g>> now');
+  });
+
+  it('trims whitespace inside tags', () => {
+    expect(repairIngredientMarkup('Add << butter | 50g >>')).toBe('Add <<butter|50g>>');
+  });
+
+  it('unwraps tags without a quantity and drops stray brackets', () => {
+    expect(repairIngredientMarkup('Add <<butter>> and <<salt|>>')).toBe('Add butter and salt');
+    expect(repairIngredientMarkup('Add <<butter|50g and stir')).toBe('Add butter 50g and stir');
+  });
+
+  it('leaves well-formed markup untouched', () => {
+    const text = 'Melt <<butter|50g>>, then add <<flour|2 tbsp>>';
+    expect(repairIngredientMarkup(text)).toBe(text);
+  });
+});
+
+describe('inferStepType', () => {
+  it('recognises cooking, waiting and preparation', () => {
+    expect(inferStepType('Simmer the sauce')).toBe(StepType.COOK);
+    expect(inferStepType('Chill the dough for 30 minutes')).toBe(StepType.TIMING);
+    expect(inferStepType('Chop the onions')).toBe(StepType.PREP);
+  });
+});
+
+describe('validateRecipe', () => {
+  it('accepts a well-formed recipe without repairs', () => {
+    const { value, repairs } = validateRecipe(rawRecipe());
+    expect(repairs).toEqual([]);
+    expect(value).toMatchObject({ title: 'Omelette', servings: 1, steps: [{ instruction: 'Whisk <<eggs|2>>', type: StepType.PREP }] });
+  });
+
+  it('fills in missing servings and description', () => {
+    const { value, repairs } = validateRecipe(rawRecipe({ servings: undefined, description: '' }));
+    expect(value.servings).toBe(4);
+    expect(value.description).toBe('');
+    expect(repairs).toEqual(['Missing "description", left blank', 'Missing "servings", assumed 4']);
+  });
+
+  it('maps step type aliases and infers unknown ones', () => {
+    const { value, repairs } = validateRecipe(rawRecipe({
+      steps: [
+        { instruction: 'Bake until golden', type: 'baking' },
+        { instruction: 'Let it rest', type: 'wait' },
+      ],
+    }));
+    expect(value.steps.map(s => s.type)).toEqual([StepType.COOK, StepType.TIMING]);
+    expect(repairs).toEqual(['Step 1: unknown type "BAKING", classified as COOK']);
+  });
+
+  it('drops unusable steps and repairs markup, noting each fix', () => {
+    const { value, repairs } = validateRecipe(rawRecipe({
+      steps: ['not a step', { instruction: '  ', type: 'PREP' }, { instruction: 'Add <eggs|2>', type: 'PREP' }],
+    }));
+    expect(value.steps.map(s => s.instruction)).toEqual(['Add <<eggs|2>>']);
+    expect(repairs).toEqual([
+      'Dropped step 1: not an object',
+      'Dropped step 2: empty instruction',
+      'Repaired ingredient markup in step 3',
+    ]);
+  });
+
+  it('rejects output with nothing to render', () => {
+    expect(validationErrors(() => validateRecipe([]))).toEqual(['Expected a recipe object']);
+    expect(validationErrors(() => validateRecipe(rawRecipe({ title: '', ingredients: [], steps: 'none' })))).toEqual([
+      'Missing "title"',
+      '"ingredients" must be a non-empty list',
+      '"steps" must be an array',
+    ]);
+    expect(validationErrors(() => validateRecipe(rawRecipe({ steps: [{ instruction: '' }] })))).toEqual([
+      '"steps" contains no usable steps',
+    ]);
+  });
+});
+
+describe('previewRecipe', () => {
+  it('keeps whatever has streamed in so far', () => {
+    expect(previewRecipe({ title: ' Omelette ', steps: [{ instruction: 'Whisk', type: 'PREP' }, {}] })).toEqual({
+      title: 'Omelette',
+      steps: [{ instruction: 'Whisk', type: StepType.PREP }],
+    });
+  });
+
+  it('never throws on junk', () => {
+    expect(previewRecipe(null)).toEqual({});
+    expect(previewRecipe('text')).toEqual({});
+  });
+});
+
+describe('parseModelJson', () => {
+  it('reports invalid JSON as a validation error carrying the raw text', () => {
+    const text = '{"title": "Omelette",';
+    try {
+      parseModelJson(text);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(RecipeValidationError);
+      expect((error as RecipeValidationError).rawText).toBe(text);
+    }
+  });
+});
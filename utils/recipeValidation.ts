@@ -0,0 +1,302 @@
+import { Recipe, RecipeDraft, RecipeStep, StepType, LeftoverSuggestion, MealPlanEntry, MealSlot, Nutrients } from '../types';
+import { normalizeIngredients } from './ingredients';
+import { DEFAULT_SERVINGS } from './scaling';
+
+// Thrown when model output cannot be turned into something the UI can render
+export class RecipeValidationError extends Error {
+  constructor(public readonly errors: string[], public readonly rawText?: string) {
+    super(`Invalid model response: ${errors.join('; ')}`);
+    this.name = 'RecipeValidationError';
+  }
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  // Recoverable problems that were fixed automatically
+  repairs: string[];
+}
+
+const STEP_TYPE_ALIASES: Record<string, StepType> = {
+  PREP: StepType.PREP,
+  PREPARATION: StepType.PREP,
+  PREPARE: StepType.PREP,
+  MIX: StepType.PREP,
+  ASSEMBLY: StepType.PREP,
+  COOK: StepType.COOK,
+  COOKING: StepType.COOK,
+  HEAT: StepType.COOK,
+  BAKE: StepType.COOK,
+  FRY: StepType.COOK,
+  TIMING: StepType.TIMING,
+  TIMER: StepType.TIMING,
+  WAIT: StepType.TIMING,
+  REST: StepType.TIMING,
+};
+
+const TIMING_HINT = /\b(\d+\s*(?:-\s*\d+\s*)?(?:min|minutes?|hours?|hrs?|seconds?)|rest|chill|marinate|wait|proof|let (?:it )?(?:sit|stand|cool))\b/i;
+const COOK_HINT = /\b(heat|fry|saut[eé]|bake|roast|boil|simmer|grill|sear|toast|broil|brown|melt|steam|poach)\b/i;
+
+// Best guess for a step whose type is missing or unrecognised
+export const inferStepType = (instruction: string): StepType => {
+  if (COOK_HINT.test(instruction)) return StepType.COOK;
+  if (TIMING_HINT.test(instruction)) return StepType.TIMING;
+  return StepType.PREP;
+};
+
+// Fixes common slips in <<Name|Quantity>> markup so RichInstruction never shows raw brackets
+export const repairIngredientMarkup = (text: string): string => {
+  const tags: string[] = [];
+
+  const protectedText = text
+    // <butter|50g> -> <<butter|50g>>
+    .replace(/(^|[^<])<([^<>|]+)\|([^<>]+)>(?!>)/g, '$1<<$2|$3>>')
+    // Collect well-formed tags, trimming stray whitespace inside them
+    .replace(/<<\s*([^<>|]+?)\s*\|\s*([^<>|]+?)\s*>>/g, (_, name: string, quantity: string) => {
+      tags.push(`<<${name}|${quantity}>>`);
+      return `\u0000${tags.length - 1}\u0000`;
+    });
+
+  const cleaned = protectedText
+    // <<butter>> or <<butter|>> -> butter
+    .replace(/<<\s*([^<>|]+?)\s*\|?\s*>>/g, '$1')
+    // Unbalanced leftovers: drop the brackets, keep the words
+    .replace(/<<|>>/g, '')
+    .replace(/\s*\|\s*/g, ' ')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+
+  return cleaned.replace(/\u0000(\d+)\u0000/g, (_, index: string) => tags[Number(index)]);
+};
+
+const asTrimmedString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : '';
+
+const validateStep = (raw: unknown, index: number, repairs: string[]): RecipeStep | null => {
+  if (!raw || typeof raw !== 'object') {
+    repairs.push(`Dropped step ${index + 1}: not an object`);
+    return null;
+  }
+  const step = raw as Record<string, unknown>;
+
+  const original = asTrimmedString(step.instruction);
+  if (!original) {
+    repairs.push(`Dropped step ${index + 1}: empty instruction`);
+    return null;
+  }
+  const instruction = repairIngredientMarkup(original);
+  if (instruction !== original) {
+    repairs.push(`Repaired ingredient markup in step ${index + 1}`);
+  }
+
+  const rawType = asTrimmedString(step.type).toUpperCase();
+  let type = STEP_TYPE_ALIASES[rawType];
+  if (!type) {
+    type = inferStepType(instruction);
+    repairs.push(`Step ${index + 1}: unknown type "${rawType || 'missing'}", classified as ${type}`);
+  }
+
+  const result: RecipeStep = { instruction, type };
+  const insight = asTrimmedString(step.insight);
+  if (insight) result.insight = insight;
+
+  const id = asTrimmedString(step.id);
+  if (id) result.id = id;
+  if (Array.isArray(step.dependsOn)) {
+    result.dependsOn = step.dependsOn.map(asTrimmedString).filter(Boolean);
+  }
+  for (const field of ['activeMinutes', 'passiveMinutes'] as const) {
+    const minutes = step[field];
+    if (typeof minutes === 'number' && minutes >= 0) result[field] = Math.round(minutes);
+    else if (minutes != null) repairs.push(`Step ${index + 1}: invalid "${field}", ignored`);
+  }
+  if (Array.isArray(step.equipment)) {
+    const equipment = step.equipment.map(asTrimmedString).filter(Boolean);
+    if (equipment.length > 0) result.equipment = equipment;
+  }
+  return result;
+};
+
+// Gives every step a unique id and keeps only dependencies on earlier steps,
+// so the step graph is always acyclic and in cooking order
+const linkSteps = (steps: RecipeStep[], repairs: string[]): RecipeStep[] => {
+  const seen = new Set<string>();
+  return steps.map((step, index) => {
+    let id = step.id;
+    if (!id || seen.has(id)) {
+      if (id) repairs.push(`Step ${index + 1}: duplicate id "${id}", renamed`);
+      id = `s${index + 1}`;
+      while (seen.has(id)) id += "'";
+    }
+    const linked = { ...step, id };
+    if (step.dependsOn) {
+      const listed = [...new Set(step.dependsOn)];
+      linked.dependsOn = listed.filter(dep => seen.has(dep));
+      if (linked.dependsOn.length < listed.length) {
+        repairs.push(`Step ${index + 1}: dropped dependencies on unknown or later steps`);
+      }
+    }
+    seen.add(id);
+    return linked;
+  });
+};
+
+export const validateRecipe = (raw: unknown): ValidationResult<Recipe> => {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new RecipeValidationError(['Expected a recipe object']);
+  }
+  const data = raw as Record<string, unknown>;
+
+  const title = asTrimmedString(data.title);
+  if (!title) errors.push('Missing "title"');
+
+  const description = asTrimmedString(data.description);
+  if (!description) repairs.push('Missing "description", left blank');
+
+  let servings = typeof data.servings === 'number' && data.servings > 0 ? Math.round(data.servings) : 0;
+  if (!servings) {
+    servings = DEFAULT_SERVINGS;
+    repairs.push(`Missing "servings", assumed ${DEFAULT_SERVINGS}`);
+  }
+
+  const ingredients = normalizeIngredients(data.ingredients);
+  if (ingredients.length === 0) errors.push('"ingredients" must be a non-empty list');
+
+  let steps: RecipeStep[] = [];
+  if (!Array.isArray(data.steps)) {
+    errors.push('"steps" must be an array');
+  } else {
+    steps = linkSteps(
+      data.steps
+        .map((step, index) => validateStep(step, index, repairs))
+        .filter((step): step is RecipeStep => step !== null),
+      repairs
+    );
+    if (steps.length === 0) errors.push('"steps" contains no usable steps');
+  }
+
+  if (errors.length > 0) throw new RecipeValidationError(errors);
+
+  return { value: { title, description, servings, ingredients, steps }, repairs };
+};
+
+// Lenient counterpart of validateRecipe for partially streamed output: keeps
+// whatever is usable so far and never throws
+export const previewRecipe = (raw: unknown): RecipeDraft => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const data = raw as Record<string, unknown>;
+  const draft: RecipeDraft = {};
+
+  const title = asTrimmedString(data.title);
+  if (title) draft.title = title;
+  const description = asTrimmedString(data.description);
+  if (description) draft.description = description;
+  if (typeof data.servings === 'number' && data.servings > 0) {
+    draft.servings = Math.round(data.servings);
+  }
+  if (Array.isArray(data.ingredients)) {
+    draft.ingredients = normalizeIngredients(data.ingredients);
+  }
+  if (Array.isArray(data.steps)) {
+    draft.steps = data.steps
+      .map((step, index) => validateStep(step, index, []))
+      .filter((step): step is RecipeStep => step !== null);
+  }
+  return draft;
+};
+
+export const validateLeftoverSuggestions = (raw: unknown): ValidationResult<LeftoverSuggestion[]> => {
+  if (!Array.isArray(raw)) {
+    throw new RecipeValidationError(['Expected a list of leftover suggestions']);
+  }
+
+  const repairs: string[] = [];
+  const value = raw.flatMap((item, index): LeftoverSuggestion[] => {
+    const data = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const title = asTrimmedString(data.title);
+    if (!title) {
+      repairs.push(`Dropped suggestion ${index + 1}: missing title`);
+      return [];
+    }
+    const matchingIngredients = Array.isArray(data.matchingIngredients)
+      ? data.matchingIngredients.map(asTrimmedString).filter(Boolean)
+      : [];
+    return [{ title, description: asTrimmedString(data.description), matchingIngredients }];
+  });
+
+  return { value, repairs };
+};
+
+const MEAL_SLOT_VALUES: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+
+// Keeps every meal whose recipe validates; only a plan with no usable meals fails
+export const validateMealPlan = (raw: unknown): ValidationResult<MealPlanEntry[]> => {
+  if (!Array.isArray(raw)) {
+    throw new RecipeValidationError(['Expected a list of planned meals']);
+  }
+
+  const repairs: string[] = [];
+  const value = raw.flatMap((item, index): MealPlanEntry[] => {
+    const data = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    let recipe: Recipe;
+    try {
+      const result = validateRecipe(data.recipe);
+      recipe = result.value;
+      repairs.push(...result.repairs.map(r => `Meal ${index + 1}: ${r}`));
+    } catch (error) {
+      if (!(error instanceof RecipeValidationError)) throw error;
+      repairs.push(`Dropped meal ${index + 1}: ${error.errors.join(', ')}`);
+      return [];
+    }
+
+    let day = typeof data.day === 'number' ? Math.round(data.day) : NaN;
+    if (!(day >= 0 && day <= 6)) {
+      day = Math.min(index, 6);
+      repairs.push(`Meal ${index + 1}: invalid "day", placed on day ${day}`);
+    }
+    const slotText = asTrimmedString(data.slot).toLowerCase();
+    const slot = MEAL_SLOT_VALUES.find(s => s === slotText) ?? 'dinner';
+    if (slot !== slotText) repairs.push(`Meal ${index + 1}: unknown slot "${slotText}", assumed dinner`);
+
+    return [{ day, slot, recipe }];
+  });
+
+  if (value.length === 0) {
+    throw new RecipeValidationError(['The plan contains no usable meals']);
+  }
+  return { value, repairs };
+};
+
+const NUTRIENT_FIELDS: (keyof Nutrients)[] = ['calories', 'protein', 'fat', 'carbs', 'fiber', 'sodium'];
+
+// Calories are required; other missing or negative values become 0
+export const validateNutrients = (raw: unknown): ValidationResult<Nutrients> => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  if (!(typeof data.calories === 'number' && data.calories > 0)) {
+    throw new RecipeValidationError(['Missing or invalid "calories"']);
+  }
+
+  const repairs: string[] = [];
+  const value = {} as Nutrients;
+  for (const field of NUTRIENT_FIELDS) {
+    const amount = data[field];
+    if (typeof amount === 'number' && amount >= 0) {
+      value[field] = Math.round(amount);
+    } else {
+      value[field] = 0;
+      repairs.push(`Invalid "${field}", set to 0`);
+    }
+  }
+  return { value, repairs };
+};
+
+// JSON.parse that reports failures as validation errors so they can be repaired
+export const parseModelJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RecipeValidationError(['Response was not valid JSON'], text);
+  }
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { Route, formatRoute, parseRoute, withOverlay } from './routes';
+
+describe('routes', () => {
+  const routes: Route[] = [
+    { name: 'search' },
+    { name: 'search', query: 'vegan curry & rice' },
+    { name: 'recipe', id: 'abc/123' },
+    { name: 'recipe', id: 'abc', overlay: 'cook' },
+    { name: 'shared', payload: 'q1w2-e3_r4', overlay: 'tutorial' },
+    { name: 'recipe-box' },
+    { name: 'shopping-list' },
+    { name: 'import' },
+  ];
+
+  it('round-trips every route through the URL fragment', () => {
+    routes.forEach(route => expect(parseRoute(formatRoute(route))).toEqual(route));
+  });
+
+  it('formats readable fragments', () => {
+    expect(formatRoute({ name: 'recipe', id: 'abc', overlay: 'cook' })).toBe('#/recipe/abc/cook');
+    expect(formatRoute({ name: 'pantry' })).toBe('#/pantry');
+    expect(formatRoute({ name: 'search' })).toBe('#/');
+  });
+
+  it('falls back to search for unknown or incomplete paths', () => {
+    expect(parseRoute('')).toEqual({ name: 'search' });
+    expect(parseRoute('#/nowhere')).toEqual({ name: 'search' });
+    expect(parseRoute('#/recipe')).toEqual({ name: 'search' });
+    expect(parseRoute('#/?q=%20%20')).toEqual({ name: 'search' });
+  });
+
+  it('ignores unknown overlays', () => {
+    expect(parseRoute('#/recipe/abc/print')).toEqual({ name: 'recipe', id: 'abc', overlay: undefined });
+  });
+
+  it('adds and removes overlays without touching the original', () => {
+    const route = { name: 'recipe' as const, id: 'abc' };
+    expect(withOverlay(route, 'tutorial')).toEqual({ name: 'recipe', id: 'abc', overlay: 'tutorial' });
+    expect(withOverlay({ ...route, overlay: 'cook' })).toEqual(route);
+    expect(route).toEqual({ name: 'recipe', id: 'abc' });
+  });
+});
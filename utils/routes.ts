@@ -0,0 +1,65 @@
+// Routes live in the URL fragment so links work on any static host without
+// server-side rewrites
+
+export type RecipeOverlay = 'cook' | 'tutorial';
+
+export type ScreenName = 'recipe-box' | 'planner' | 'shopping-list' | 'pantry' | 'settings' | 'import';
+
+export type Route =
+  | { name: 'search'; query?: string }
+  // A recipe from the recipe box, or one generated earlier in this session
+  | { name: 'recipe'; id: string; overlay?: RecipeOverlay }
+  // A recipe carried entirely in the link, so it opens on any device
+  | { name: 'shared'; payload: string; overlay?: RecipeOverlay }
+  | { name: ScreenName };
+
+const SCREEN_PATHS: Record<ScreenName, string> = {
+  'recipe-box': 'box',
+  planner: 'planner',
+  'shopping-list': 'shopping',
+  pantry: 'pantry',
+  settings: 'settings',
+  import: 'import',
+};
+
+const OVERLAYS: RecipeOverlay[] = ['cook', 'tutorial'];
+
+// Unknown paths fall back to the search screen rather than a dead end
+export const parseRoute = (hash: string): Route => {
+  const [path, search = ''] = hash.replace(/^#\/?/, '').split('?');
+  const [head, arg, extra] = path.split('/').filter(Boolean);
+  const overlay = OVERLAYS.find(o => o === extra);
+
+  if (head === 'recipe' && arg) return { name: 'recipe', id: decodeURIComponent(arg), overlay };
+  if (head === 'shared' && arg) return { name: 'shared', payload: arg, overlay };
+
+  const screen = (Object.keys(SCREEN_PATHS) as ScreenName[]).find(name => SCREEN_PATHS[name] === head);
+  if (screen) return { name: screen };
+
+  const query = new URLSearchParams(search).get('q')?.trim();
+  return query ? { name: 'search', query } : { name: 'search' };
+};
+
+export const formatRoute = (route: Route): string => {
+  switch (route.name) {
+    case 'search':
+      return route.query ? `#/?${new URLSearchParams({ q: route.query })}` : '#/';
+    case 'recipe':
+      return `#/recipe/${encodeURIComponent(route.id)}${route.overlay ? `/${route.overlay}` : ''}`;
+    case 'shared':
+      return `#/shared/${route.payload}${route.overlay ? `/${route.overlay}` : ''}`;
+    default:
+      return `#/${SCREEN_PATHS[route.name]}`;
+  }
+};
+
+export const isRecipeRoute = (route: Route): route is Extract<Route, { name: 'recipe' | 'shared' }> =>
+  route.name === 'recipe' || route.name === 'shared';
+
+// Same recipe, with Cook Mode or the tutorial opened over it (or closed)
+export const withOverlay = <T extends Extract<Route, { name: 'recipe' | 'shared' }>>(route: T, overlay?: RecipeOverlay): T => {
+  const next = { ...route };
+  if (overlay) next.overlay = overlay;
+  else delete next.overlay;
+  return next;
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe, StepType } from '../types';
+import { scaleInstruction, scaleQuantityText, scaleRecipe } from './scaling';
+
+const recipe = (overrides: Partial<Recipe> = {}): Recipe => ({
+  title: 'Pancakes',
+  description: '',
+  servings: 4,
+  ingredients: [
+    { name: 'flour', quantity: 200, unit: 'g' },
+    { name: 'eggs', quantity: 2, quantityMax: 3 },
+    { name: 'salt', preparation: 'to taste' },
+  ],
+  steps: [{ instruction: 'Whisk <<flour|200g>> with <<eggs|2-3>>.', type: StepType.PREP }],
+  ...overrides,
+});
+
+describe('scaleQuantityText', () => {
+  it('scales fractions and ranges', () => {
+    expect(scaleQuantityText('1/2 cup', 2)).toBe('1 cup');
+    expect(scaleQuantityText('2-3', 2)).toBe('4-6');
+  });
+
+  it('leaves text without a number alone', () => {
+    expect(scaleQuantityText('a pinch', 3)).toBe('a pinch');
+  });
+});
+
+describe('scaleInstruction', () => {
+  it('rewrites the quantity in every ingredient tag', () => {
+    expect(scaleInstruction('Add <<butter|50g>> and <<milk|1 cup>>', 2)).toBe('Add <<butter|100g>> and <<milk|2 cups>>');
+  });
+});
+
+describe('scaleRecipe', () => {
+  it('scales ingredients and step tags to the new servings', () => {
+    const scaled = scaleRecipe(recipe(), 8);
+    expect(scaled.servings).toBe(8);
+    expect(scaled.ingredients).toEqual([
+      { name: 'flour', quantity: 400, unit: 'g' },
+      { name: 'eggs', quantity: 4, quantityMax: 6 },
+      { name: 'salt', preparation: 'to taste' },
+    ]);
+    expect(scaled.steps[0].instruction).toBe('Whisk <<flour|400g>> with <<eggs|4-6>>.');
+  });
+
+  it('returns the same recipe when the servings are unchanged', () => {
+    const original = recipe();
+    expect(scaleRecipe(original, 4)).toBe(original);
+  });
+
+  it('assumes the default servings when a recipe has none', () => {
+    expect(scaleRecipe(recipe({ servings: 0 }), 2).ingredients[0].quantity).toBe(100);
+  });
+});
@@ -0,0 +1,53 @@
+import { Ingredient, Recipe, RecipeStep } from '../types';
+import { Amount, mapQuantityText } from './quantity';
+
+// Used when a recipe (e.g. an older saved one) does not say how many it serves
+export const DEFAULT_SERVINGS = 4;
+
+export const MIN_SERVINGS = 1;
+export const MAX_SERVINGS = 50;
+
+// Matches inline ingredient markup: <<butter|50g>>
+export const INGREDIENT_TAG_REGEX = /<<([^|>]+)\|([^>]+)>>/g;
+
+export const scaleAmount = <T extends Amount>(amount: T, factor: number): T => {
+  if (amount.quantity === undefined || factor === 1) return amount;
+  return {
+    ...amount,
+    quantity: amount.quantity * factor,
+    quantityMax: amount.quantityMax !== undefined ? amount.quantityMax * factor : undefined,
+  };
+};
+
+export const scaleIngredient = (ingredient: Ingredient, factor: number): Ingredient =>
+  scaleAmount(ingredient, factor);
+
+// Scales free-text quantities like "1/2 cup", "2-3" or "1 cup (240ml)"
+export const scaleQuantityText = (text: string, factor: number): string => {
+  if (factor === 1) return text;
+  return mapQuantityText(text, amount => scaleAmount(amount, factor));
+};
+
+// Rewrites every <<Name|Quantity>> tag in a step instruction
+export const scaleInstruction = (instruction: string, factor: number): string => {
+  if (factor === 1) return instruction;
+  return instruction.replace(INGREDIENT_TAG_REGEX, (_, name: string, quantity: string) =>
+    `<<${name}|${scaleQuantityText(quantity, factor)}>>`
+  );
+};
+
+export const scaleStep = (step: RecipeStep, factor: number): RecipeStep =>
+  factor === 1 ? step : { ...step, instruction: scaleInstruction(step.instruction, factor) };
+
+export const scaleRecipe = (recipe: Recipe, servings: number): Recipe => {
+  const baseServings = recipe.servings || DEFAULT_SERVINGS;
+  if (servings === baseServings) return recipe;
+
+  const factor = servings / baseServings;
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map(i => scaleIngredient(i, factor)),
+    steps: recipe.steps.map(s => scaleStep(s, factor)),
+  };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe, StepType } from '../types';
+import { decodeRecipe, encodeRecipe } from './shareLink';
+
+const recipe: Recipe = {
+  title: 'Crème brûlée',
+  description: 'Silky custard with a burnt sugar top',
+  servings: 4,
+  ingredients: [
+    { name: 'double cream', quantity: 500, unit: 'ml' },
+    { name: 'egg yolks', quantity: 5 },
+    { name: 'caster sugar', quantity: 100, unit: 'g' },
+  ],
+  steps: [
+    { id: 's1', instruction: 'Warm the <<double cream|500 ml>>.', type: StepType.COOK, activeMinutes: 5 },
+    { id: 's2', instruction: 'Bake for 40 minutes.', type: StepType.TIMING, dependsOn: ['s1'], activeMinutes: 1, passiveMinutes: 40 },
+  ],
+};
+
+describe('share links', () => {
+  it('round-trips a recipe through a URL-safe payload', async () => {
+    const payload = await encodeRecipe(recipe);
+    expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await decodeRecipe(payload)).toMatchObject(recipe);
+  });
+
+  it('rejects truncated or edited links', async () => {
+    const payload = await encodeRecipe(recipe);
+    await expect(decodeRecipe(payload.slice(0, payload.length / 2))).rejects.toThrow();
+    await expect(decodeRecipe('not-a-recipe')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,34 @@
+import { Recipe } from '../types';
+import { validateRecipe } from './recipeValidation';
+import { formatRoute } from './routes';
+
+// Shared recipes travel in the URL fragment as deflated, base64url-encoded
+// JSON. Fragments never reach a server, and opening one needs no generation.
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const encodeRecipe = async (recipe: Recipe): Promise<string> => {
+  const json = JSON.stringify(recipe);
+  return toBase64Url(await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+};
+
+// Links can be truncated or edited by hand, so the result is validated like model output
+export const decodeRecipe = async (payload: string): Promise<Recipe> => {
+  const bytes = await transform(fromBase64Url(payload), new DecompressionStream('deflate-raw'));
+  return validateRecipe(JSON.parse(new TextDecoder().decode(bytes))).value;
+};
+
+export const shareUrlFor = async (recipe: Recipe): Promise<string> => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${formatRoute({ name: 'shared', payload: await encodeRecipe(recipe) })}`;
+};
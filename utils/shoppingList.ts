@@ -0,0 +1,254 @@
+import { Ingredient, ShoppingListRecipe, ShoppingListState, UnitSystem } from '../types';
+import { Amount, formatAmount, normalizeUnit } from './quantity';
+import { findDensity, MeasureKind, readableAmount, unitMeasure } from './units';
+
+export type AisleCategory =
+  | 'produce'
+  | 'meat-seafood'
+  | 'dairy-eggs'
+  | 'bakery'
+  | 'canned'
+  | 'pantry'
+  | 'spices'
+  | 'frozen'
+  | 'other';
+
+// Also the order aisles are listed in
+export const AISLE_LABELS: Record<AisleCategory, string> = {
+  produce: 'Produce',
+  'meat-seafood': 'Meat & Seafood',
+  'dairy-eggs': 'Dairy & Eggs',
+  bakery: 'Bakery',
+  canned: 'Canned & Jarred',
+  pantry: 'Pantry',
+  spices: 'Spices & Seasonings',
+  frozen: 'Frozen',
+  other: 'Other',
+};
+
+const AISLE_ORDER = Object.keys(AISLE_LABELS) as AisleCategory[];
+
+// Checked in order against the item key; the first match wins, so overrides
+// such as "peanut butter" or "chicken stock" come before "butter" and "chicken"
+const AISLE_PATTERNS: [RegExp, AisleCategory][] = [
+  [/\bfrozen\b/, 'frozen'],
+  [/\b(oil|stock|broth|bouillon|(peanut|almond|nut) butter|(coconut|almond|oat|soy) milk|coconut cream|(fish|oyster|soy) sauce)\b/, 'pantry'],
+  [/\b(chicken|beef|pork|lamb|turkey|veal|duck|bacon|pancetta|sausage|ham|prosciutto|chorizo|mince|steak|fish|salmon|tuna|cod|haddock|halibut|tilapia|trout|shrimp|prawn|scallop|crab|lobster|mussel|clam|squid|anchov(y|ie)|sardine)\b/, 'meat-seafood'],
+  [/\b(milk|buttermilk|cream|butter|ghee|cheese|parmesan|mozzarella|cheddar|feta|ricotta|mascarpone|halloumi|paneer|yogh?urt|cr[eè]me fra[iî]che|egg|egg yolk|egg white)\b/, 'dairy-eggs'],
+  [/\b(salt|(black|white) pepper|pepper flake|peppercorn|cumin|paprika|cinnamon|nutmeg|turmeric|(chil[ie]|curry|garlic|onion) powder|cayenne|garam masala|cardamom|allspice|ground (clove|coriander|ginger)|oregano|seasoning|spice|(?<!-)dried \w+|bay lea(f|ve)|vanilla)\b/, 'spices'],
+  [/\b(bread|baguette|bun|roll|tortilla|pita|naan|brioche|croissant|bagel|ciabatta|focaccia|sourdough)\b/, 'bakery'],
+  [/\b(canned|tinned|tomato (paste|puree)|passata|crushed tomato|chickpea|(kidney|black|cannellini|pinto|baked) bean|olive|caper|pickle|jam|salsa)\b/, 'canned'],
+  [/\b(flour|sugar|vinegar|rice|pasta|spaghetti|penne|noodle|couscous|quinoa|lentil|oat|honey|syrup|molasses|cornstarch|cornflour|baking (soda|powder)|yeast|chocolate|cocoa|breadcrumb|panko|nut|almond|walnut|pecan|cashew|peanut|seed|raisin|mustard|ketchup|mayonnaise|sauce|tahini|coconut)\b/, 'pantry'],
+  [/\b(onion|garlic|shallot|leek|scallion|ginger|tomato|potato|carrot|celery|pepper|chil[ie]|jalape[nñ]o|lettuce|spinach|kale|cabbage|broccoli|cauliflower|zucchini|courgette|eggplant|aubergine|cucumber|squash|pumpkin|mushroom|pea|green bean|corn|avocado|lemon|lime|orange|apple|banana|berry|strawberry|blueberry|raspberry|grape|mango|pineapple|peach|pear|herb|basil|parsley|cilantro|coriander|mint|dill|thyme|rosemary|sage|chive|arugula|rocket|beet|radish|asparagus|fennel)\b/, 'produce'],
+];
+
+const CONTAINER_UNITS = new Set(['can', 'jar']);
+
+export const categorizeIngredient = (key: string, unit?: string): AisleCategory => {
+  const match = AISLE_PATTERNS.find(([pattern]) => pattern.test(key));
+  const category = match ? match[1] : 'other';
+  // "1 can tomatoes" is bought from the canned aisle, not the produce section
+  if (unit && CONTAINER_UNITS.has(unit) && (category === 'produce' || category === 'other')) return 'canned';
+  return category;
+};
+
+// Size words don't change what you buy: "large onions" and "onion" are one item
+const DESCRIPTOR_PATTERN = /\b(fresh|large|medium|small|ripe|whole|raw)\b/g;
+
+const singularWord = (word: string): string => {
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(oes|ches|shes|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+};
+
+// "Large Onions (yellow)" -> "onion"
+export const shoppingItemKey = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(DESCRIPTOR_PATTERN, ' ')
+    .replace(/[^a-z0-9'\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularWord)
+    .join(' ') || name.trim().toLowerCase();
+
+export interface ShoppingItem {
+  key: string;
+  name: string;
+  // One amount per incompatible unit, e.g. "2 cups" and "1 can"; empty for "salt, to taste"
+  amounts: Amount[];
+  // True when every recipe lists it as optional
+  optional: boolean;
+  // Titles of the recipes that use it
+  recipes: string[];
+  category: AisleCategory;
+}
+
+interface Accumulator {
+  key: string;
+  names: string[];
+  // Volumes in millilitres and weights in grams; other units keyed by unit
+  measures: Partial<Record<MeasureKind, Amount>>;
+  others: Map<string, Amount>;
+  optional: boolean;
+  recipes: string[];
+  unit?: string;
+}
+
+const addAmounts = (a: Amount | undefined, b: Amount): Amount => {
+  if (!a) return b;
+  const quantity = (a.quantity ?? 0) + (b.quantity ?? 0);
+  const hasRange = a.quantityMax !== undefined || b.quantityMax !== undefined;
+  return {
+    unit: a.unit,
+    quantity,
+    quantityMax: hasRange ? (a.quantityMax ?? a.quantity ?? 0) + (b.quantityMax ?? b.quantity ?? 0) : undefined,
+  };
+};
+
+const scaleTo = (amount: Amount, factor: number, unit: string): Amount => ({
+  unit,
+  quantity: amount.quantity !== undefined ? amount.quantity * factor : undefined,
+  quantityMax: amount.quantityMax !== undefined ? amount.quantityMax * factor : undefined,
+});
+
+const addIngredient = (entry: Accumulator, ingredient: Ingredient) => {
+  if (!entry.names.includes(ingredient.name)) entry.names.push(ingredient.name);
+  entry.optional = entry.optional && !!ingredient.optional;
+  entry.unit = entry.unit ?? ingredient.unit;
+  if (ingredient.quantity === undefined) return;
+
+  const measure = unitMeasure(ingredient.unit);
+  if (measure) {
+    const base = scaleTo(ingredient, measure.size, measure.kind === 'volume' ? 'ml' : 'g');
+    entry.measures[measure.kind] = addAmounts(entry.measures[measure.kind], base);
+    return;
+  }
+  const unitKey = ingredient.unit ?? '';
+  entry.others.set(unitKey, addAmounts(entry.others.get(unitKey), {
+    quantity: ingredient.quantity,
+    quantityMax: ingredient.quantityMax,
+    unit: ingredient.unit,
+  }));
+};
+
+// "3 onions" reads better than "3 onion", and "1 onion" better than "1 onions".
+// The shortest spelling drops size words like "large".
+const pickName = (entry: Accumulator, count?: Amount): string => {
+  const plural = (count?.quantityMax ?? count?.quantity ?? 0) > 1;
+  const byLength = [...entry.names].sort((a, b) => a.length - b.length);
+  return byLength.find(n => /s$/i.test(n) === plural) ?? byLength[0];
+};
+
+const finishItem = (entry: Accumulator, system: UnitSystem): ShoppingItem => {
+  const { volume } = entry.measures;
+  let { weight } = entry.measures;
+  // A cup of flour in one recipe and 200 g in another can still be one number
+  const density = findDensity(entry.key);
+  let volumeAmount = volume;
+  if (volume && weight && density !== undefined) {
+    weight = addAmounts(weight, scaleTo(volume, density, 'g'));
+    volumeAmount = undefined;
+  }
+
+  const count = entry.others.get('');
+  const amounts: Amount[] = [];
+  if (weight) amounts.push(readableAmount(weight, 'weight', system));
+  if (volumeAmount) amounts.push(readableAmount(volumeAmount, 'volume', system));
+  if (count) amounts.push(count);
+  entry.others.forEach((amount, unit) => { if (unit) amounts.push(amount); });
+
+  return {
+    key: entry.key,
+    name: pickName(entry, count),
+    amounts,
+    optional: entry.optional,
+    recipes: entry.recipes,
+    category: categorizeIngredient(entry.key, entry.unit),
+  };
+};
+
+// "1 garlic clove" is the same purchase as "3 cloves garlic"
+const TRAILING_UNIT = /\s+(clove|slice|sprig|head|bunch)(e?s)?$/i;
+
+const moveTrailingUnit = (ingredient: Ingredient): Ingredient => {
+  if (ingredient.unit) return ingredient;
+  const match = ingredient.name.match(TRAILING_UNIT);
+  if (!match || match.index === undefined) return ingredient;
+  return { ...ingredient, name: ingredient.name.slice(0, match.index), unit: normalizeUnit(match[1]) };
+};
+
+// Merges the ingredients of every recipe on the list, summing amounts that
+// share a unit family and converting them into the cook's unit system
+export const buildShoppingList = (recipes: ShoppingListRecipe[], system: UnitSystem): ShoppingItem[] => {
+  const entries = new Map<string, Accumulator>();
+
+  for (const recipe of recipes) {
+    for (const ingredient of recipe.ingredients.map(moveTrailingUnit)) {
+      const key = shoppingItemKey(ingredient.name);
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = { key, names: [], measures: {}, others: new Map(), optional: true, recipes: [] };
+        entries.set(key, entry);
+      }
+      addIngredient(entry, ingredient);
+      if (!entry.recipes.includes(recipe.title)) entry.recipes.push(recipe.title);
+    }
+  }
+
+  return [...entries.values()]
+    .map(entry => finishItem(entry, system))
+    .sort((a, b) =>
+      AISLE_ORDER.indexOf(a.category) - AISLE_ORDER.indexOf(b.category) || a.name.localeCompare(b.name)
+    );
+};
+
+// Keeps aisle order; empty aisles are left out
+export const groupByAisle = (items: ShoppingItem[]): { category: AisleCategory; items: ShoppingItem[] }[] =>
+  AISLE_ORDER
+    .map(category => ({ category, items: items.filter(item => item.category === category) }))
+    .filter(group => group.items.length > 0);
+
+// "2 cups + 1 can chickpeas"
+export const formatShoppingItem = (item: ShoppingItem): string => {
+  const amount = item.amounts.map(formatAmount).join(' + ');
+  const text = amount ? `${amount} ${item.name}` : item.name;
+  return item.optional ? `${text} (optional)` : text;
+};
+
+export type ShoppingListFormat = 'text' | 'markdown';
+
+// Items already in the pantry are listed last so they can be double-checked
+export const exportShoppingList = (
+  state: ShoppingListState,
+  items: ShoppingItem[],
+  format: ShoppingListFormat,
+  pantry: Set<string> = new Set()
+): string => {
+  const checked = new Set(state.checked);
+  const toBuy = items.filter(item => !pantry.has(item.key));
+  const atHome = items.filter(item => pantry.has(item.key));
+  const markdown = format === 'markdown';
+
+  const heading = (text: string, level: number) => markdown ? `${'#'.repeat(level)} ${text}` : text.toUpperCase();
+  const line = (item: ShoppingItem) => {
+    const done = checked.has(item.key);
+    return markdown ? `- [${done ? 'x' : ' '}] ${formatShoppingItem(item)}` : `${done ? '[x]' : '[ ]'} ${formatShoppingItem(item)}`;
+  };
+
+  const lines = [heading('Shopping list', 1), ''];
+  if (state.recipes.length > 0) {
+    const titles = state.recipes.map(r => `${r.title} (serves ${r.servings})`).join(', ');
+    lines.push(markdown ? `_For ${titles}_` : `For ${titles}`, '');
+  }
+  for (const group of groupByAisle(toBuy)) {
+    lines.push(heading(AISLE_LABELS[group.category], 2), ...group.items.map(line), '');
+  }
+  if (atHome.length > 0) {
+    lines.push(heading('Already in pantry', 2), ...atHome.map(item => `- ${formatShoppingItem(item)}`), '');
+  }
+  return lines.join('\n').trimEnd() + '\n';
+};
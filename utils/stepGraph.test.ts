@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { RecipeStep, StepType } from '../types';
+import { backwardSchedule, scheduleSteps } from './stepGraph';
+
+const step = (id: string, activeMinutes: number, passiveMinutes = 0, dependsOn: string[] = []): RecipeStep => ({
+  id,
+  instruction: `Step ${id}`,
+  type: passiveMinutes > 0 ? StepType.TIMING : StepType.PREP,
+  activeMinutes,
+  passiveMinutes,
+  dependsOn,
+});
+
+describe('scheduleSteps', () => {
+  it('runs steps without dependency data one after another', () => {
+    const steps: RecipeStep[] = [
+      { instruction: 'Chop', type: StepType.PREP, activeMinutes: 5 },
+      { instruction: 'Fry', type: StepType.COOK, activeMinutes: 10 },
+    ];
+    const schedule = scheduleSteps(steps);
+    expect(schedule.steps.map(s => [s.start, s.end])).toEqual([[0, 5], [5, 15]]);
+    expect(schedule.totalMinutes).toBe(15);
+    expect(schedule.steps.every(s => s.critical)).toBe(true);
+  });
+
+  it('overlaps hands-on work with unattended time', () => {
+    // Rice simmers for 20 minutes while the vegetables are chopped and fried
+    const schedule = scheduleSteps([
+      step('s1', 2, 20),
+      step('s2', 10),
+      step('s3', 5, 0, ['s2']),
+      step('s4', 3, 0, ['s1', 's3']),
+    ]);
+    expect(schedule.steps.map(s => s.start)).toEqual([0, 2, 12, 22]);
+    expect(schedule.totalMinutes).toBe(25);
+    expect(schedule.steps.map(s => s.critical)).toEqual([true, false, false, true]);
+  });
+
+  it('never has the cook doing two hands-on things at once', () => {
+    const schedule = scheduleSteps([step('s1', 10), step('s2', 10), step('s3', 2, 0, ['s1', 's2'])]);
+    const [a, b] = schedule.steps;
+    expect(a.activeEnd <= b.start || b.activeEnd <= a.start).toBe(true);
+    expect(schedule.totalMinutes).toBe(22);
+  });
+
+  it('handles an empty recipe', () => {
+    expect(scheduleSteps([])).toEqual({ steps: [], totalMinutes: 0 });
+  });
+});
+
+describe('backwardSchedule', () => {
+  it('counts back from the serving time', () => {
+    const schedule = scheduleSteps([step('s1', 2, 20), step('s2', 10), step('s3', 3, 0, ['s1', 's2'])]);
+    const serveAt = new Date('2026-01-01T19:00:00');
+    expect(backwardSchedule(schedule, serveAt).map(d => d.toTimeString().slice(0, 5))).toEqual(['18:35', '18:37', '18:57']);
+  });
+});
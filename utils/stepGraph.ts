@@ -0,0 +1,126 @@
+import { RecipeStep, StepType } from '../types';
+import { parseDurations } from './durations';
+import { stripIngredientMarkup } from './ingredients';
+
+export interface ScheduledStep {
+  index: number;
+  // Minutes from when cooking begins
+  start: number;
+  // When the hands-on part is over and the cook is free again
+  activeEnd: number;
+  end: number;
+  // On the chain of steps that decides when the dish is ready
+  critical: boolean;
+  // Indexes of the steps this one waits for
+  dependsOn: number[];
+}
+
+export interface StepSchedule {
+  steps: ScheduledStep[];
+  totalMinutes: number;
+}
+
+const MIN_ACTIVE_MINUTES = 2;
+
+// Recipes generated before steps carried durations fall back to the times
+// mentioned in the text: waiting for TIMING steps, hands-on for the rest
+export const stepMinutes = (step: RecipeStep): { active: number; passive: number } => {
+  if (step.activeMinutes !== undefined || step.passiveMinutes !== undefined) {
+    return { active: step.activeMinutes ?? 0, passive: step.passiveMinutes ?? 0 };
+  }
+  const mentioned = Math.round(parseDurations(step.instruction).reduce((sum, d) => sum + d.seconds, 0) / 60);
+  return step.type === StepType.TIMING
+    ? { active: 1, passive: mentioned }
+    : { active: Math.max(MIN_ACTIVE_MINUTES, mentioned), passive: 0 };
+};
+
+// Dependencies as step indexes. Without any dependency data the steps run one
+// after another, as the list reads.
+export const stepDependencies = (steps: RecipeStep[]): number[][] => {
+  if (steps.every(step => step.dependsOn === undefined)) {
+    return steps.map((_, index) => (index > 0 ? [index - 1] : []));
+  }
+  const indexById = new Map(steps.map((step, index) => [step.id ?? `s${index + 1}`, index]));
+  return steps.map((step, index) =>
+    (step.dependsOn ?? [])
+      .map(id => indexById.get(id))
+      .filter((dep): dep is number => dep !== undefined && dep < index)
+  );
+};
+
+// Earliest start for every step with one cook: a step waits for its
+// dependencies, and its hands-on part for a gap in the cook's other hands-on
+// work. Unattended time overlaps freely, so the rice simmers while the
+// vegetables are chopped.
+export const scheduleSteps = (steps: RecipeStep[]): StepSchedule => {
+  const dependencies = stepDependencies(steps);
+  const busy: { from: number; to: number; owner: number }[] = [];
+  const scheduled: ScheduledStep[] = [];
+  // The step whose end held each one up, for tracing the critical path
+  const heldUpBy: (number | undefined)[] = [];
+
+  steps.forEach((step, index) => {
+    const { active, passive } = stepMinutes(step);
+    let start = 0;
+    let blocker: number | undefined;
+    for (const dep of dependencies[index]) {
+      if (scheduled[dep].end > start) {
+        start = scheduled[dep].end;
+        blocker = dep;
+      }
+    }
+    for (const interval of busy) {
+      if (start + active <= interval.from) break;
+      if (interval.to > start) {
+        start = interval.to;
+        blocker = interval.owner;
+      }
+    }
+    if (active > 0) {
+      busy.push({ from: start, to: start + active, owner: index });
+      busy.sort((a, b) => a.from - b.from);
+    }
+    scheduled.push({ index, start, activeEnd: start + active, end: start + active + passive, critical: false, dependsOn: dependencies[index] });
+    heldUpBy.push(blocker);
+  });
+
+  const totalMinutes = Math.max(0, ...scheduled.map(s => s.end));
+  let current = scheduled.length > 0
+    ? scheduled.reduce((last, s) => (s.end >= last.end ? s : last)).index
+    : undefined;
+  while (current !== undefined) {
+    scheduled[current].critical = true;
+    current = heldUpBy[current];
+  }
+
+  return { steps: scheduled, totalMinutes };
+};
+
+// Other steps that start while this one runs unattended
+export const stepsDuring = (schedule: StepSchedule, index: number): ScheduledStep[] => {
+  const step = schedule.steps[index];
+  if (!step || step.end <= step.activeEnd) return [];
+  return schedule.steps.filter(other =>
+    other.index !== index && other.start >= step.activeEnd && other.start < step.end
+  );
+};
+
+// The next time the clock shows "HH:MM" ("19:00" tonight, or tomorrow if that's passed)
+export const nextClockTime = (value: string, now = new Date()): Date | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const time = new Date(now);
+  time.setHours(Number(match[1]), Number(match[2]), 0, 0);
+  if (time < now) time.setDate(time.getDate() + 1);
+  return time;
+};
+
+// When each step should begin for everything to be done at serveAt
+export const backwardSchedule = (schedule: StepSchedule, serveAt: Date): Date[] =>
+  schedule.steps.map(step => new Date(serveAt.getTime() - (schedule.totalMinutes - step.start) * 60_000));
+
+// Short plain-text name for a step, for timeline rows and hints
+export const stepLabel = (step: RecipeStep, maxLength = 48): string => {
+  const text = stripIngredientMarkup(step.instruction).replace(/\.$/, '');
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
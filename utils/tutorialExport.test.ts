@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { RecipeStep, StepType } from '../types';
+import { INTRO_SECONDS, STEP_PAUSE_SECONDS, buildTutorialCues, cuesToSrt, cuesToWebVtt, tutorialLength } from './tutorialExport';
+
+const steps: RecipeStep[] = [
+  { instruction: 'Melt the <<butter|1 cup>> in a pan.', type: StepType.COOK },
+  { instruction: 'Serve.', type: StepType.PREP },
+];
+
+describe('buildTutorialCues', () => {
+  it('follows the title card with one cue per step, each its narration plus a pause', () => {
+    const cues = buildTutorialCues(steps, [10, 1], 'metric');
+    expect(cues[0]).toEqual({ step: 0, start: INTRO_SECONDS, end: INTRO_SECONDS + 10 + STEP_PAUSE_SECONDS, text: 'Melt the butter (225g) in a pan.' });
+    // Short or missing narration still leaves time to read the subtitle
+    expect(cues[1].start).toBe(cues[0].end);
+    expect(cues[1].end - cues[1].start).toBe(4);
+    expect(tutorialLength(cues)).toBe(cues[1].end);
+  });
+
+  it('treats missing narration like a short one', () => {
+    expect(buildTutorialCues(steps, [], 'us').map(c => c.end - c.start)).toEqual([4, 4]);
+  });
+
+  it('is just the title card without steps', () => {
+    expect(tutorialLength(buildTutorialCues([], [], 'metric'))).toBe(INTRO_SECONDS);
+  });
+});
+
+describe('subtitle formats', () => {
+  const cues = [
+    { step: 0, start: 3, end: 14.5, text: 'Melt the butter.' },
+    { step: 1, start: 14.5, end: 3675.25, text: 'Serve.' },
+  ];
+
+  it('writes SRT', () => {
+    expect(cuesToSrt(cues)).toBe(
+      '1\n00:00:03,000 --> 00:00:14,500\nMelt the butter.\n\n2\n00:00:14,500 --> 01:01:15,250\nServe.\n'
+    );
+  });
+
+  it('writes WebVTT', () => {
+    expect(cuesToWebVtt(cues)).toBe(
+      'WEBVTT\n\nstep-1\n00:00:03.000 --> 00:00:14.500\nMelt the butter.\n\nstep-2\n00:00:14.500 --> 01:01:15.250\nServe.\n'
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { RecipeStep, UnitSystem } from '../types';
+import { inlineQuantities } from './recipeExport';
+
+// Timing shared by the video export and the subtitles packaged with it
+
+// Title card before the first step
+export const INTRO_SECONDS = 3;
+// Silence after each step's narration, as in the live player
+export const STEP_PAUSE_SECONDS = 1.5;
+// Cross-fade from one step's picture to the next
+export const TRANSITION_SECONDS = 0.5;
+// Steps without narration stay up long enough to read
+const MIN_STEP_SECONDS = 4;
+
+export interface TutorialCue {
+  step: number;
+  // Seconds from the start of the video
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Subtitle text: ingredient tags spelled out, as in the Markdown export
+export const subtitleText = (step: RecipeStep, system: UnitSystem): string =>
+  inlineQuantities(step.instruction, system).replace(/\s+/g, ' ').trim();
+
+// One cue per step, each lasting its narration plus a pause
+export const buildTutorialCues = (steps: RecipeStep[], narrationSeconds: number[], system: UnitSystem): TutorialCue[] => {
+  let start = INTRO_SECONDS;
+  return steps.map((step, i) => {
+    const length = Math.max(narrationSeconds[i] ?? 0, MIN_STEP_SECONDS - STEP_PAUSE_SECONDS) + STEP_PAUSE_SECONDS;
+    const cue = { step: i, start, end: start + length, text: subtitleText(step, system) };
+    start = cue.end;
+    return cue;
+  });
+};
+
+export const tutorialLength = (cues: TutorialCue[]): number =>
+  cues.length > 0 ? cues[cues.length - 1].end : INTRO_SECONDS;
+
+// 75.5 -> "00:01:15,500" (SRT) or "00:01:15.500" (WebVTT)
+const formatCueTime = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const cuesToSrt = (cues: TutorialCue[]): string =>
+  cues.map((cue, i) =>
+    `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`
+  ).join('\n');
+
+export const cuesToWebVtt = (cues: TutorialCue[]): string =>
+  ['WEBVTT', '', ...cues.map(cue =>
+    `step-${cue.step + 1}\n${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}\n`
+  )].join('\n');
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { convertQuantityText, findDensity } from './units';
+
+describe('convertQuantityText', () => {
+  it('weighs dry goods measured in cups for metric cooks', () => {
+    expect(convertQuantityText('1 cup', 'metric', 'flour')).toBe('125g');
+  });
+
+  it('converts liquids by volume', () => {
+    expect(convertQuantityText('1 cup', 'metric', 'milk')).toBe('235ml');
+    expect(convertQuantityText('500 ml', 'uk', 'stock')).toBe('17 1/2 fl oz');
+  });
+
+  it('measures dry goods in cups for US cooks', () => {
+    expect(convertQuantityText('200g', 'us', 'sugar')).toBe('1 cup');
+    expect(convertQuantityText('200g', 'us', 'chicken')).toBe('7 oz');
+  });
+
+  it('converts both ends of a range', () => {
+    expect(convertQuantityText('2-3 cups', 'metric', 'water')).toBe('475-710ml');
+  });
+
+  it('leaves spoons and counts alone', () => {
+    expect(convertQuantityText('1 tbsp', 'metric', 'oil')).toBe('1 tbsp');
+    expect(convertQuantityText('2 cloves', 'metric', 'garlic')).toBe('2 cloves');
+  });
+});
+
+describe('findDensity', () => {
+  it('prefers the most specific key', () => {
+    expect(findDensity('Brown sugar')).toBe(0.93);
+    expect(findDensity('peanut butter')).toBe(1.08);
+  });
+
+  it('ignores keys that only describe another ingredient', () => {
+    expect(findDensity('rice vinegar')).toBeUndefined();
+    expect(findDensity('sugar snap peas')).toBeUndefined();
+    expect(findDensity('butter beans')).toBeUndefined();
+  });
+
+  it('allows connecting words after the ingredient', () => {
+    expect(findDensity('flour for dusting')).toBe(0.53);
+    expect(findDensity('unsalted butter, softened')).toBe(0.96);
+  });
+});
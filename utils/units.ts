@@ -0,0 +1,210 @@
+import { UnitSystem } from '../types';
+import { Amount, mapQuantityText } from './quantity';
+
+// Generated recipes are written for US kitchens, so cups, pints and fluid
+// ounces in source text are read as US measures. UK output uses imperial sizes.
+const VOLUME_ML: Record<string, number> = {
+  tsp: 4.929,
+  tbsp: 14.787,
+  'fl oz': 29.574,
+  cup: 236.588,
+  pint: 473.176,
+  quart: 946.353,
+  gallon: 3785.41,
+  ml: 1,
+  l: 1000,
+};
+
+const WEIGHT_G: Record<string, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+const UK_FL_OZ_ML = 28.413;
+const UK_PINT_ML = 568.261;
+
+// Approximate grams per millilitre for ingredients commonly measured by volume
+const DENSITY_G_PER_ML: Record<string, number> = {
+  'all-purpose flour': 0.53,
+  'plain flour': 0.53,
+  'bread flour': 0.54,
+  'whole wheat flour': 0.51,
+  'almond flour': 0.41,
+  'flour': 0.53,
+  'granulated sugar': 0.85,
+  'caster sugar': 0.85,
+  'brown sugar': 0.93,
+  'powdered sugar': 0.51,
+  'icing sugar': 0.51,
+  "confectioners' sugar": 0.51,
+  'sugar': 0.85,
+  'butter': 0.96,
+  'cocoa powder': 0.42,
+  'cocoa': 0.42,
+  'rolled oats': 0.38,
+  'oats': 0.38,
+  'rice': 0.85,
+  'honey': 1.42,
+  'maple syrup': 1.32,
+  'peanut butter': 1.08,
+  'cornstarch': 0.54,
+  'cornflour': 0.54,
+  'breadcrumbs': 0.45,
+  'panko': 0.25,
+  'chocolate chips': 0.72,
+  'shredded coconut': 0.35,
+  'grated parmesan': 0.42,
+  'kosher salt': 0.6,
+  'salt': 1.2,
+};
+
+const DENSITY_KEYS = Object.keys(DENSITY_G_PER_ML).sort((a, b) => b.length - a.length);
+
+// Spoon measures are used everywhere, so they are never converted
+const SPOON_UNITS = new Set(['tsp', 'tbsp']);
+
+const METRIC_UNITS = new Set(['ml', 'l', 'g', 'kg']);
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  metric: 'Metric',
+  us: 'US',
+  uk: 'UK',
+};
+
+export const detectUnitSystem = (locale?: string): UnitSystem => {
+  if (!locale) return 'metric';
+  if (/^en-(US|LR)$/i.test(locale) || /-MM$/i.test(locale)) return 'us';
+  if (/^en-GB$/i.test(locale)) return 'uk';
+  return 'metric';
+};
+
+// Connecting words that can follow the ingredient itself ("flour for dusting")
+const TRAILING_WORDS = 'and|or|for|to|plus|in|from|of';
+
+// A key only counts as the ingredient when no other word follows it, so "rice
+// vinegar" and "sugar snap peas" aren't measured as rice and sugar
+export const findDensity = (ingredientName?: string): number | undefined => {
+  if (!ingredientName) return undefined;
+  const name = ingredientName.toLowerCase();
+  const key = DENSITY_KEYS.find(k => new RegExp(`\\b${k}\\b(?!\\s+(?!(?:${TRAILING_WORDS})\\b)[a-z])`).test(name));
+  return key ? DENSITY_G_PER_ML[key] : undefined;
+};
+
+const roundTo = (value: number, step: number) => Math.max(step, Math.round(value / step) * step);
+
+const roundForUnit = (value: number, unit: string): number => {
+  switch (unit) {
+    case 'g':
+    case 'ml':
+      return value < 10 ? roundTo(value, 0.5) : value < 100 ? roundTo(value, 1) : roundTo(value, 5);
+    case 'kg':
+    case 'l':
+      return roundTo(value, 0.05);
+    case 'oz':
+    case 'fl oz':
+      return value < 4 ? roundTo(value, 0.25) : roundTo(value, 0.5);
+    case 'tsp':
+      return roundTo(value, 1 / 8);
+    case 'tbsp':
+    case 'lb':
+    case 'pint':
+      return roundTo(value, 1 / 4);
+    case 'cup':
+      return roundTo(value, 1 / 8);
+    default:
+      return value;
+  }
+};
+
+// Picks the display unit for a weight in grams
+const weightUnitFor = (grams: number, system: UnitSystem): [string, number] => {
+  if (system === 'metric') return grams >= 1000 ? ['kg', 1000] : ['g', 1];
+  return grams >= WEIGHT_G.lb ? ['lb', WEIGHT_G.lb] : ['oz', WEIGHT_G.oz];
+};
+
+// Picks the display unit for a volume in millilitres
+const volumeUnitFor = (ml: number, system: UnitSystem): [string, number] => {
+  if (system === 'metric') return ml >= 1000 ? ['l', 1000] : ['ml', 1];
+  if (ml < VOLUME_ML.tbsp) return ['tsp', VOLUME_ML.tsp];
+  if (ml < VOLUME_ML.cup / 4) return ['tbsp', VOLUME_ML.tbsp];
+  if (system === 'us') return ['cup', VOLUME_ML.cup];
+  return ml >= UK_PINT_ML ? ['pint', UK_PINT_ML] : ['fl oz', UK_FL_OZ_ML];
+};
+
+const withFactor = (amount: Amount, unit: string, factor: number): Amount => ({
+  unit,
+  quantity: amount.quantity !== undefined ? roundForUnit(amount.quantity * factor, unit) : undefined,
+  quantityMax: amount.quantityMax !== undefined ? roundForUnit(amount.quantityMax * factor, unit) : undefined,
+});
+
+// Converts an amount into the preferred unit system. Counts and units with no
+// fixed size ("2 cloves", "a pinch") are returned unchanged.
+export const convertAmount = <T extends Amount>(amount: T, system: UnitSystem, ingredientName?: string): T => {
+  const { quantity, unit } = amount;
+  if (quantity === undefined || !unit) return amount;
+  if (system === 'metric' && METRIC_UNITS.has(unit)) return amount;
+
+  const density = findDensity(ingredientName);
+  const reference = amount.quantityMax ?? quantity;
+
+  if (unit in VOLUME_ML) {
+    if (SPOON_UNITS.has(unit)) return amount;
+    if (system === 'us' && !METRIC_UNITS.has(unit)) return amount;
+    const ml = VOLUME_ML[unit];
+    // Metric and UK cooks weigh dry goods, so cups of flour become grams or ounces
+    if (density !== undefined && system !== 'us') {
+      const grams = ml * density;
+      const [target, size] = weightUnitFor(reference * grams, system);
+      return { ...amount, ...withFactor(amount, target, grams / size) };
+    }
+    const [target, size] = volumeUnitFor(reference * ml, system);
+    return { ...amount, ...withFactor(amount, target, ml / size) };
+  }
+
+  if (unit in WEIGHT_G) {
+    const g = WEIGHT_G[unit];
+    // US cooks measure dry goods in cups
+    if (system === 'us' && density !== undefined) {
+      const ml = g / density;
+      const [target, size] = volumeUnitFor(reference * ml, system);
+      return { ...amount, ...withFactor(amount, target, ml / size) };
+    }
+    const [target, size] = weightUnitFor(reference * g, system);
+    if (target === unit) return amount;
+    return { ...amount, ...withFactor(amount, target, g / size) };
+  }
+
+  return amount;
+};
+
+export const convertQuantityText = (text: string, system: UnitSystem, ingredientName?: string): string =>
+  mapQuantityText(text, amount => convertAmount(amount, system, ingredientName));
+
+export type MeasureKind = 'volume' | 'weight';
+
+// Size of a unit in millilitres or grams. Counts and units with no fixed size
+// ("2 cloves", "1 can") have none.
+export const unitMeasure = (unit?: string): { kind: MeasureKind; size: number } | undefined => {
+  if (!unit) return undefined;
+  if (unit in VOLUME_ML) return { kind: 'volume', size: VOLUME_ML[unit] };
+  if (unit in WEIGHT_G) return { kind: 'weight', size: WEIGHT_G[unit] };
+  return undefined;
+};
+
+// Expresses a total in millilitres or grams in the most readable unit for the
+// system. Small volumes stay in spoons, as they do in convertAmount.
+export const readableAmount = (amount: Amount, kind: MeasureKind, system: UnitSystem): Amount => {
+  const reference = amount.quantityMax ?? amount.quantity ?? 0;
+  let target: [string, number];
+  if (kind === 'weight') {
+    target = weightUnitFor(reference, system);
+  } else if (reference < VOLUME_ML.cup / 4) {
+    target = reference < VOLUME_ML.tbsp ? ['tsp', VOLUME_ML.tsp] : ['tbsp', VOLUME_ML.tbsp];
+  } else {
+    target = volumeUnitFor(reference, system);
+  }
+  const [unit, size] = target;
+  return withFactor(amount, unit, 1 / size);
+};
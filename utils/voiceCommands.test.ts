@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Ingredient, RecipeStep, StepType } from '../types';
+import { createTextRecognizer } from '../services/speechService';
+import { VoiceCommand, answerIngredientQuestion, parseVoiceCommand } from './voiceCommands';
+
+// Commands heard by a recognizer fed plain text, as Cook Mode receives them
+const hear = (...transcripts: string[]): VoiceCommand[] => {
+  const recognizer = createTextRecognizer();
+  const heard: VoiceCommand[] = [];
+  recognizer.onTranscript(transcript => heard.push(parseVoiceCommand(transcript)));
+  recognizer.start();
+  transcripts.forEach(recognizer.feed);
+  return heard;
+};
+
+describe('voice commands', () => {
+  it('recognises navigation, repeat and timers', () => {
+    expect(hear('Next', 'go back', 'Repeat that, please.', 'start the timer', "what's next?")).toEqual([
+      { type: 'next' },
+      { type: 'previous' },
+      { type: 'repeat' },
+      { type: 'start-timer' },
+      { type: 'next' },
+    ]);
+  });
+
+  it('reads ingredient questions before navigation words', () => {
+    expect(hear('How much butter?', 'how many eggs do I need', 'how much sugar goes back in')).toEqual([
+      { type: 'ingredient-question', ingredient: 'butter' },
+      { type: 'ingredient-question', ingredient: 'eggs' },
+      { type: 'ingredient-question', ingredient: 'sugar' },
+    ]);
+  });
+
+  it('passes on anything else as unknown', () => {
+    expect(hear('turn up the radio')).toEqual([{ type: 'unknown', transcript: 'turn up the radio' }]);
+  });
+
+  it('only delivers text while listening', () => {
+    const recognizer = createTextRecognizer();
+    const heard: string[] = [];
+    const unsubscribe = recognizer.onTranscript(transcript => heard.push(transcript));
+    recognizer.feed('next');
+    recognizer.start();
+    recognizer.feed('  ');
+    recognizer.feed(' back ');
+    unsubscribe();
+    recognizer.feed('repeat');
+    expect(heard).toEqual(['back']);
+  });
+});
+
+describe('answerIngredientQuestion', () => {
+  const step: RecipeStep = { instruction: 'Melt <<butter|2 tbsp>> with <<sugar|1 cup>>.', type: StepType.COOK };
+  const ingredients: Ingredient[] = [
+    { name: 'butter', quantity: 2, unit: 'tbsp' },
+    { name: 'sugar', quantity: 1, unit: 'cup' },
+    { name: 'eggs', quantity: 3 },
+    { name: 'salt', preparation: 'to taste' },
+  ];
+  const answer = (transcript: string, system: 'metric' | 'us' = 'us') => {
+    const [command] = hear(transcript);
+    if (command.type !== 'ingredient-question') throw new Error(`Heard ${command.type}`);
+    return answerIngredientQuestion(command.ingredient, step, ingredients, system);
+  };
+
+  it('answers from the current step in the chosen units', () => {
+    expect(answer('how much butter?')).toBe('Use 2 tbsp of butter in this step.');
+    expect(answer('how much sugar', 'metric')).toBe('Use 200g of sugar in this step.');
+  });
+
+  it('falls back to the whole recipe', () => {
+    expect(answer('how many eggs')).toBe("This step doesn't use eggs. The whole recipe needs 3.");
+    expect(answer('how much salt')).toBe("This step doesn't use salt. The recipe uses it to taste.");
+  });
+
+  it('says when the recipe has no such ingredient', () => {
+    expect(answer('how much saffron')).toBe("I couldn't find saffron in this recipe.");
+  });
+});
@@ -0,0 +1,71 @@
+import { Ingredient, RecipeStep, UnitSystem } from '../types';
+import { INGREDIENT_TAG_REGEX } from './scaling';
+import { convertAmount, convertQuantityText } from './units';
+import { formatAmount } from './quantity';
+
+export type VoiceCommand =
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'repeat' }
+  | { type: 'start-timer' }
+  | { type: 'ingredient-question'; ingredient: string }
+  | { type: 'unknown'; transcript: string };
+
+// Checked in order; the more specific phrases come first
+const COMMAND_PATTERNS: [RegExp, VoiceCommand['type']][] = [
+  [/\b(start|set|begin)\b.*\btimer\b|\btimer\b.*\b(start|go|on)\b/, 'start-timer'],
+  [/\b(repeat|again|say that|read (it|that|the step)|pardon|what was that)\b/, 'repeat'],
+  [/\b(back|previous|go back)\b/, 'previous'],
+  [/\b(next|continue|go on|forward|done|what'?s next)\b/, 'next'],
+];
+
+// "how much butter", "how many eggs do I need", "what amount of flour"
+const QUESTION_PATTERN = /\b(?:how (?:much|many)|what amount of|what quantity of|quantity of|amount of)\s+(?:of\s+)?(?:the\s+)?(.+?)(?:\s+(?:do|should|does|goes|go|is|are|in|for)\b.*)?\??$/;
+
+export const parseVoiceCommand = (transcript: string): VoiceCommand => {
+  const text = transcript.toLowerCase().replace(/[.!,]/g, '').trim();
+
+  // Questions first: "how much butter before the eggs" is not "previous"
+  const question = text.match(QUESTION_PATTERN);
+  if (question) return { type: 'ingredient-question', ingredient: question[1].trim() };
+
+  const match = COMMAND_PATTERNS.find(([pattern]) => pattern.test(text));
+  return match ? ({ type: match[1] } as VoiceCommand) : { type: 'unknown', transcript };
+};
+
+// Loose name match: "eggs" finds "egg whites", "parmesan" finds "grated parmesan"
+const singular = (word: string) => word.replace(/(ies)$/, 'y').replace(/(es|s)$/, '');
+
+const namesMatch = (asked: string, name: string): boolean => {
+  const a = asked.toLowerCase().split(/\s+/).map(singular);
+  const b = name.toLowerCase().split(/\s+/).map(singular);
+  return a.every(word => b.includes(word)) || b.every(word => a.includes(word));
+};
+
+// Answers from the current step's <<Name|Quantity>> tags, falling back to the
+// recipe's ingredient list for ingredients this step doesn't use
+export const answerIngredientQuestion = (
+  asked: string,
+  step: RecipeStep,
+  ingredients: Ingredient[],
+  unitSystem: UnitSystem
+): string => {
+  const inStep = [...step.instruction.matchAll(INGREDIENT_TAG_REGEX)]
+    .map(([, name, quantity]) => ({ name: name.trim(), quantity: quantity.trim() }))
+    .filter(tag => namesMatch(asked, tag.name));
+
+  if (inStep.length > 0) {
+    const parts = inStep.map(tag => `${convertQuantityText(tag.quantity, unitSystem, tag.name)} of ${tag.name}`);
+    return `Use ${parts.join(' and ')} in this step.`;
+  }
+
+  const ingredient = ingredients.find(i => namesMatch(asked, i.name));
+  if (!ingredient) return `I couldn't find ${asked} in this recipe.`;
+  if (ingredient.quantity === undefined) {
+    return `This step doesn't use ${ingredient.name}. The recipe uses it ${ingredient.preparation ?? 'to taste'}.`;
+  }
+  const amount = formatAmount(convertAmount(ingredient, unitSystem, ingredient.name));
+  return `This step doesn't use ${ingredient.name}. The whole recipe needs ${amount}.`;
+};
+
+export const VOICE_HELP = 'Say "next", "back", "repeat", "start timer", or ask "how much butter?"';
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('writes stored entries that a reader can walk through the central directory', async () => {
+    const entries = [
+      { name: 'recipe.md', data: bytes('# Pancakes\n') },
+      { name: 'steps/01.jpg', data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]) },
+    ];
+    const blob = createZip(entries, new Date(2026, 0, 2, 3, 4, 6));
+    expect(blob.type).toBe('application/zip');
+    const view = new DataView(await blob.arrayBuffer());
+
+    // End of central directory record
+    const endOffset = view.byteLength - 22;
+    expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+    expect(view.getUint16(endOffset + 10, true)).toBe(2);
+    let central = view.getUint32(endOffset + 16, true);
+
+    const decoder = new TextDecoder();
+    for (const entry of entries) {
+      expect(view.getUint32(central, true)).toBe(0x02014b50);
+      const nameLength = view.getUint16(central + 28, true);
+      const local = view.getUint32(central + 42, true);
+      expect(decoder.decode(new Uint8Array(view.buffer, central + 46, nameLength))).toBe(entry.name);
+
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      expect(view.getUint16(local + 8, true)).toBe(0); // stored
+      expect(view.getUint32(local + 14, true)).toBe(crc32(entry.data));
+      expect(view.getUint32(local + 22, true)).toBe(entry.data.length);
+      // MS-DOS time and date: 03:04:06 on 2026-01-02
+      expect(view.getUint16(local + 10, true)).toBe((3 << 11) | (4 << 5) | 3);
+      expect(view.getUint16(local + 12, true)).toBe(((2026 - 1980) << 9) | (1 << 5) | 2);
+      const dataStart = local + 30 + view.getUint16(local + 26, true);
+      expect(new Uint8Array(view.buffer, dataStart, entry.data.length)).toEqual(entry.data);
+
+      central += 46 + nameLength;
+    }
+  });
+
+  it('writes an empty archive as just the end record', async () => {
+    expect((await createZip([]).arrayBuffer()).byteLength).toBe(22);
+  });
+});